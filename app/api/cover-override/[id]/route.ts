@@ -0,0 +1,34 @@
+// app/api/cover-override/[id]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getOverride, getOverrideImage, isReviewToken } from '@/utils/cover-art';
+
+// Serves the images submitted through `/cover fix`, which are stored in KV
+// because Discord's own attachment links expire. Pending submissions are only
+// served through the signed links reviewers get from `/cover overrides list`.
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    try {
+        const { id } = await params;
+        const override = await getOverride(id);
+        const approved = override?.status === 'approved';
+        const reviewing = override?.status === 'pending' && isReviewToken(id, req.nextUrl.searchParams.get('token'));
+
+        // Rejected and revoked overrides have their image deleted as well.
+        const image = approved || reviewing ? await getOverrideImage(id) : null;
+        if (!image) {
+            return new NextResponse('Not found', { status: 404 });
+        }
+
+        return new NextResponse(new Uint8Array(image), {
+            status: 200,
+            headers: {
+                'Content-Type': 'image/jpeg',
+                // Short cache: a revoked override should disappear reasonably quickly.
+                // Pending images aren't cached at all, so they can't outlive a rejection.
+                'Cache-Control': approved ? 'public, s-maxage=3600, max-age=3600' : 'private, no-store',
+            },
+        });
+    } catch (error) {
+        console.error('Error in cover-override route:', error);
+        return new NextResponse('Error loading image', { status: 500 });
+    }
+}
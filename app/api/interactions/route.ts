@@ -3,75 +3,57 @@ import { NextResponse } from 'next/server';
 import {
     InteractionType,
     InteractionResponseType,
+    APIApplicationCommandAutocompleteInteraction,
     APIChatInputApplicationCommandInteraction,
-    APIMessageComponentButtonInteraction,
 } from 'discord-api-types/v10';
-import { verifyDiscordRequest } from '@/utils/verify-discord-request';
+import { logRejectedRequest, verifyDiscordRequest } from '@/utils/verify-discord-request';
+import { dispatchComponent } from '@/utils/components';
 
-// Import command handlers
-import { handlePing } from '@/app/commands/ping';
-import { handleRegister } from '@/app/commands/register';
-import { handleCover } from '@/app/commands/cover';
-import { handleFm } from '@/app/commands/fm';
-import { handleCountdown, handleCountdownInteraction  } from '@/app/commands/countdown';
+import { componentRoutes, getCommand } from '@/app/commands/registry';
 
-// development 
-import { handleDev } from '@/app/sandbox/dev';
-import { handleProfile } from '@/app/commands/profile';
-import { handleChart, handleServerChart } from '@/app/commands/chart';
-import { handleRc } from '@/app/commands/rc';
-import { handleLeague } from '@/app/commands/league';
+// Deferred work (see deferWork) keeps running after the response is sent,
+// for up to this many seconds.
+export const maxDuration = 60;
 
 export async function POST(req: Request) {
-    const { isValid, interaction } = await verifyDiscordRequest(req, process.env.DISCORD_PUBLIC_KEY!);
-
-    if (!isValid || !interaction) {
-        return new NextResponse('Invalid request signature', { status: 401 });
+    const verification = await verifyDiscordRequest(req, process.env.DISCORD_PUBLIC_KEY!);
+
+    if (!verification.isValid) {
+        logRejectedRequest(req, verification);
+        // A duplicate is a genuine request we've already handled; anything else fails verification.
+        return verification.reason === 'duplicate'
+            ? new NextResponse('Interaction already received', { status: 409 })
+            : new NextResponse('Invalid request signature', { status: 401 });
     }
 
+    const { interaction } = verification;
+
     if (interaction.type === InteractionType.Ping) {
         return NextResponse.json({ type: InteractionResponseType.Pong });
     }
 
     if (interaction.type === InteractionType.ApplicationCommand) {
-        const { name } = interaction.data;
+        const command = getCommand(interaction.data.name);
 
-        // Command router
-        switch (name) {
-            case 'ping':
-                return handlePing(interaction as APIChatInputApplicationCommandInteraction);
-            case 'register':
-                return handleRegister(interaction as APIChatInputApplicationCommandInteraction);
-            case 'cover':
-                return handleCover(interaction as APIChatInputApplicationCommandInteraction);
-            case 'fm':
-                return handleFm(interaction as APIChatInputApplicationCommandInteraction);
-            case 'countdown': 
-                return handleCountdown(interaction as APIChatInputApplicationCommandInteraction);
-            case 'profile': 
-                return handleProfile(interaction as APIChatInputApplicationCommandInteraction); 
-            case 'chart': 
-                return handleChart(interaction as APIChatInputApplicationCommandInteraction);
-            case 'serverchart': // Add a case for the new command
-                return await handleServerChart(interaction as APIChatInputApplicationCommandInteraction);
-            case 'league': 
-                return handleLeague(interaction as APIChatInputApplicationCommandInteraction)
-            case 'rc': 
-                return handleRc(interaction as APIChatInputApplicationCommandInteraction);
-            case 'dev':
-                return handleDev(interaction as APIChatInputApplicationCommandInteraction);
+        if (!command) {
+            return new NextResponse('Unknown command', { status: 400 });
+        }
 
-            default:
-                return new NextResponse('Unknown command', { status: 400 });
+        return command.execute(interaction as APIChatInputApplicationCommandInteraction);
+    }
+
+    if (interaction.type === InteractionType.ApplicationCommandAutocomplete) {
+        const command = getCommand(interaction.data.name);
+
+        if (!command?.autocomplete) {
+            return NextResponse.json({ type: InteractionResponseType.ApplicationCommandAutocompleteResult, data: { choices: [] } });
         }
+
+        return command.autocomplete(interaction as APIApplicationCommandAutocompleteInteraction);
     }
 
-    if (interaction.type === InteractionType.MessageComponent) {
-        // Right now, only the countdown command has buttons, so we can
-        // directly pass the interaction to its handler.
-        // If you add buttons to other commands, you'll need to add logic here
-        // to check the `custom_id` and route to the correct handler.
-        return handleCountdownInteraction(interaction as APIMessageComponentButtonInteraction);
+    if (interaction.type === InteractionType.MessageComponent || interaction.type === InteractionType.ModalSubmit) {
+        return dispatchComponent(interaction, componentRoutes);
     }
 
     return new NextResponse('Unhandled interaction type', { status: 404 });
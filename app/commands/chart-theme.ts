@@ -0,0 +1,185 @@
+// app/commands/chart-theme.ts
+import { NextResponse } from 'next/server';
+import {
+    APIApplicationCommandBasicOption,
+    APIChatInputApplicationCommandInteraction,
+    ApplicationCommandOptionType,
+    InteractionResponseType,
+} from 'discord-api-types/v10';
+import { defineCommand, getBooleanOption, getIntegerOption, getStringOption, getSubcommand } from '@/utils/commands';
+import {
+    ChartFont,
+    ChartTheme,
+    ChartThemeError,
+    describeChartTheme,
+    getChartTheme,
+    labelFonts,
+    MAX_CORNER_RADIUS,
+    MAX_TILE_GAP,
+    parseBackground,
+    parseHexColor,
+} from '@/utils/chart-image';
+import { isModerator } from '@/utils/permissions';
+import {
+    clearUserChartTheme,
+    getGuildSettings,
+    updateGuildSettings,
+    updateUserChartTheme,
+} from '@/utils/storage';
+
+// /chart already takes options of its own, which Discord won't mix with subcommands,
+// so themes get a command of their own.
+
+function reply(content: string) {
+    return NextResponse.json({
+        type: InteractionResponseType.ChannelMessageWithSource,
+        data: { content, flags: 1 << 6 },
+    });
+}
+
+/**
+ * The settings given to `set` or `server`. Only what was given is returned, so it
+ * can be merged over what's stored.
+ */
+function readThemeOptions(options: Parameters<typeof getStringOption>[0]): Partial<ChartTheme> {
+    const changes: Partial<ChartTheme> = {};
+    const background = getStringOption(options, 'background');
+    const textColor = getStringOption(options, 'text_colour');
+    const font = getStringOption(options, 'font');
+    const gap = getIntegerOption(options, 'gap');
+    const corners = getIntegerOption(options, 'corners');
+
+    if (background !== undefined) changes.background = parseBackground(background);
+    if (textColor !== undefined) changes.textColor = parseHexColor(textColor, 'text_colour');
+    if (font !== undefined) changes.font = font as ChartFont;
+    // Discord enforces the ranges, but /dev can pass anything.
+    if (gap !== undefined) changes.gap = Math.min(Math.max(gap, 0), MAX_TILE_GAP);
+    if (corners !== undefined) changes.cornerRadius = Math.min(Math.max(corners, 0), MAX_CORNER_RADIUS);
+    return changes;
+}
+
+export async function handleChartTheme(interaction: APIChatInputApplicationCommandInteraction) {
+    const subcommand = getSubcommand(interaction.data.options);
+    const userId = (interaction.member?.user ?? interaction.user!).id;
+    const guildId = interaction.guild_id;
+
+    if (subcommand?.name === 'show') {
+        const theme = await getChartTheme(userId, guildId);
+        return reply(`**Your chart theme**\n${describeChartTheme(theme)}`);
+    }
+
+    const forServer = subcommand?.name === 'server' || (subcommand?.name === 'reset' && !!getBooleanOption(subcommand.options, 'server'));
+    if (forServer && !guildId) {
+        return reply('Server themes can only be changed inside a server.');
+    }
+    if (forServer && !isModerator(interaction)) {
+        return reply('🚫 Only moderators can change the server\'s chart theme.');
+    }
+
+    if (subcommand?.name === 'reset') {
+        if (forServer) {
+            await updateGuildSettings(guildId!, { chartTheme: {} });
+            return reply('Server charts are back to the default theme.');
+        }
+        await clearUserChartTheme(userId);
+        return reply('Your charts are back to the server\'s theme, or the default outside a server.');
+    }
+
+    let changes: Partial<ChartTheme>;
+    try {
+        changes = readThemeOptions(subcommand?.options);
+    } catch (error) {
+        if (!(error instanceof ChartThemeError)) throw error;
+        return reply(error.message);
+    }
+    if (Object.keys(changes).length === 0) {
+        return reply('Pick at least one setting to change.');
+    }
+
+    if (forServer) {
+        const settings = await getGuildSettings(guildId!);
+        await updateGuildSettings(guildId!, { chartTheme: { ...settings.chartTheme, ...changes } });
+        return reply(`**Server chart theme updated**\n${describeChartTheme(await getChartTheme(undefined, guildId))}`);
+    }
+
+    await updateUserChartTheme(userId, changes);
+    return reply(`**Chart theme updated**\n${describeChartTheme(await getChartTheme(userId, guildId))}`);
+}
+
+// --- Command definition ---
+
+const themeOptions: APIApplicationCommandBasicOption[] = [
+    {
+        name: 'background',
+        description: 'A colour like #1e1e2e, or "cover" or "gradient" to take it from the top tile.',
+        type: ApplicationCommandOptionType.String,
+        required: false,
+    },
+    {
+        name: 'text_colour',
+        description: 'The colour of names, like #ffffff.',
+        type: ApplicationCommandOptionType.String,
+        required: false,
+    },
+    {
+        name: 'font',
+        description: 'The font for names.',
+        type: ApplicationCommandOptionType.String,
+        required: false,
+        choices: Object.entries(labelFonts).map(([value, face]) => ({ name: face.family, value })),
+    },
+    {
+        name: 'gap',
+        description: `Pixels between tiles, 0 to ${MAX_TILE_GAP}.`,
+        type: ApplicationCommandOptionType.Integer,
+        required: false,
+        min_value: 0,
+        max_value: MAX_TILE_GAP,
+    },
+    {
+        name: 'corners',
+        description: `How rounded tiles are, as a percentage of their size (${MAX_CORNER_RADIUS} makes circles).`,
+        type: ApplicationCommandOptionType.Integer,
+        required: false,
+        min_value: 0,
+        max_value: MAX_CORNER_RADIUS,
+    },
+];
+
+export const chartThemeCommand = defineCommand({
+    name: 'charttheme',
+    description: 'Choose how your charts look.',
+    options: [
+        {
+            name: 'set',
+            description: 'Change your own chart theme.',
+            type: ApplicationCommandOptionType.Subcommand,
+            options: themeOptions,
+        },
+        {
+            name: 'server',
+            description: "Change the theme of /serverchart and of members without their own (moderators only).",
+            type: ApplicationCommandOptionType.Subcommand,
+            options: themeOptions,
+        },
+        {
+            name: 'show',
+            description: 'Show the theme your charts are drawn in.',
+            type: ApplicationCommandOptionType.Subcommand,
+        },
+        {
+            name: 'reset',
+            description: 'Go back to the default theme.',
+            type: ApplicationCommandOptionType.Subcommand,
+            options: [
+                {
+                    name: 'server',
+                    description: "Reset the server's theme instead of your own (moderators only).",
+                    type: ApplicationCommandOptionType.Boolean,
+                    required: false,
+                },
+            ],
+        },
+    ],
+    execute: handleChartTheme,
+});
@@ -1,29 +1,58 @@
 import { NextResponse } from 'next/server';
 import {
     InteractionResponseType,
+    APIActionRowComponent,
+    APIApplicationCommandAutocompleteInteraction,
+    APIButtonComponent,
     APIChatInputApplicationCommandInteraction,
+    APIMessageComponentButtonInteraction,
     APIApplicationCommandInteractionDataStringOption,
+    APIApplicationCommandOption,
+    APIApplicationCommandStringOption,
+    ApplicationCommandOptionType,
+    ButtonStyle,
+    ComponentType,
 } from 'discord-api-types/v10';
-import { kv } from '@vercel/kv';
-import sharp from 'sharp';
-import path from 'path';
-import { createCanvas, registerFont } from 'canvas';
-
-// --- FONT REGISTRATION ---
-// We now register two fonts: Courier New for primary text, and a CJK font for fallbacks.
-try {
-    const primaryFontPath = path.join(process.cwd(), 'public', 'fonts', 'cour.ttf');
-    registerFont(primaryFontPath, { family: 'Courier New' });
-    console.log("Primary font 'cour.ttf' (Courier New) registered successfully.");
-
-    // --- NEW: Register the CJK fallback font ---
-    const fallbackFontPath = path.join(process.cwd(), 'public', 'fonts', 'NotoSansJP-Bold.ttf');
-    registerFont(fallbackFontPath, { family: 'Noto Sans JP' });
-    console.log("Fallback font 'NotoSansJP-Bold.ttf' registered successfully.");
-
-} catch (error) {
-    console.error("CRITICAL: Could not register fonts. Make sure 'cour.ttf' and 'NotoSansJP-Bold.ttf' exist in public/fonts/.", error);
-}
+import { defineCommand, getFocusedOption, getIntegerOption, getStringOption } from '@/utils/commands';
+import { autocompleteResponse } from '@/utils/autocomplete';
+import {
+    describeLastFmError,
+    getLastFmImageUrl,
+    getTopAlbums,
+    getTopArtists,
+    getTopTracks,
+    getTrackInfo,
+    LastFmImage,
+    LastFmPage,
+    LastFmPeriod,
+    LastFmTopArtist,
+    LastFmTopTrack,
+} from '@/utils/lastfm';
+import { getArtistImageUrl } from '@/utils/artist-images';
+import { DateRange, DateRangeError, DateRangeInput, parseDateRange } from '@/utils/date-ranges';
+import { getRangeChart, RangeChartEntry } from '@/utils/range-charts';
+import { applyMovement, getPeriodBaseline, getRangeBaseline, recordPeriodPositions } from '@/utils/chart-movement';
+import { getCachedCoverArt, isLastFmPlaceholder, resolveCoverArt } from '@/utils/cover-art';
+import {
+    arrangementTileCount,
+    ChartArrangement,
+    ChartOverlays,
+    ChartTile,
+    ChartTooLargeError,
+    checkArrangement,
+    formatGridSize,
+    getChartTheme,
+    GridSize,
+    GridSizeError,
+    LabelStyle,
+    parseGridSize,
+    renderChart,
+    suggestGridSizes,
+    tileLabel,
+} from '@/utils/chart-image';
+import { ComponentContext, createCustomId, defineComponent } from '@/utils/components';
+import { deferWork, editReply, InteractionRef } from '@/utils/discord';
+import { getGuildMembers, getGuildSettings, getLastFmUsername } from '@/utils/storage';
 
 // Define a type for the album data
 type Album = {
@@ -31,62 +60,159 @@ type Album = {
     artist: {
         name: string;
     };
-    image: { '#text': string, size: string }[];
-    playcount: number; // playcount from API is a string
+    image: LastFmImage[];
 };
 
 
 // Define a new type for our aggregated data
-type AggregatedAlbum = {
-    name: string;
-    artist: {
-        name: string;
-    };
-    image: { '#text': string, size: string }[];
+type AggregatedAlbum = Album & {
     playcount: number; // We will store playcount as a number
 };
 
+/** What a chart ranks. Every type renders through the same layouts. */
+type ChartType = 'albums' | 'artists' | 'tracks';
+
+/** The parts of a track needed to draw it. */
+type ChartTrack = Pick<LastFmTopTrack, 'name'> & { artist: { name: string } };
+
+const chartTypeNames: Record<ChartType, string> = {
+    albums: 'Albums',
+    artists: 'Artists',
+    tracks: 'Tracks',
+};
+
+/** The values of the `overlay` option, and what each one draws. */
+type ChartOverlayChoice = 'none' | 'playcounts' | 'ranks' | 'movement' | 'all';
+
+const overlayChoices: Record<ChartOverlayChoice, ChartOverlays> = {
+    none: {},
+    playcounts: { playcount: true },
+    ranks: { rank: true },
+    movement: { rank: true, movement: true },
+    all: { rank: true, movement: true, playcount: true },
+};
+
+const PARTIAL_HISTORY_NOTE = '\n-# There were too many scrobbles in this range to count them all, so this covers the most recent ones.';
+
+const periodDisplayNames: Record<LastFmPeriod, string> = {
+    '7day': 'Last 7 Days', '1month': 'Last Month', '3month': 'Last 3 Months',
+    '6month': 'Last 6 Months', '12month': 'Last Year', 'overall': 'All Time',
+};
+
+/**
+ * The `from`/`to`/`year`/`month` options, or null when the chart should use a
+ * `period` instead.
+ */
+function getChartDates(interaction: APIChatInputApplicationCommandInteraction): DateRangeInput | null {
+    const options = interaction.data.options;
+    const dates: DateRangeInput = {
+        from: getStringOption(options, 'from'),
+        to: getStringOption(options, 'to'),
+        year: getIntegerOption(options, 'year'),
+        month: getStringOption(options, 'month'),
+    };
+    return Object.values(dates).some(value => value !== undefined) ? dates : null;
+}
+
+/** What both chart commands need to know before they defer. */
+type ChartRequest = {
+    grid: GridSize;
+    /** The date options the range was read from, kept so later pages can read them again. */
+    dates: DateRangeInput | null;
+    range: DateRange | null;
+    arrangement: ChartArrangement;
+};
+
+/**
+ * Reads the size, layout and date options up front, so a typo gets an immediate
+ * reply instead of a deferred one.
+ */
+function withChartRequest(
+    interaction: APIChatInputApplicationCommandInteraction,
+    run: (request: ChartRequest) => NextResponse,
+): NextResponse {
+    let request: ChartRequest;
+    try {
+        const dates = getChartDates(interaction);
+        request = {
+            grid: parseGridSize(getStringOption(interaction.data.options, 'size') ?? '3x3'),
+            dates,
+            range: dates && parseDateRange(dates),
+            arrangement: (getStringOption(interaction.data.options, 'layout') || 'grid') as ChartArrangement,
+        };
+        checkArrangement(request.grid, request.arrangement);
+    } catch (error) {
+        if (!(error instanceof DateRangeError) && !(error instanceof GridSizeError)) throw error;
+        return NextResponse.json({
+            type: InteractionResponseType.ChannelMessageWithSource,
+            data: { content: error.message, flags: 1 << 6 },
+        });
+    }
+    if (request.range && getStringOption(interaction.data.options, 'period')) {
+        return NextResponse.json({
+            type: InteractionResponseType.ChannelMessageWithSource,
+            data: { content: 'Use either a `period` or dates, not both.', flags: 1 << 6 },
+        });
+    }
+    return run(request);
+}
+
+/**
+ * What to tell the user when rendering fails.
+ */
+function describeChartError(error: unknown, fallback: string): string {
+    if (error instanceof ChartTooLargeError) {
+        return 'That chart came out too big to upload. Try a smaller `size`.';
+    }
+    return describeLastFmError(error, fallback);
+}
+
+/**
+ * Suggests grid sizes for `size`, which takes any `WxH` up to the configured maximum.
+ */
+function autocompleteChart(interaction: APIApplicationCommandAutocompleteInteraction) {
+    const focused = getFocusedOption(interaction.data.options);
+    if (focused?.name !== 'size') {
+        return autocompleteResponse([]);
+    }
+    return autocompleteResponse(suggestGridSizes(focused.value).slice(0, 25).map(size => ({ name: size, value: size })));
+}
+
 // #region server chart
 
-export async function handleServerChart(interaction: APIChatInputApplicationCommandInteraction) {
-    await fetch(`https://discord.com/api/v10/interactions/${interaction.id}/${interaction.token}/callback`, {
-        method: 'POST',
-        body: JSON.stringify({ type: InteractionResponseType.DeferredChannelMessageWithSource }),
-        headers: { 'Content-Type': 'application/json' },
-    });
+/**
+ * A member's top albums for the period or range, with play counts as numbers.
+ * At least 100 are fetched, so the server's combined chart has plenty to pick from.
+ */
+async function getMemberAlbums(user: string, period: LastFmPeriod, range: DateRange | null, limit: number): Promise<AggregatedAlbum[]> {
+    if (range) {
+        const { entries } = await getRangeChart(user, 'albums', range, limit);
+        return entries.map(entry => ({ name: entry.name, artist: { name: entry.artist }, image: entry.image, playcount: entry.playcount }));
+    }
+    const { items } = await getTopAlbums(user, { period, limit });
+    return items.map(album => ({ name: album.name, artist: { name: album.artist.name }, image: album.image, playcount: parseInt(album.playcount, 10) }));
+}
 
+async function generateServerChart(interaction: APIChatInputApplicationCommandInteraction, guildId: string, { grid, range, arrangement }: ChartRequest) {
     const options = (interaction.data.options || []) as APIApplicationCommandInteractionDataStringOption[];
-    const sizeOption = options.find(opt => opt.name === 'size')?.value || '3x3';
-    const [gridWidth, gridHeight] = sizeOption.split('x').map(Number);
-    const limit = gridWidth * gridHeight;
-    const displayStyle = options.find(opt => opt.name === 'labelling')?.value || 'no_names';
-    const period = options.find(opt => opt.name === 'period')?.value || '7day';
-    const apiKey = process.env.LASTFM_API_KEY;
+    const limit = arrangementTileCount(grid, arrangement);
+    const displayStyle = (options.find(opt => opt.name === 'labelling')?.value || 'no_names') as LabelStyle;
+    const overlays = overlayChoices[(options.find(opt => opt.name === 'overlay')?.value || 'none') as ChartOverlayChoice];
+    const settings = await getGuildSettings(guildId);
+    const period = (options.find(opt => opt.name === 'period')?.value || settings.serverChartPeriod) as LastFmPeriod;
 
     try {
-        // 1. Get all registered Last.fm usernames from Vercel KV
-        const userKeys: string[] = [];
-        for await (const key of kv.scanIterator()) {
-            // Assuming keys are Discord User IDs
-            userKeys.push(key);
-        }
+        // 1. Get the Last.fm usernames of this server's registered members
+        const members = await getGuildMembers(guildId);
 
-        if (userKeys.length === 0) {
-            const content = 'No users have registered their Last.fm accounts with `/register` yet.';
-            await fetch(`https://discord.com/api/v10/webhooks/${interaction.application_id}/${interaction.token}/messages/@original`, {
-                method: 'PATCH', body: JSON.stringify({ content }), headers: { 'Content-Type': 'application/json' },
-            });
-            return new NextResponse(null, { status: 204 });
+        if (members.length === 0) {
+            const content = 'No one in this server has registered their Last.fm account with `/register` yet.';
+            await editReply(interaction, { content });
+            return;
         }
 
-        const lastfmUsernames = (await kv.mget(...userKeys)) as string[];
-
-        // 2. Fetch top albums for all users concurrently
-        const fetchPromises = lastfmUsernames.map(username => {
-            if (!username) return null;
-            const apiUrl = `https://ws.audioscrobbler.com/2.0/?method=user.gettopalbums&user=${username}&period=${period}&api_key=${apiKey}&format=json&limit=100`; // Fetch more albums per user
-            return fetch(apiUrl).then(res => res.json());
-        }).filter(Boolean);
+        // 2. Fetch top albums for all members concurrently
+        const fetchPromises = members.map(member => getMemberAlbums(member.lastfmUsername, period, range, Math.max(limit, 100)));
 
         const results = await Promise.allSettled(fetchPromises);
 
@@ -94,30 +220,25 @@ export async function handleServerChart(interaction: APIChatInputApplicationComm
         const albumScrobbles = new Map<string, AggregatedAlbum>();
 
         for (const result of results) {
-            if (result.status === 'fulfilled' && result.value.topalbums) {
-                const albums: Album[] = result.value.topalbums.album;
-                for (const album of albums) {
+            if (result.status === 'fulfilled') {
+                for (const album of result.value) {
                     const key = `${album.artist.name.toLowerCase()} - ${album.name.toLowerCase()}`;
-                    const playCount = parseInt(album.playcount.toString(), 10);
 
                     if (albumScrobbles.has(key)) {
-                        albumScrobbles.get(key)!.playcount += playCount;
+                        albumScrobbles.get(key)!.playcount += album.playcount;
                     } else {
-                        albumScrobbles.set(key, {
-                            ...album,
-                            playcount: playCount,
-                        });
+                        albumScrobbles.set(key, { ...album });
                     }
                 }
+            } else {
+                console.error("Failed to fetch top albums for a server member:", result.reason);
             }
         }
 
         if (albumScrobbles.size === 0) {
             const content = 'Could not fetch any album data for registered users in this period.';
-             await fetch(`https://discord.com/api/v10/webhooks/${interaction.application_id}/${interaction.token}/messages/@original`, {
-                method: 'PATCH', body: JSON.stringify({ content }), headers: { 'Content-Type': 'application/json' },
-            });
-            return new NextResponse(null, { status: 204 });
+             await editReply(interaction, { content });
+            return;
         }
 
         // 4. Sort by scrobbles and get the top albums
@@ -126,256 +247,560 @@ export async function handleServerChart(interaction: APIChatInputApplicationComm
             .slice(0, limit);
 
         if (sortedAlbums.length < limit) {
-             const content = `Not enough unique albums listened to by the server to generate a ${sizeOption} chart. Found ${sortedAlbums.length} albums.`;
-             await fetch(`https://discord.com/api/v10/webhooks/${interaction.application_id}/${interaction.token}/messages/@original`, {
-                method: 'PATCH', body: JSON.stringify({ content }), headers: { 'Content-Type': 'application/json' },
-            });
-            return new NextResponse(null, { status: 204 });
+             const content = `Not enough unique albums listened to by the server to generate a ${formatGridSize(grid)} chart. Found ${sortedAlbums.length} albums.`;
+             await editReply(interaction, { content });
+            return;
+        }
+
+        // 5. Rank the tiles, and for a period, compare with (and save for) the previous one
+        const tiles = sortedAlbums.map((album, index) => ({ ...albumTile(album), rank: index + 1 }));
+        const subject = `guild:${guildId}:albums`;
+        if (!range) {
+            if (overlays.movement) applyMovement(tiles, await getPeriodBaseline(subject, period));
+            await recordPeriodPositions(subject, period, tiles);
         }
 
-        // 5. Generate the chart image (reusing your existing function)
-        const chartImageBuffer = await createChartImage(sortedAlbums, gridWidth, gridHeight, displayStyle);
+        // 6. Generate the chart image, in the server's theme
+        const theme = await getChartTheme(undefined, guildId);
+        const { image, format } = await renderChart(tiles, { ...grid, labels: displayStyle, overlays, arrangement, theme });
 
-        const formData = new FormData();
-        formData.append('file', new Blob([chartImageBuffer]), 'server-chart.png');
-        
-        const periodDisplayNames: { [key: string]: string } = {
-            '7day': 'Last 7 Days', '1month': 'Last Month', '3month': 'Last 3 Months',
-            '6month': 'Last 6 Months', '12month': 'Last Year', 'overall': 'All Time'
-        };
-        
-        const content = `-# *OrpheusCore Top Albums (${periodDisplayNames[period]})*`;
-        formData.append('payload_json', JSON.stringify({ content }));
+        const content = `-# *OrpheusCore Top Albums (${range?.label ?? periodDisplayNames[period]})*`;
 
-        await fetch(`https://discord.com/api/v10/webhooks/${interaction.application_id}/${interaction.token}/messages/@original`, {
-            method: 'PATCH',
-            body: formData,
+        await editReply(interaction, {
+            content,
+            files: [{ name: `server-chart.${format}`, data: image }],
         });
 
     } catch (error) {
         console.error("Server Chart command error:", error);
-        await fetch(`https://discord.com/api/v10/webhooks/${interaction.application_id}/${interaction.token}/messages/@original`, {
-            method: 'PATCH',
-            body: JSON.stringify({ content: 'An error occurred while generating the server chart.' }),
-            headers: { 'Content-Type': 'application/json' },
+        await editReply(interaction, { content: describeChartError(error, 'An error occurred while generating the server chart.') });
+    }
+}
+
+export function handleServerChart(interaction: APIChatInputApplicationCommandInteraction) {
+    const guildId = interaction.guild_id;
+    if (!guildId) {
+        return NextResponse.json({
+            type: InteractionResponseType.ChannelMessageWithSource,
+            data: { content: 'Server charts only work inside a server.', flags: 1 << 6 },
         });
     }
 
-    return new NextResponse(null, { status: 204 });
+    return withChartRequest(interaction, request => deferWork(interaction, () => generateServerChart(interaction, guildId, request), {
+        errorMessage: 'An error occurred while generating the server chart.',
+    }));
 }
 
 // #endregion
 
 
 /**
- * --- MODIFIED FUNCTION ---
- * The font property now includes a comma-separated fallback font family.
+ * Picks the cover to draw for a tile. A cover another command already resolved
+ * wins; otherwise Last.fm's image is used as-is, and only missing or placeholder
+ * art goes through the full resolver.
  */
-async function generateTextBuffer(
-    texts: string[],
-    width: number,
-    height: number,
-    anchor: 'start' | 'center' | 'end' = 'start',
-    fontSize: number,
-    lineHeight: number
-): Promise<Buffer> {
-    const canvas = createCanvas(width, height);
-    const ctx = canvas.getContext('2d');
-
-    // --- CHANGE: Added "Noto Sans JP" as the second font in the list. ---
-    // The renderer will try Courier New first, and if a character is missing, it will use Noto Sans JP.
-    ctx.font = `bold ${fontSize}px "Courier New", "Noto Sans JP"`;
-    ctx.fillStyle = 'white';
-    ctx.textAlign = anchor;
-    ctx.textBaseline = 'top';
-    
-    let startY = 15;
-    const x = anchor === 'center' ? width / 2 : 10;
-    
-    texts.forEach(text => {
-        ctx.fillText(text, x, startY);
-        startY += lineHeight;
-    });
-
-    return canvas.toBuffer('image/png');
-}
+async function getChartCoverUrl(album: Album): Promise<string | null> {
+    const cached = await getCachedCoverArt(album.artist.name, album.name);
+    if (cached) return cached.url;
 
-async function fetchImageBuffer(url: string): Promise<Buffer> {
-    const response = await fetch(url);
-    if (!response.ok) {
-        throw new Error(`Failed to fetch image: ${response.statusText} for URL: ${url}`);
-    }
-    const arrayBuffer = await response.arrayBuffer();
-    return Buffer.from(arrayBuffer);
+    const lastfmUrl = getLastFmImageUrl(album.image);
+    if (lastfmUrl && !isLastFmPlaceholder(lastfmUrl)) return lastfmUrl;
+
+    const resolved = await resolveCoverArt({ artist: album.artist.name, album: album.name, lastfmUrl });
+    return resolved?.url ?? null;
 }
 
 /**
- * This function remains unchanged from the previous version.
+ * Top tracks only come with Last.fm's placeholder, so a track is drawn with the
+ * cover of the album track.getInfo puts it on, or failing that, its artist.
  */
-async function createChartImage(albums: Album[], gridWidth: number, gridHeight: number, displayStyle: string): Promise<Buffer> {
-    const imageSize = gridWidth > 8 || gridHeight > 8 ? 150 : 300;
-    const underTextHeight = displayStyle === 'under' ? 40 : 0;
-    const topsterTextWidth = displayStyle === 'topster' ? 450 : 0;
-
-    let fontSize, lineHeight, charLimit;
-    if (imageSize === 150) {
-        fontSize = 11;
-        lineHeight = 15;
-        charLimit = 60;
-        console.log(`Dense chart detected (${gridWidth}x${gridHeight}). Using smaller font size.`);
-    } else {
-        fontSize = 14;
-        lineHeight = 22;
-        charLimit = 48;
+async function getTrackArtworkUrl(track: ChartTrack): Promise<string | null> {
+    try {
+        const info = await getTrackInfo(track.artist.name, track.name);
+        if (info.album) {
+            return getChartCoverUrl({ name: info.album.title, artist: { name: info.album.artist }, image: info.album.image });
+        }
+    } catch (error) {
+        console.error(`Failed to look up the album of ${track.artist.name} - ${track.name}:`, error);
     }
+    return getArtistImageUrl(track.artist.name);
+}
 
-    const canvasWidth = imageSize * gridWidth + topsterTextWidth;
-    const canvasHeight = (imageSize + underTextHeight) * gridHeight;
+function albumTile(album: Album & { playcount?: string | number }): ChartTile {
+    return {
+        title: album.name,
+        subtitle: album.artist.name,
+        playcount: album.playcount === undefined ? undefined : Number(album.playcount),
+        getImageUrl: () => getChartCoverUrl(album),
+    };
+}
 
-    const canvas = sharp({
-        create: {
-            width: canvasWidth,
-            height: canvasHeight,
-            channels: 4,
-            background: { r: 20, g: 20, b: 20, alpha: 1 }
-        }
-    });
-
-    const compositeOperations = [];
-
-    // Part 1: Composite album covers and 'under' style text
-    for (let index = 0; index < albums.length; index++) {
-        const album = albums[index];
-        const row = Math.floor(index / gridWidth);
-        const col = index % gridWidth;
-        const left = col * imageSize;
-        const top = row * (imageSize + underTextHeight);
-
-        try {
-            const imageUrl = album.image.find((img) => img.size === 'extralarge')?.['#text'] ||
-                             album.image.find((img) => img.size === 'large')?.['#text'] ||
-                             'https://via.placeholder.com/300/141414/FFFFFF?text=No+Art';
-            const finalImageUrl = imageUrl.includes('/2a96cbd8b46e442fc41c2b86b821562f.png') ? 'https://via.placeholder.com/300/141414/FFFFFF?text=No+Art' : imageUrl;
-
-            const imageBuffer = await fetchImageBuffer(finalImageUrl);
-            const resizedImage = await sharp(imageBuffer).resize(imageSize, imageSize).toBuffer();
-            compositeOperations.push({ input: resizedImage, left, top });
-        } catch (error) {
-            console.error(`Failed to process image for ${album.name}:`, error);
-            const placeholder = await sharp({ create: { width: imageSize, height: imageSize, channels: 4, background: { r: 50, g: 50, b: 50, alpha: 1 } } }).png().toBuffer();
-            compositeOperations.push({ input: placeholder, left, top });
-        }
+function artistTile(artist: Pick<LastFmTopArtist, 'name'> & { playcount?: string | number }): ChartTile {
+    return {
+        title: artist.name,
+        playcount: artist.playcount === undefined ? undefined : Number(artist.playcount),
+        getImageUrl: () => getArtistImageUrl(artist.name),
+    };
+}
 
-        if (displayStyle === 'under') {
-            const albumName = `${album.artist.name} - ${album.name}`;
-            const truncatedText = albumName.length > 40 ? albumName.substring(0, 37) + '...' : albumName;
-            const textBuffer = await generateTextBuffer([truncatedText], imageSize, underTextHeight, 'center', fontSize, lineHeight);
-            compositeOperations.push({ input: textBuffer, left, top: top + imageSize });
-        }
-    }
+function trackTile(track: ChartTrack & { playcount?: string | number }): ChartTile {
+    return {
+        title: track.name,
+        subtitle: track.artist.name,
+        playcount: track.playcount === undefined ? undefined : Number(track.playcount),
+        getImageUrl: () => getTrackArtworkUrl(track),
+    };
+}
 
-    // Part 2: Handle 'topster' style text
-    if (displayStyle === 'topster') {
-        const background = await sharp({ create: { width: topsterTextWidth, height: canvasHeight, channels: 3, background: 'black' } }).png().toBuffer();
-        compositeOperations.push({ input: background, left: imageSize * gridWidth, top: 0 });
-
-        for (let row = 0; row < gridHeight; row++) {
-            const rowAlbums = albums.slice(row * gridWidth, (row + 1) * gridWidth);
-            
-            const albumNames = rowAlbums.map(album => {
-                const fullName = `${album.artist.name} - ${album.name}`;
-                return fullName.length > charLimit ? fullName.substring(0, charLimit - 3) + '...' : fullName;
-            });
+function rangeTile(type: ChartType, entry: RangeChartEntry): ChartTile {
+    switch (type) {
+        case 'albums':
+            return albumTile({ name: entry.name, artist: { name: entry.artist }, image: entry.image, playcount: entry.playcount });
+        case 'artists':
+            return artistTile({ name: entry.artist, playcount: entry.playcount });
+        case 'tracks':
+            return trackTile({ name: entry.name, artist: { name: entry.artist }, playcount: entry.playcount });
+    }
+}
 
-            const textBuffer = await generateTextBuffer(albumNames, topsterTextWidth, imageSize, 'start', fontSize, lineHeight);
-            const top = row * (imageSize + underTextHeight);
-            compositeOperations.push({ input: textBuffer, left: imageSize * gridWidth, top });
-        }
+/**
+ * The tiles for one page of a user's chart, where page 0 is the top `limit`.
+ * `partial` is set when a date range had more scrobbles than could be read (see
+ * getRangeChart), and `hasNext` when there's a whole page after this one.
+ */
+async function getChartTiles(
+    type: ChartType,
+    user: string,
+    options: { period: LastFmPeriod; range: DateRange | null; limit: number; page: number },
+): Promise<{ tiles: ChartTile[]; partial: boolean; hasNext: boolean }> {
+    const { period, range, limit, page } = options;
+    if (range) {
+        // Range charts are ranked in one go, so ask for enough to see past this page.
+        const { entries, partial } = await getRangeChart(user, type, range, limit * (page + 2));
+        return {
+            tiles: entries.slice(limit * page, limit * (page + 1)).map(entry => rangeTile(type, entry)),
+            partial,
+            hasNext: entries.length >= limit * (page + 2),
+        };
     }
 
-    return canvas.composite(compositeOperations).png().toBuffer();
+    // Last.fm pages are 1-based, and sized to the grid so each one is a chart page.
+    const pageOptions = { period, limit, page: page + 1 };
+    const toTiles = async <T>(request: Promise<LastFmPage<T>>, toTile: (item: T) => ChartTile) => {
+        const { items, total } = await request;
+        return { tiles: items.map(item => toTile(item)), partial: false, hasNext: total >= limit * (page + 2) };
+    };
+
+    switch (type) {
+        case 'albums':
+            return toTiles(getTopAlbums(user, pageOptions), albumTile);
+        case 'artists':
+            return toTiles(getTopArtists(user, pageOptions), artistTile);
+        case 'tracks':
+            return toTiles(getTopTracks(user, pageOptions), trackTile);
+    }
 }
 
+// #region pages
+// A /chart reply has Previous/Next buttons and a button that lists the chart as
+// text. Everything needed to draw another page is in the buttons' custom_ids, so
+// nothing has to be stored and old charts keep working.
+
+/** What a /chart reply is showing. */
+type ChartPageState = {
+    type: ChartType;
+    grid: GridSize;
+    period: LastFmPeriod;
+    dates: DateRangeInput | null;
+    labels: LabelStyle;
+    overlay: ChartOverlayChoice;
+    arrangement: ChartArrangement;
+    user: string;
+    page: number;
+    showList: boolean;
+};
+
+// The list stops short of Discord's 2000 character limit, leaving room for the title.
+const MAX_LIST_LENGTH = 1700;
 
 /**
- * Handles the logic for the /chart command.
- * THIS FUNCTION REMAINS UNCHANGED.
+ * Packs the period or dates into one custom_id arg: `7day`, `y2025`, `m2026-03`,
+ * or `{from}_{to}` with either side possibly empty.
  */
-export async function handleChart(interaction: APIChatInputApplicationCommandInteraction) {
-    await fetch(`https://discord.com/api/v10/interactions/${interaction.id}/${interaction.token}/callback`, {
-        method: 'POST',
-        body: JSON.stringify({ type: InteractionResponseType.DeferredChannelMessageWithSource }),
-        headers: { 'Content-Type': 'application/json' },
-    });
+function encodeWhen(period: LastFmPeriod, dates: DateRangeInput | null): string {
+    if (!dates) return period;
+    if (dates.year !== undefined) return `y${dates.year}`;
+    if (dates.month !== undefined) return `m${dates.month}`;
+    return `${dates.from ?? ''}_${dates.to ?? ''}`;
+}
 
-    const options = (interaction.data.options || []) as APIApplicationCommandInteractionDataStringOption[];
-    let lastfmUsername = options.find(opt => opt.name === 'user')?.value || null;
+function decodeWhen(when: string): Pick<ChartPageState, 'period' | 'dates'> {
+    if (when in periodDisplayNames) return { period: when as LastFmPeriod, dates: null };
+    if (when.startsWith('y')) return { period: '7day', dates: { year: Number(when.slice(1)) } };
+    if (when.startsWith('m')) return { period: '7day', dates: { month: when.slice(1) } };
+    const [from, to] = when.split('_');
+    return { period: '7day', dates: { from: from || undefined, to: to || undefined } };
+}
 
-    const sizeOption = options.find(opt => opt.name === 'size')?.value || '3x3';
-    const [gridWidth, gridHeight] = sizeOption.split('x').map(Number);
-    const limit = gridWidth * gridHeight;
-    const displayStyle = options.find(opt => opt.name === 'labelling')?.value || 'no_names';
+// Custom IDs only have room for 100 characters, so the type, labelling, overlay
+// and layout go in as one digit each, their index in these lists.
+const styleValues = {
+    type: ['albums', 'artists', 'tracks'] as ChartType[],
+    labels: ['no_names', 'topster', 'under'] as LabelStyle[],
+    overlay: Object.keys(overlayChoices) as ChartOverlayChoice[],
+    arrangement: ['grid', 'hue', 'rainbow', 'featured'] as ChartArrangement[],
+};
 
+function chartPageArgs(state: ChartPageState, page: number, showList: boolean): (string | number)[] {
+    const style = [
+        styleValues.type.indexOf(state.type),
+        styleValues.labels.indexOf(state.labels),
+        styleValues.overlay.indexOf(state.overlay),
+        styleValues.arrangement.indexOf(state.arrangement),
+    ].join('');
+    return [style, formatGridSize(state.grid), encodeWhen(state.period, state.dates), state.user, page, showList ? 1 : 0];
+}
 
-    if (!lastfmUsername) {
-        const discordUserId = interaction.member!.user.id;
-        lastfmUsername = await kv.get(discordUserId) as string | null;
+function parseChartPageArgs(args: string[]): ChartPageState | null {
+    const [style = '', size, when, user, page, showList] = args;
+    const type = styleValues.type[Number(style[0])];
+    const labels = styleValues.labels[Number(style[1])];
+    const overlay = styleValues.overlay[Number(style[2])];
+    // Charts from before layouts existed have three digits.
+    const arrangement = styleValues.arrangement[Number(style[3] ?? 0)];
+    if (!type || !labels || !overlay || !arrangement || !user || !Number.isInteger(Number(page))) return null;
+    try {
+        return {
+            type,
+            grid: parseGridSize(size),
+            ...decodeWhen(when),
+            labels,
+            overlay,
+            arrangement,
+            user,
+            page: Number(page),
+            showList: showList === '1',
+        };
+    } catch {
+        return null;
+    }
+}
 
-        if (!lastfmUsername) {
-            const content = 'Please register your Last.fm username with `/register` or specify a user in the command.';
-            await fetch(`https://discord.com/api/v10/webhooks/${interaction.application_id}/${interaction.token}/messages/@original`, {
-                method: 'PATCH', body: JSON.stringify({ content }), headers: { 'Content-Type': 'application/json' },
-            });
-            return new NextResponse(null, { status: 204 });
+/**
+ * The buttons under a chart, or none if the state doesn't fit in a custom_id.
+ */
+function chartPageComponents(state: ChartPageState, hasNext: boolean, ownerId?: string): APIActionRowComponent<APIButtonComponent>[] {
+    const customId = (prefix: string, page: number, showList: boolean) => createCustomId(prefix, chartPageArgs(state, page, showList), { ownerId });
+    try {
+        return [{
+            type: ComponentType.ActionRow,
+            components: [
+                {
+                    type: ComponentType.Button,
+                    style: ButtonStyle.Secondary,
+                    label: 'Previous',
+                    custom_id: customId('chart:page', Math.max(state.page - 1, 0), state.showList),
+                    disabled: state.page === 0,
+                },
+                {
+                    type: ComponentType.Button,
+                    style: ButtonStyle.Secondary,
+                    label: 'Next',
+                    custom_id: customId('chart:page', state.page + 1, state.showList),
+                    disabled: !hasNext,
+                },
+                {
+                    type: ComponentType.Button,
+                    style: ButtonStyle.Primary,
+                    label: state.showList ? 'Hide list' : 'Show list',
+                    custom_id: customId('chart:list', state.page, !state.showList),
+                },
+            ],
+        }];
+    } catch (error) {
+        console.error('Chart buttons did not fit in a custom_id:', error);
+        return [];
+    }
+}
+
+/**
+ * The chart as a numbered list with play counts, cut short if it gets too long.
+ */
+function formatChartList(tiles: ChartTile[], firstRank: number): string {
+    const lines: string[] = [];
+    let length = 0;
+    for (const [index, tile] of tiles.entries()) {
+        const plays = tile.playcount === undefined ? '' : ` — ${tile.playcount} ${tile.playcount === 1 ? 'play' : 'plays'}`;
+        const line = `${firstRank + index}. ${tileLabel(tile)}${plays}`;
+        if (length + line.length > MAX_LIST_LENGTH) {
+            lines.push(`…and ${tiles.length - index} more`);
+            break;
         }
+        lines.push(line);
+        length += line.length + 1;
     }
+    return lines.join('\n');
+}
 
-    const period = options.find(opt => opt.name === 'period')?.value || '7day';
-    const apiKey = process.env.LASTFM_API_KEY;
-    const apiUrl = `https://ws.audioscrobbler.com/2.0/?method=user.gettopalbums&user=${lastfmUsername}&period=${period}&api_key=${apiKey}&format=json&limit=${limit}`;
+/**
+ * Fetches a page of the chart and edits it into the reply, along with its buttons.
+ * `redraw` is false when only the list was toggled, so the image is left as it is.
+ * The image is drawn in the theme of whoever ran the chart, in the server it's in.
+ */
+async function showChartPage(
+    interaction: InteractionRef,
+    state: ChartPageState,
+    options: { redraw: boolean; ownerId?: string; guildId?: string },
+) {
+    const { type, grid, period, dates, labels, overlay, arrangement, user, page, showList } = state;
+    const limit = arrangementTileCount(grid, arrangement);
+    const overlays = overlayChoices[overlay];
 
     try {
-        const response = await fetch(apiUrl);
-        const data = await response.json();
+        const range = dates && parseDateRange(dates);
+        const { tiles, partial, hasNext } = await getChartTiles(type, user, { period, range, limit, page });
+        tiles.forEach((tile, index) => {
+            tile.rank = limit * page + index + 1;
+        });
 
-        if (data.error || !data.topalbums || data.topalbums.album.length < limit) {
-            const content = `Could not fetch ${limit} albums for \`${lastfmUsername}\`. They may need to listen to more music to generate a chart for this period.`;
-            await fetch(`https://discord.com/api/v10/webhooks/${interaction.application_id}/${interaction.token}/messages/@original`, {
-                method: 'PATCH', body: JSON.stringify({ content }), headers: { 'Content-Type': 'application/json' },
-            });
-            return new NextResponse(null, { status: 204 });
+        if (tiles.length < limit) {
+            const content = page === 0
+                ? `Could not fetch ${limit} ${type} for \`${user}\`. They may need to listen to more music to generate a chart for this ${range ? 'range' : 'period'}.`
+                : `There are no more ${type} to chart for \`${user}\`.`;
+            await editReply(interaction, { content, components: [] });
+            return;
         }
 
-        const albums: Album[] = data.topalbums.album;
-        const chartImageBuffer = await createChartImage(albums, gridWidth, gridHeight, displayStyle);
-
-        const formData = new FormData();
+        const content = `-# *Top ${chartTypeNames[type]} (${range?.label ?? periodDisplayNames[period]}) - **${user}***`
+            + (page > 0 ? ` · Page ${page + 1}` : '')
+            + (partial ? PARTIAL_HISTORY_NOTE : '')
+            + (showList ? `\n${formatChartList(tiles, limit * page + 1)}` : '');
+        const components = chartPageComponents(state, hasNext, options.ownerId);
 
-        // not sure why the image buffer errors, but ignore
-        //estlin-disable-next-line
-        formData.append('file', new Blob([chartImageBuffer]), 'chart.png');
+        if (!options.redraw) {
+            await editReply(interaction, { content, components });
+            return;
+        }
 
-        const periodDisplayNames: { [key: string]: string } = {
-            '7day': 'Last 7 Days', '1month': 'Last Month', '3month': 'Last 3 Months',
-            '6month': 'Last 6 Months', '12month': 'Last Year', 'overall': 'All Time'
-        };
-        
-        const content = `-# *Top Albums (${periodDisplayNames[period]}) - **${lastfmUsername}***`;
-        formData.append('payload_json', JSON.stringify({ content: content }));
+        // Ranges can be charted again for the range before; periods need the positions saved as they go.
+        const subject = `user:${user.toLowerCase()}:${type}`;
+        if (overlays.movement) {
+            applyMovement(tiles, dates ? await getRangeBaseline(user, type, dates) : await getPeriodBaseline(subject, period));
+        }
+        if (!dates) {
+            await recordPeriodPositions(subject, period, tiles);
+        }
 
-        await fetch(`https://discord.com/api/v10/webhooks/${interaction.application_id}/${interaction.token}/messages/@original`, {
-            method: 'PATCH',
-            body: formData,
+        const theme = await getChartTheme(options.ownerId, options.guildId);
+        const { image, format } = await renderChart(tiles, { ...grid, labels, overlays, arrangement, theme });
+        await editReply(interaction, {
+            content,
+            components,
+            files: [{ name: `chart.${format}`, data: image }],
         });
 
     } catch (error) {
         console.error("Chart command error:", error);
-        await fetch(`https://discord.com/api/v10/webhooks/${interaction.application_id}/${interaction.token}/messages/@original`, {
-            method: 'PATCH',
-            body: JSON.stringify({ content: 'An error occurred while generating your chart.' }),
-            headers: { 'Content-Type': 'application/json' },
+        await editReply(interaction, { content: describeChartError(error, 'An error occurred while generating your chart.'), components: [] });
+    }
+}
+
+function handleChartButton(redraw: boolean) {
+    return (interaction: APIMessageComponentButtonInteraction, { args, ownerId }: ComponentContext) => {
+        const state = parseChartPageArgs(args);
+        if (!state) {
+            return NextResponse.json({
+                type: InteractionResponseType.ChannelMessageWithSource,
+                data: { content: "This chart can't be changed any more. Please run `/chart` again.", flags: 1 << 6 },
+            });
+        }
+        return deferWork(interaction, () => showChartPage(interaction, state, { redraw, ownerId, guildId: interaction.guild_id }), {
+            update: true,
+            errorMessage: 'An error occurred while generating your chart.',
         });
+    };
+}
+
+// #endregion
+
+/**
+ * Generates the first page of the /chart image and edits it into the deferred reply.
+ */
+async function generateChart(interaction: APIChatInputApplicationCommandInteraction, { grid, dates, arrangement }: ChartRequest) {
+    const options = interaction.data.options;
+    const user = interaction.member?.user ?? interaction.user!;
+    let lastfmUsername = getStringOption(options, 'user') || null;
+
+    if (!lastfmUsername) {
+        lastfmUsername = await getLastFmUsername(user.id, interaction.guild_id);
+
+        if (!lastfmUsername) {
+            const content = 'Please register your Last.fm username with `/register` or specify a user in the command.';
+            await editReply(interaction, { content });
+            return;
+        }
     }
 
-    return new NextResponse(null, { status: 204 });
-}
\ No newline at end of file
+    await showChartPage(interaction, {
+        type: (getStringOption(options, 'type') || 'albums') as ChartType,
+        grid,
+        period: (getStringOption(options, 'period') || '7day') as LastFmPeriod,
+        dates,
+        labels: (getStringOption(options, 'labelling') || 'no_names') as LabelStyle,
+        overlay: (getStringOption(options, 'overlay') || 'none') as ChartOverlayChoice,
+        arrangement,
+        user: lastfmUsername,
+        page: 0,
+        showList: false,
+    }, { redraw: true, ownerId: user.id, guildId: interaction.guild_id });
+}
+
+/**
+ * Handles the logic for the /chart command. Rendering runs after the deferred
+ * response is sent, since big grids can take a while.
+ */
+export function handleChart(interaction: APIChatInputApplicationCommandInteraction) {
+    return withChartRequest(interaction, request => deferWork(interaction, () => generateChart(interaction, request), {
+        errorMessage: 'An error occurred while generating your chart.',
+    }));
+}
+
+// #region command definitions
+// The size, period, labelling, overlay, layout and date options are shared by /chart and /serverchart.
+
+export const chartSizeOption: APIApplicationCommandStringOption = {
+    name: 'size',
+    description: 'Columns by rows, e.g. 5x5 or 10x4 (default: 3x3).',
+    type: ApplicationCommandOptionType.String,
+    required: false,
+    autocomplete: true,
+};
+
+export const chartPeriodOption: APIApplicationCommandStringOption = {
+    name: 'period',
+    description: 'The time period for the chart (default: 7day).',
+    type: ApplicationCommandOptionType.String,
+    required: false,
+    choices: [
+        { name: 'Last 7 Days', value: '7day' },
+        { name: '1 Month', value: '1month' },
+        { name: '3 Months', value: '3month' },
+        { name: '6 Months', value: '6month' },
+        { name: '1 Year', value: '12month' },
+        { name: 'Overall', value: 'overall' },
+    ],
+};
+
+export const chartLabellingOption: APIApplicationCommandStringOption = {
+    name: 'labelling',
+    description: 'How to display names (default: No Names).',
+    type: ApplicationCommandOptionType.String,
+    required: false,
+    choices: [
+        { name: 'No Names (Default)', value: 'no_names' },
+        { name: 'Topster Style', value: 'topster' },
+        { name: 'Names Under Albums', value: 'under' },
+    ],
+};
+
+export const chartOverlayOption: APIApplicationCommandStringOption = {
+    name: 'overlay',
+    description: 'What to draw on each tile (default: nothing).',
+    type: ApplicationCommandOptionType.String,
+    required: false,
+    choices: [
+        { name: 'Nothing (Default)', value: 'none' },
+        { name: 'Play Counts', value: 'playcounts' },
+        { name: 'Ranks', value: 'ranks' },
+        { name: 'Ranks and Movement', value: 'movement' },
+        { name: 'Everything', value: 'all' },
+    ],
+};
+
+export const chartLayoutOption: APIApplicationCommandStringOption = {
+    name: 'layout',
+    description: 'How to arrange the tiles (default: in chart order).',
+    type: ApplicationCommandOptionType.String,
+    required: false,
+    choices: [
+        { name: 'Grid (Default)', value: 'grid' },
+        { name: 'Sorted by Hue', value: 'hue' },
+        { name: 'Rainbow Gradient', value: 'rainbow' },
+        { name: 'Featured (Top Entry 2x2)', value: 'featured' },
+    ],
+};
+
+// Dates instead of a period, for recaps. Only one of year, month or from/to can be used.
+export const chartDateOptions: APIApplicationCommandOption[] = [
+    {
+        name: 'year',
+        description: 'Chart a whole year, e.g. 2025. Replaces the period.',
+        type: ApplicationCommandOptionType.Integer,
+        required: false,
+        min_value: 2002,
+    },
+    {
+        name: 'month',
+        description: 'Chart a single month, as YYYY-MM (e.g. 2026-03). Replaces the period.',
+        type: ApplicationCommandOptionType.String,
+        required: false,
+    },
+    {
+        name: 'from',
+        description: 'Start date of a custom range, as YYYY-MM-DD. Replaces the period.',
+        type: ApplicationCommandOptionType.String,
+        required: false,
+    },
+    {
+        name: 'to',
+        description: 'End date of a custom range, as YYYY-MM-DD (default: today).',
+        type: ApplicationCommandOptionType.String,
+        required: false,
+    },
+];
+
+export const chartCommand = defineCommand({
+    name: 'chart',
+    description: 'Generates a grid of your most listened to albums, artists or tracks.',
+    options: [
+        {
+            name: 'type',
+            description: 'What to chart (default: Albums).',
+            type: ApplicationCommandOptionType.String,
+            required: false,
+            choices: [
+                { name: 'Albums (Default)', value: 'albums' },
+                { name: 'Artists', value: 'artists' },
+                { name: 'Tracks', value: 'tracks' },
+            ],
+        },
+        chartSizeOption,
+        chartPeriodOption,
+        {
+            name: 'user',
+            description: 'The Last.fm username to generate the chart for.',
+            type: ApplicationCommandOptionType.String,
+            required: false,
+        },
+        chartLabellingOption,
+        chartOverlayOption,
+        chartLayoutOption,
+        ...chartDateOptions,
+    ],
+    execute: handleChart,
+    autocomplete: autocompleteChart,
+    components: [
+        defineComponent({ prefix: 'chart:page', kind: 'button', handle: handleChartButton(true) }),
+        defineComponent({ prefix: 'chart:list', kind: 'button', handle: handleChartButton(false) }),
+    ],
+});
+
+export const serverChartCommand = defineCommand({
+    name: 'serverchart',
+    description: 'Generates a grid of the most listened to albums for the entire server.',
+    options: [chartSizeOption, chartPeriodOption, chartLabellingOption, chartOverlayOption, chartLayoutOption, ...chartDateOptions],
+    execute: handleServerChart,
+    autocomplete: autocompleteChart,
+});
+
+// #endregion
@@ -7,6 +7,9 @@ import {
     ComponentType,
     ButtonStyle,
 } from 'discord-api-types/v10';
+import { defineCommand } from '@/utils/commands';
+import { ComponentContext, createCustomId, defineComponent } from '@/utils/components';
+import { deferWork, editReply, InteractionRef } from '@/utils/discord';
 
 // A simple promise-based delay function.
 const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
@@ -33,13 +36,13 @@ export function handleCountdown(interaction: APIChatInputApplicationCommandInter
                             type: ComponentType.Button,
                             style: ButtonStyle.Success,
                             label: 'Start',
-                            custom_id: 'start_countdown',
+                            custom_id: createCustomId('countdown', ['start']),
                         },
                         {
                             type: ComponentType.Button,
                             style: ButtonStyle.Danger,
                             label: 'Cancel',
-                            custom_id: 'cancel_countdown',
+                            custom_id: createCustomId('countdown', ['cancel']),
                         },
                     ],
                 },
@@ -49,14 +52,54 @@ export function handleCountdown(interaction: APIChatInputApplicationCommandInter
 }
 
 
+// The countdown takes about 6 seconds; anything much longer means Discord is stuck.
+const COUNTDOWN_BUDGET_MS = 20_000;
+
+/**
+ * Edits the message once a second until the countdown is done.
+ */
+async function runCountdown(interaction: InteractionRef) {
+    try {
+        for (let i = 5; i > 0; i--) {
+            await editReply(interaction, {
+                embeds: [{
+                    title: 'Countdown in Progress...',
+                    description: `**${i}**`,
+                    color: 0xfee75c, // Yellow
+                }],
+                components: [], // Remove buttons
+            });
+            await wait(1000); // Wait for 1 second
+        }
+
+        // Final "Go!" message
+        await editReply(interaction, {
+            embeds: [{
+                title: 'Countdown Complete!',
+                description: '**Go!**',
+                color: 0x57f287, // Green
+            }],
+        });
+
+    } catch (error) {
+        console.error('Countdown failed during webhook updates:', error);
+        // If anything goes wrong, inform the user.
+        await editReply(interaction, {
+            content: 'An error occurred during the countdown.',
+            embeds: [],
+            components: [],
+        });
+    }
+}
+
 /**
  * Handles the button interactions for the countdown command.
- * This function will now perform the ENTIRE countdown.
+ * The countdown itself runs after the click has been acknowledged.
  */
-export async function handleCountdownInteraction(interaction: APIMessageComponentButtonInteraction): Promise<NextResponse> {
-    const { custom_id } = interaction.data;
+export async function handleCountdownInteraction(interaction: APIMessageComponentButtonInteraction, { args }: ComponentContext): Promise<NextResponse> {
+    const [action] = args;
 
-    if (custom_id === 'cancel_countdown') {
+    if (action === 'cancel') {
         // This is a simple, immediate update. This logic is fine.
         return new NextResponse(JSON.stringify({
             type: InteractionResponseType.UpdateMessage,
@@ -73,74 +116,26 @@ export async function handleCountdownInteraction(interaction: APIMessageComponen
         });
     }
 
-    if (custom_id === 'start_countdown') {
-        const { token, application_id } = interaction;
-        const webhookUrl = `https://discord.com/api/v10/webhooks/${application_id}/${token}/messages/@original`;
-
-        // STEP 1: Acknowledge the interaction immediately.
-        // This is the most critical step. We send a deferred update response.
-        // Discord now knows we received the click and won't time out.
-        // We MUST do this within 3 seconds.
-        await fetch(`https://discord.com/api/v10/interactions/${interaction.id}/${interaction.token}/callback`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-                type: InteractionResponseType.DeferredMessageUpdate,
-            }),
+    if (action === 'start') {
+        // STEP 1: Acknowledge the interaction immediately with a deferred update,
+        // so Discord knows we received the click and won't time out.
+        // STEP 2: The countdown itself runs after that response has been sent.
+        return deferWork(interaction, () => runCountdown(interaction), {
+            update: true,
+            budgetMs: COUNTDOWN_BUDGET_MS,
+            errorMessage: 'An error occurred during the countdown.',
         });
-
-        // STEP 2: Now that we've acknowledged, we can perform the long-running task.
-        // The serverless function will stay alive to complete this block.
-        try {
-            for (let i = 5; i > 0; i--) {
-                await fetch(webhookUrl, {
-                    method: 'PATCH',
-                    headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify({
-                        embeds: [{
-                            title: 'Countdown in Progress...',
-                            description: `**${i}**`,
-                            color: 0xfee75c, // Yellow
-                        }],
-                        components: [], // Remove buttons
-                    }),
-                });
-                await wait(1000); // Wait for 1 second
-            }
-
-            // Final "Go!" message
-            await fetch(webhookUrl, {
-                method: 'PATCH',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                    embeds: [{
-                        title: 'Countdown Complete!',
-                        description: '**Go!**',
-                        color: 0x57f287, // Green
-                    }],
-                }),
-            });
-
-        } catch (error) {
-            console.error('Countdown failed during webhook updates:', error);
-            // If anything goes wrong, inform the user.
-            await fetch(webhookUrl, {
-                method: 'PATCH',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                    content: 'An error occurred during the countdown.',
-                    embeds: [],
-                    components: [],
-                }),
-            });
-        }
-        
-        // STEP 3: Return a final response to Vercel.
-        // We've already handled all communication with Discord via fetch.
-        // We just need to tell Vercel the function is done.
-        return new NextResponse(null, { status: 204 });
     }
 
-    // Fallback for any unknown custom_id
+    // Fallback for any unknown action
     return new NextResponse('Unknown button interaction', { status: 400 });
-}
\ No newline at end of file
+}
+
+export const countdownCommand = defineCommand({
+    name: 'countdown',
+    description: 'Starts a 5-second countdown.',
+    execute: handleCountdown,
+    components: [
+        defineComponent({ prefix: 'countdown', kind: 'button', handle: handleCountdownInteraction }),
+    ],
+});
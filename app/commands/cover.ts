@@ -3,249 +3,76 @@ import { NextResponse } from 'next/server';
 import {
     InteractionResponseType,
     APIChatInputApplicationCommandInteraction,
-    APIApplicationCommandInteractionDataStringOption,
-    APIApplicationCommandInteractionDataBooleanOption,
+    APIApplicationCommandInteractionDataOption,
+    APIMessageComponentSelectMenuInteraction,
+    ApplicationCommandOptionType,
 } from 'discord-api-types/v10';
-import { kv } from '@vercel/kv';
-import { Vibrant } from 'node-vibrant/node';
-
-/**
- * Converts a string to its base ASCII equivalent.
- * e.g., "Déjà Vu" -> "Deja Vu"
- * @param str The string to normalize.
- * @returns The normalized string.
- */
-function normalizeString(str: string): string {
-    return str.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
-}
-
-/**
- * Checks if an image URL is valid and responsive within a given timeout.
- * @param url The URL of the image to check.
- * @param timeout The timeout in milliseconds.
- * @returns True if the image is valid and responds in time, false otherwise.
- */
-async function isValidImageUrl(url: string | null | undefined, timeout = 2500): Promise<boolean> {
-    if (!url) {
-        return false;
-    }
-
-    // Check for Last.fm's known placeholder image
-    if (url === 'https://lastfm.freetls.fastly.net/i/u/300x300/2a96cbd8b46e442fc41c2b86b821562f.png') {
-        console.log('LastFM returned a placeholder image.');
-        return false;
-    }
-
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeout);
-
-    try {
-        // We use a 'HEAD' request because we only care if the image exists,
-        // not about its content. This is much faster than a 'GET'.
-        const response = await fetch(url, { method: 'HEAD', signal: controller.signal });
-        
-        // Clear the timeout if the request completes successfully
-        clearTimeout(timeoutId);
-
-        // response.ok is true for status codes 200-299
-        return response.ok;
-    } catch (error) {
-        clearTimeout(timeoutId);
-        if (error instanceof Error && error.name === 'AbortError') {
-            // This happens when our timeout is triggered
-            console.log(`Image URL timed out: ${url}`);
-        } else {
-            // This can happen for other network reasons (CORS, DNS errors, etc.)
-            console.error(`Error fetching image URL head: ${url}`, error);
-        }
-        return false;
-    }
-}
-
-async function findCoverOnItunes(artist: string, album: string): Promise<string | null> {
-    try {
-        const searchTerm = `${artist} ${album}`;
-        const itunesUrl = `https://itunes.apple.com/search?term=${encodeURIComponent(searchTerm)}&entity=album&limit=5`;
-        const response = await fetch(itunesUrl);
-        const data = await response.json();
-
-        if (data.resultCount > 0) {
-            const bestMatch = data.results.find((r: { collectionName: string; }) => normalizeString(r.collectionName).toLowerCase() === normalizeString(album).toLowerCase()) || data.results[0];
-            const highResUrl = bestMatch.artworkUrl100.replace('100x100', '1000x1000');
-            console.log(`Found potential cover on iTunes: ${highResUrl}`);
-            return highResUrl;
-        }
-    } catch (error) {
-        console.error("Error fetching from iTunes:", error);
-    }
-    return null;
-}
-
-async function findCoverOnMusicBrainz(artist: string, album: string): Promise<string | null> {  
-    const userAgent = process.env.MUSICBRAINZ_USER_AGENT;
-    if (!userAgent) {
-        console.log("MusicBrainz User-Agent not set, skipping this fallback.");
-        return null;
-    }
-
-    try {
-        const musicBrainzUrl = `https://musicbrainz.org/ws/2/release/?query=release:${encodeURIComponent(album)}%20AND%20artist:${encodeURIComponent(artist)}&fmt=json`;
-        
-        const mbResponse = await fetch(musicBrainzUrl, {
-            headers: { 'User-Agent': userAgent }
-        });
-
-        if (!mbResponse.ok) {
-            console.error(`MusicBrainz API returned status: ${mbResponse.status}`);
-            return null;
-        }
-
-        const mbData = await mbResponse.json();
-        const release = mbData.releases?.[0];
-        const releaseId = release?.id;
-
-        if (!releaseId) {
-            console.log(`No release ID found on MusicBrainz for ${artist} - ${album}`);
-            return null;
-        }
-
-        const coverArtUrl = `https://coverartarchive.org/release/${releaseId}`;
-        const caResponse = await fetch(coverArtUrl, { headers: { 'Accept': 'application/json' } });
-        
-        if (!caResponse.ok) {
-            return null;
-        }
-        
-        const caData = await caResponse.json();
-        const frontImage = caData.images?.find((img: { front: boolean; }) => img.front);
-        
-        if (frontImage?.image) {
-            console.log("Found potential cover on Cover Art Archive.");
-            return frontImage.image;
-        }
-
-    } catch (error) {
-        console.error("Error fetching from MusicBrainz/Cover Art Archive:", error);
-    }
-    
-    return null;
-}
+import { defineCommand, getAttachmentOption, getBooleanOption, getStringOption, getSubcommand } from '@/utils/commands';
+import { describeLastFmError, getLastFmImageUrl, getRecentTracks, searchAlbums } from '@/utils/lastfm';
+import {
+    approveOverride,
+    CoverOverride,
+    CoverOverrideError,
+    CoverOverrideStatus,
+    getOverrideImageUrl,
+    getReviewImageUrl,
+    listOverrides,
+    rejectOverride,
+    resolveCoverArt,
+    revokeOverride,
+    submitOverride,
+} from '@/utils/cover-art';
+import { musicAutocomplete } from '@/utils/autocomplete';
+import { ComponentContext, defineComponent } from '@/utils/components';
+import { AlbumChoice, chooseAlbum, createAlbumPicker, deleteAlbumPicker, getAlbumPicker } from '@/utils/album-picker';
+import { getBaseUrl } from '@/utils/base-url';
+import { isCoverReviewer } from '@/utils/permissions';
+import { normalizeString } from '@/utils/strings';
+import { deferWork, editReply, InteractionRef } from '@/utils/discord';
+import { getLastFmUsername } from '@/utils/storage';
+import { getDominantColor } from '@/utils/colors';
 
 /**
- * The original fallback logic. Tries sources one-by-one and returns the first valid image.
+ * Resolves the cover for one specific album and edits it into the original message.
+ * Used both for a direct search hit and for a pick from the album menu.
  */
-async function findCoverArtSequentially(artist: string, album: string): Promise<string | null> {
-    console.log(`Searching fallbacks sequentially for "${album}" by "${artist}"`);
-    
-    const itunesArt = await findCoverOnItunes(artist, album);
-    if (await isValidImageUrl(itunesArt)) {
-        console.log("Successfully got valid album art from iTunes.");
-        return itunesArt;
-    }
-
-    console.log("iTunes failed or returned invalid image, trying MusicBrainz...");
-    const musicBrainzArt = await findCoverOnMusicBrainz(artist, album);
-    if (await isValidImageUrl(musicBrainzArt)) {
-        console.log("Successfully got valid album art from MusicBrainz.");
-        return musicBrainzArt;
+async function sendAlbumCover(interaction: InteractionRef, choice: AlbumChoice, hqOnly: boolean, searchedBy: string) {
+    const resolved = await resolveCoverArt(
+        { artist: choice.artist, album: choice.album, lastfmUrl: choice.imageUrl },
+        { strategy: hqOnly ? 'hq' : 'sequential' },
+    );
+
+    if (!resolved) {
+        await editReply(interaction, { content: `Could not find album art for **${choice.album}** by **${choice.artist}**.`, components: [] });
+        return;
     }
 
-    console.log(`All sequential fallbacks failed for "${album}" by "${artist}".`);
-    return null;
-}
-
-/**
- * [HQ Only] Fetches album art from all available sources in parallel.
- */
-async function findAllCoverArtSources(artist: string, album: string, lastfmUrl: string | null): Promise<(string | null)[]> {
-    console.log(`[HQ] Searching all sources for "${album}" by "${artist}"`);
-    
-    const sourcePromises = [
-        Promise.resolve(lastfmUrl), // Include the initial Last.fm URL
-        findCoverOnItunes(artist, album),
-        findCoverOnMusicBrainz(artist, album),
-    ];
-
-    const results = await Promise.all(sourcePromises);
-    return results.filter(url => url); // Filter out nulls
-}
-
-/**
- * [HQ Only] Assigns a quality score to an image URL based on known patterns.
- */
-function getImageQualityScore(url: string | null): number {
-    if (!url) return 0;
-
-    if (url.includes('coverartarchive.org')) return 5000; // Highest priority
-
-    const match = url.match(/(\d+)x\d+/);
-    if (match && match[1]) {
-        return parseInt(match[1], 10);
+    const dominantColor = await getDominantColor(resolved.url);
+    const baseUrl = getBaseUrl();
+    let iconUrl = `${baseUrl}/api/recolor-icon?color=d51007`;
+    if (dominantColor) {
+        const hexColor = dominantColor.toString(16).padStart(6, '0');
+        iconUrl = `${baseUrl}/api/recolor-icon?color=${hexColor}`;
     }
-    
-    // Fallback for standard last.fm URLs
-    if (url.includes('/i/u/')) {
-        if (url.includes('300x300')) return 300;
-        if (url.includes('174s')) return 174;
-    }
-
-    return 100; // Default low score
-}
 
-/**
- * [HQ Only] Takes a list of URLs, checks their validity, and returns the one with the highest quality score.
- */
-async function getBestImageUrl(urls: (string | null)[]): Promise<string | null> {
-    const validUrls = [];
-    for (const url of urls) {
-        if (await isValidImageUrl(url)) {
-            validUrls.push(url!);
+    const embed = {
+        title: choice.album,
+        description: `-# by **${choice.artist}**`,
+        color: dominantColor || 0xd51007,
+        image: { url: resolved.url },
+        footer: {
+            text: `Searched by: ${searchedBy}`,
+            icon_url: iconUrl
         }
-    }
-
-    if (validUrls.length === 0) return null;
-
-    validUrls.sort((a, b) => getImageQualityScore(b) - getImageQualityScore(a));
+    };
 
-    console.log("Ranked image URLs by quality:", validUrls.map(u => ({ url: u, score: getImageQualityScore(u) })));
-
-    return validUrls[0];
-}
-
-async function getDominantColor(imageUrl: string): Promise<number | null> {
-    try {
-        const palette = await Vibrant.from(imageUrl).getPalette();
-        const vibrantSwatch = palette.Vibrant || palette.Muted || palette.LightVibrant;
-
-        if (vibrantSwatch && vibrantSwatch.hex) {
-            return parseInt(vibrantSwatch.hex.substring(1), 16);
-        }
-    } catch (error) {
-        console.error("Error getting dominant color:", error);
-    }
-    return null;
+    // Clear the picker text and menu if this came from a pick.
+    await editReply(interaction, { content: '', embeds: [embed], components: [] });
 }
 
-const getBaseUrl = () => {
-    if (process.env.VERCEL_PROJECT_PRODUCTION_URL) {
-        return `https://${process.env.VERCEL_PROJECT_PRODUCTION_URL}`;
-    }
-    return process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:2999';
-};
-
-async function handleAlbumSearch(interaction: APIChatInputApplicationCommandInteraction, initialSearchQuery: string, hqOnly: boolean) {
-    await fetch(`https://discord.com/api/v10/interactions/${interaction.id}/${interaction.token}/callback`, {
-        method: 'POST',
-        body: JSON.stringify({ type: InteractionResponseType.DeferredChannelMessageWithSource }),
-        headers: { 'Content-Type': 'application/json' },
-    });
+async function handleAlbumSearch(interaction: APIChatInputApplicationCommandInteraction, initialSearchQuery: string, artistFilter: string | undefined, hqOnly: boolean) {
+    const user = interaction.member!.user;
 
-    const apiKey = process.env.LASTFM_API_KEY;
-    
-    let finalAlbumArtUrl: string | null = null;
-    let finalArtist: string | null = null;
-    let finalAlbumName: string | null = null;
-    
     const searchQueries = [initialSearchQuery];
     const normalizedQuery = normalizeString(initialSearchQuery);
 
@@ -254,148 +81,96 @@ async function handleAlbumSearch(interaction: APIChatInputApplicationCommandInte
     }
 
     try {
+        let decision: ReturnType<typeof chooseAlbum> = null;
+
         for (const query of searchQueries) {
             console.log(`--- Searching for: "${query}" ---`);
             
-            const apiUrl = `https://ws.audioscrobbler.com/2.0/?method=album.search&album=${encodeURIComponent(query)}&api_key=${apiKey}&format=json&limit=1`;
-            const response = await fetch(apiUrl);
-            const data = await response.json();
-
-            if (data.error || !data.results?.albummatches?.album?.[0]) {
-                console.log(`Last.fm found no results for "${query}".`);
-                continue; 
-            }
-            
-            const album = data.results.albummatches.album[0];
-            const artist = album.artist;
-            const albumName = album.name;
-
-            const lastfmAlbumArtUrl = album.image.find((img: { size: string; }) => img.size === 'extralarge')?.['#text']
-                                   || album.image.find((img: { size: string; }) => img.size === 'large')?.['#text']
-                                   || album.image[album.image.length - 1]?.['#text'];
-            
-            if (hqOnly) {
-                console.log("HQ mode enabled. Gathering all sources.");
-                const allUrls = await findAllCoverArtSources(artist, albumName, lastfmAlbumArtUrl);
-                finalAlbumArtUrl = await getBestImageUrl(allUrls);
-            } else {
-                if (await isValidImageUrl(lastfmAlbumArtUrl)) {
-                    console.log(`Found valid cover on Last.fm for "${query}".`);
-                    finalAlbumArtUrl = lastfmAlbumArtUrl;
-                } else {
-                    console.log(`Last.fm URL for "${query}" is invalid or a placeholder. Trying fallbacks...`);
-                    finalAlbumArtUrl = await findCoverArtSequentially(artist, albumName);
-                }
-            }
+            const { items: matches } = await searchAlbums(query, { limit: 10 });
+            decision = chooseAlbum(matches, query, artistFilter);
+            if (decision) break;
 
-            if (finalAlbumArtUrl) {
-                finalArtist = artist;
-                finalAlbumName = albumName;
-                break;
-            }
+            console.log(`Last.fm found no results for "${query}".`);
         }
 
-        if (finalAlbumArtUrl && finalArtist && finalAlbumName) {
-            const dominantColor = await getDominantColor(finalAlbumArtUrl);
-            const baseUrl = getBaseUrl();
-            let iconUrl = `${baseUrl}/api/recolor-icon?color=d51007`;
-            if (dominantColor) {
-                const hexColor = dominantColor.toString(16).padStart(6, '0');
-                iconUrl = `${baseUrl}/api/recolor-icon?color=${hexColor}`;
-            }
-            
-            finalAlbumArtUrl = finalAlbumArtUrl.replace(/\/\d+x\d+\//, "/1000x1000/");
-
-            const embed = {
-                title: finalAlbumName,
-                description: `-# by **${finalArtist}**`,
-                color: dominantColor || 0xd51007,
-                image: { url: finalAlbumArtUrl },
-                footer: {
-                    text: `Searched by: ${interaction.member!.user.username}`,
-                    icon_url: iconUrl
-                }
-            };
-            
-            await fetch(`https://discord.com/api/v10/webhooks/${interaction.application_id}/${interaction.token}/messages/@original`, {
-                method: 'PATCH',
-                body: JSON.stringify({ embeds: [embed] }),
-                headers: { 'Content-Type': 'application/json' },
-            });
-        } else {
-            let content = `Could not find album art for \`${initialSearchQuery}\`.`;
+        if (!decision) {
+            let content = `Could not find any albums matching \`${initialSearchQuery}\`.`;
             if (searchQueries.length > 1) {
-                content = `Could not find album art for \`${initialSearchQuery}\` (also tried \`${normalizedQuery}\`).`;
+                content = `Could not find any albums matching \`${initialSearchQuery}\` (also tried \`${normalizedQuery}\`).`;
             }
 
-            await fetch(`https://discord.com/api/v10/webhooks/${interaction.application_id}/${interaction.token}/messages/@original`, {
-                method: 'PATCH',
-                body: JSON.stringify({ content }),
-                headers: { 'Content-Type': 'application/json' },
-            });
+            await editReply(interaction, { content });
+            return;
+        }
+
+        if ('match' in decision) {
+            await sendAlbumCover(interaction, decision.match, hqOnly, user.username);
+            return;
         }
 
+        // Several plausible releases: let the user say which one they meant.
+        const components = await createAlbumPicker('cover', {
+            ownerId: user.id,
+            query: initialSearchQuery,
+            hqOnly,
+            choices: decision.choices,
+        });
+
+        await editReply(interaction, { content: `Found several albums matching \`${initialSearchQuery}\`. Which one did you mean?`, components });
+
     } catch (error) {
         console.error(error);
-        await fetch(`https://discord.com/api/v10/webhooks/${interaction.application_id}/${interaction.token}/messages/@original`, {
-            method: 'PATCH',
-            body: JSON.stringify({ content: 'An error occurred while processing your request.' }),
-            headers: { 'Content-Type': 'application/json' },
+        await editReply(interaction, { content: describeLastFmError(error, 'An error occurred while processing your request.') });
+    }
+}
+
+/**
+ * Handles a pick from the album menu posted by `/cover search`.
+ */
+async function handleCoverPick(interaction: APIMessageComponentSelectMenuInteraction, { args }: ComponentContext) {
+    const [pickerId] = args;
+    const state = await getAlbumPicker(pickerId);
+    // A value that isn't one of the stored choices can only come from a stale menu.
+    const choice = state?.choices[Number(interaction.data.values[0])];
+
+    if (!state || !choice) {
+        return NextResponse.json({
+            type: InteractionResponseType.UpdateMessage,
+            data: { content: 'This search has expired. Please run `/cover search` again.', components: [] },
         });
     }
+
+    // The router already checked this is the user who searched.
+    const user = interaction.member?.user ?? interaction.user!;
+
+    return deferWork(interaction, async () => {
+        await deleteAlbumPicker(pickerId);
+        await sendAlbumCover(interaction, choice, state.hqOnly, user.username);
+    }, { update: true, errorMessage: 'An error occurred while processing your request.' });
 }
 
 async function handleUserScrobble(interaction: APIChatInputApplicationCommandInteraction, lastfmUsername: string, hqOnly: boolean) {
-    await fetch(`https://discord.com/api/v10/interactions/${interaction.id}/${interaction.token}/callback`, {
-        method: 'POST',
-        body: JSON.stringify({ type: InteractionResponseType.DeferredChannelMessageWithSource }),
-        headers: { 'Content-Type': 'application/json' },
-    });
-
-    const apiKey = process.env.LASTFM_API_KEY;
-    const apiUrl = `https://ws.audioscrobbler.com/2.0/?method=user.getrecenttracks&user=${lastfmUsername}&api_key=${apiKey}&format=json&limit=1`;
-    
     try {
-        const response = await fetch(apiUrl);
-        const data = await response.json();
-
-        if (data.error || !data.recenttracks || data.recenttracks.track.length === 0) {
-            await fetch(`https://discord.com/api/v10/webhooks/${interaction.application_id}/${interaction.token}/messages/@original`, {
-                method: 'PATCH',
-                body: JSON.stringify({ content: `Could not find any recent tracks for user \`${lastfmUsername}\`.` }),
-                headers: { 'Content-Type': 'application/json' },
-            });
+        const { items: recentTracks } = await getRecentTracks(lastfmUsername, { limit: 1 });
+
+        if (recentTracks.length === 0) {
+            await editReply(interaction, { content: `Could not find any recent tracks for user \`${lastfmUsername}\`.` });
             return;
         }
         
-        const track = data.recenttracks.track[0];
+        const track = recentTracks[0];
         const artist = track.artist['#text'];
         const albumName = track.album['#text'];
-        const lastfmAlbumArtUrl = track.image.find((img: { size: string; }) => img.size === 'extralarge')?.['#text']
-                                || track.image.find((img: { size: string; }) => img.size === 'large')?.['#text']
-                                || track.image[track.image.length - 1]?.['#text'];
+        const lastfmAlbumArtUrl = getLastFmImageUrl(track.image) ?? null;
         
-        let finalAlbumArtUrl: string | null = null;
-
-        if (hqOnly) {
-            console.log("HQ mode enabled for scrobble. Gathering all sources.");
-            const allUrls = await findAllCoverArtSources(artist, albumName, lastfmAlbumArtUrl);
-            finalAlbumArtUrl = await getBestImageUrl(allUrls);
-        } else {
-            if (await isValidImageUrl(lastfmAlbumArtUrl)) {
-                finalAlbumArtUrl = lastfmAlbumArtUrl;
-            } else {
-                console.log('Last.fm URL for user scrobble is invalid. Trying sequential fallbacks...');
-                finalAlbumArtUrl = await findCoverArtSequentially(artist, albumName);
-            }
-        }
+        const resolved = await resolveCoverArt(
+            { artist, album: albumName, lastfmUrl: lastfmAlbumArtUrl },
+            { strategy: hqOnly ? 'hq' : 'sequential' },
+        );
+        const finalAlbumArtUrl = resolved?.url ?? null;
 
         if (!finalAlbumArtUrl) {
-            await fetch(`https://discord.com/api/v10/webhooks/${interaction.application_id}/${interaction.token}/messages/@original`, {
-                method: 'PATCH',
-                body: JSON.stringify({ content: `Could not find album art for **${track.name}** by **${artist}**.` }),
-                headers: { 'Content-Type': 'application/json' },
-            });
+            await editReply(interaction, { content: `Could not find album art for **${track.name}** by **${artist}**.` });
             return;
         }
 
@@ -410,8 +185,6 @@ async function handleUserScrobble(interaction: APIChatInputApplicationCommandInt
         const isNowPlaying = track['@attr']?.nowplaying;
         const footerText = isNowPlaying ? `Currently listening: ${lastfmUsername}` : `Last scrobbled by: ${lastfmUsername}`;
 
-        finalAlbumArtUrl = finalAlbumArtUrl.replace(/\/\d+x\d+\//, "/1000x1000/");
-        
         const embed = {
             title: albumName,
             description: `-# by **${artist}**`,
@@ -423,49 +196,331 @@ async function handleUserScrobble(interaction: APIChatInputApplicationCommandInt
             }
         };
 
-        await fetch(`https://discord.com/api/v10/webhooks/${interaction.application_id}/${interaction.token}/messages/@original`, {
-            method: 'PATCH',
-            body: JSON.stringify({ embeds: [embed] }),
-            headers: { 'Content-Type': 'application/json' },
-        });
+        await editReply(interaction, { embeds: [embed] });
 
     } catch (error) {
         console.error(error);
-        await fetch(`https://discord.com/api/v10/webhooks/${interaction.application_id}/${interaction.token}/messages/@original`, {
-            method: 'PATCH',
-            body: JSON.stringify({ content: 'An error occurred while fetching data from Last.fm.' }),
-            headers: { 'Content-Type': 'application/json' },
+        await editReply(interaction, { content: describeLastFmError(error, 'An error occurred while fetching data from Last.fm.') });
+    }
+}
+
+// #region overrides
+
+const STATUS_LABELS: Record<CoverOverrideStatus, string> = {
+    pending: '🕓 pending',
+    approved: '✅ approved',
+    rejected: '❌ rejected',
+    revoked: '🗑️ revoked',
+};
+
+/**
+ * Downloads and stores a `/cover fix` submission, then reports the result.
+ */
+async function saveCoverFix(interaction: APIChatInputApplicationCommandInteraction, artist: string, album: string, imageUrl: string) {
+    const user = interaction.member!.user;
+
+    try {
+        const override = await submitOverride({
+            artist,
+            album,
+            imageUrl,
+            submittedBy: user.id,
+            approve: isCoverReviewer(interaction),
+        });
+
+        const content = override.status === 'approved'
+            ? 'Cover override saved and applied straight away.'
+            : `Thanks! A moderator can apply this with \`/cover overrides approve id:${override.id}\`.`;
+
+        const embed = {
+            title: album,
+            description: `-# by **${artist}**`,
+            color: 0xd51007,
+            // Pending images aren't public until a reviewer approves them.
+            image: override.status === 'approved' ? { url: getOverrideImageUrl(override.id) } : undefined,
+            fields: [
+                { name: 'ID', value: `\`${override.id}\``, inline: true },
+                { name: 'Status', value: STATUS_LABELS[override.status], inline: true },
+                { name: 'Size', value: `${override.width}x${override.height}`, inline: true },
+            ],
+            footer: { text: `Submitted by: ${user.username}` },
+        };
+
+        await editReply(interaction, { content, embeds: [embed] });
+    } catch (error) {
+        console.error("Cover fix error:", error);
+        const content = error instanceof CoverOverrideError ? error.message : 'An error occurred while saving the cover override.';
+        await editReply(interaction, { content });
+    }
+}
+
+async function handleCoverFix(interaction: APIChatInputApplicationCommandInteraction, options: APIApplicationCommandInteractionDataOption[] | undefined) {
+    const artist = getStringOption(options, 'artist')!;
+    const album = getStringOption(options, 'album')!;
+    const attachmentId = getAttachmentOption(options, 'image');
+    const linkedUrl = getStringOption(options, 'url');
+
+    if (!!attachmentId === !!linkedUrl) {
+        return NextResponse.json({
+            type: InteractionResponseType.ChannelMessageWithSource,
+            data: {
+                content: 'Please either attach an image or paste a link to one (but not both).',
+                flags: 1 << 6, // Ephemeral message
+            },
+        });
+    }
+
+    const imageUrl = attachmentId ? interaction.data.resolved?.attachments?.[attachmentId]?.url : linkedUrl;
+    if (!imageUrl || !/^https?:\/\//.test(imageUrl)) {
+        return NextResponse.json({
+            type: InteractionResponseType.ChannelMessageWithSource,
+            data: { content: "That doesn't look like a valid image link.", flags: 1 << 6 },
+        });
+    }
+
+    return deferWork(interaction, () => saveCoverFix(interaction, artist, album, imageUrl));
+}
+
+async function handleCoverOverrides(interaction: APIChatInputApplicationCommandInteraction, action: string, options: APIApplicationCommandInteractionDataOption[] | undefined) {
+    if (action === 'list') {
+        const status = (getStringOption(options, 'status') || 'pending') as CoverOverrideStatus;
+        const overrides = await listOverrides(status, 15);
+        const canReview = isCoverReviewer(interaction);
+        const imageUrl = (override: CoverOverride) => {
+            if (override.status === 'approved') return getOverrideImageUrl(override.id);
+            return override.status === 'pending' && canReview ? getReviewImageUrl(override.id) : null;
+        };
+
+        const description = overrides.length === 0
+            ? `There are no ${status} cover overrides.`
+            : overrides.map(override => {
+                const image = imageUrl(override);
+                return [
+                    `\`${override.id}\` **${override.artist} – ${override.album}**`,
+                    `-# submitted by <@${override.submittedBy}> <t:${Math.floor(override.submittedAt / 1000)}:R>`
+                        + (image ? ` · [image](${image})` : ''),
+                ].join('\n');
+            }).join('\n');
+
+        return NextResponse.json({
+            type: InteractionResponseType.ChannelMessageWithSource,
+            data: {
+                embeds: [{
+                    title: `Cover overrides (${STATUS_LABELS[status]})`,
+                    description,
+                    color: 0xd51007,
+                }],
+                flags: 1 << 6,
+            },
+        });
+    }
+
+    // Overrides apply in every server, so approve, reject and revoke are for the bot's own reviewers.
+    if (!isCoverReviewer(interaction)) {
+        return NextResponse.json({
+            type: InteractionResponseType.ChannelMessageWithSource,
+            data: { content: "🚫 Cover overrides apply in every server, so only the bot's own moderators can review them.", flags: 1 << 6 },
+        });
+    }
+
+    const id = getStringOption(options, 'id')!;
+    const reviewer = (interaction.member?.user ?? interaction.user!).id;
+
+    try {
+        let content: string;
+        if (action === 'approve') {
+            const override = await approveOverride(id, reviewer);
+            content = `✅ Approved \`${id}\`. **${override.album}** by **${override.artist}** now uses the submitted cover.`;
+        } else if (action === 'reject') {
+            const override = await rejectOverride(id, reviewer);
+            content = `❌ Rejected \`${id}\` for **${override.album}** by **${override.artist}**.`;
+        } else {
+            const override = await revokeOverride(id, reviewer);
+            content = `🗑️ Revoked \`${id}\`. **${override.album}** by **${override.artist}** is back to automatic lookups.`;
+        }
+
+        return NextResponse.json({
+            type: InteractionResponseType.ChannelMessageWithSource,
+            data: { content },
+        });
+    } catch (error) {
+        console.error(`Cover override ${action} error:`, error);
+        const content = error instanceof CoverOverrideError ? error.message : 'An error occurred while updating the cover override.';
+        return NextResponse.json({
+            type: InteractionResponseType.ChannelMessageWithSource,
+            data: { content, flags: 1 << 6 },
         });
     }
 }
 
+// #endregion
+
 export async function handleCover(interaction: APIChatInputApplicationCommandInteraction) {
-    const options = interaction.data.options as (APIApplicationCommandInteractionDataStringOption | APIApplicationCommandInteractionDataBooleanOption)[] | undefined;
+    const subcommand = getSubcommand(interaction.data.options);
+    if (!subcommand) {
+        return new NextResponse('Unknown subcommand', { status: 400 });
+    }
 
-    const searchOption = options?.find(opt => opt.name === 'search') as APIApplicationCommandInteractionDataStringOption | undefined;
-    const hqOnlyOption = options?.find(opt => opt.name === 'hq_only') as APIApplicationCommandInteractionDataBooleanOption | undefined;
-    const hqOnly = hqOnlyOption?.value ?? false;
+    const { group, name, options } = subcommand;
+    const hqOnly = getBooleanOption(options, 'hq_only') ?? false;
+
+    if (group === 'overrides') {
+        return handleCoverOverrides(interaction, name, options);
+    }
+
+    if (name === 'fix') {
+        return handleCoverFix(interaction, options);
+    }
 
     // --- Search Mode ---
-    if (searchOption?.value) {
-        await handleAlbumSearch(interaction, searchOption.value, hqOnly);
-        return new NextResponse(null, { status: 204 });
+    if (name === 'search') {
+        return deferWork(interaction, () => handleAlbumSearch(interaction, getStringOption(options, 'album')!, getStringOption(options, 'artist'), hqOnly));
     }
 
-    // --- User Mode (Default, can also have hqOnly flag) ---
+    // --- User Mode ---
     const discordUserId = interaction.member!.user.id;
-    const lastfmUsername = await kv.get(discordUserId) as string | null;
+    const lastfmUsername = await getLastFmUsername(discordUserId, interaction.guild_id);
 
     if (!lastfmUsername) {
         return NextResponse.json({
             type: InteractionResponseType.ChannelMessageWithSource,
             data: {
-                content: `To see your last played track, you must register your Last.fm username with the \`/register\` command first. Or, use the \`/cover search:<album name>\` option to find an album.`,
+                content: `To see your last played track, you must register your Last.fm username with the \`/register\` command first. Or, use \`/cover search album:<album name>\` to find an album.`,
                 flags: 1 << 6, // Ephemeral message
             },
         });
     }
     
-    await handleUserScrobble(interaction, lastfmUsername, hqOnly);
-    return new NextResponse(null, { status: 204 });
-}
\ No newline at end of file
+    return deferWork(interaction, () => handleUserScrobble(interaction, lastfmUsername, hqOnly));
+}
+
+const hqOnlyOption = {
+    name: 'hq_only',
+    description: 'If true, searches all sources to find the highest quality cover.',
+    type: ApplicationCommandOptionType.Boolean,
+    required: false,
+} as const;
+
+const overrideIdOption = {
+    name: 'id',
+    description: 'The override ID shown when it was submitted.',
+    type: ApplicationCommandOptionType.String,
+    required: true,
+} as const;
+
+export const coverCommand = defineCommand({
+    name: 'cover',
+    description: 'Displays album art. Searches for an album or shows your last played track.',
+    options: [
+        {
+            name: 'now',
+            description: 'Shows the cover of the track you last scrobbled.',
+            type: ApplicationCommandOptionType.Subcommand,
+            options: [hqOnlyOption],
+        },
+        {
+            name: 'search',
+            description: 'Search for an album on Last.fm.',
+            type: ApplicationCommandOptionType.Subcommand,
+            options: [
+                {
+                    name: 'album',
+                    description: 'The album to search for.',
+                    type: ApplicationCommandOptionType.String,
+                    required: true,
+                    autocomplete: true,
+                },
+                {
+                    name: 'artist',
+                    description: 'Only show albums by this artist.',
+                    type: ApplicationCommandOptionType.String,
+                    required: false,
+                    autocomplete: true,
+                },
+                hqOnlyOption,
+            ],
+        },
+        {
+            name: 'fix',
+            description: 'Submit the correct cover for an album the bot gets wrong.',
+            type: ApplicationCommandOptionType.Subcommand,
+            options: [
+                {
+                    name: 'artist',
+                    description: 'The album artist, as Last.fm spells it.',
+                    type: ApplicationCommandOptionType.String,
+                    required: true,
+                    autocomplete: true,
+                },
+                {
+                    name: 'album',
+                    description: 'The album title, as Last.fm spells it.',
+                    type: ApplicationCommandOptionType.String,
+                    required: true,
+                    autocomplete: true,
+                },
+                {
+                    name: 'image',
+                    description: 'The correct cover image.',
+                    type: ApplicationCommandOptionType.Attachment,
+                    required: false,
+                },
+                {
+                    name: 'url',
+                    description: 'A link to the correct cover image.',
+                    type: ApplicationCommandOptionType.String,
+                    required: false,
+                },
+            ],
+        },
+        {
+            name: 'overrides',
+            description: 'Review submitted cover fixes.',
+            type: ApplicationCommandOptionType.SubcommandGroup,
+            options: [
+                {
+                    name: 'list',
+                    description: 'Lists submitted cover overrides.',
+                    type: ApplicationCommandOptionType.Subcommand,
+                    options: [
+                        {
+                            name: 'status',
+                            description: 'Which overrides to show (default: pending).',
+                            type: ApplicationCommandOptionType.String,
+                            required: false,
+                            choices: [
+                                { name: 'Pending', value: 'pending' },
+                                { name: 'Approved', value: 'approved' },
+                                { name: 'Rejected', value: 'rejected' },
+                                { name: 'Revoked', value: 'revoked' },
+                            ],
+                        },
+                    ],
+                },
+                {
+                    name: 'approve',
+                    description: '[mods] Applies a pending cover override.',
+                    type: ApplicationCommandOptionType.Subcommand,
+                    options: [overrideIdOption],
+                },
+                {
+                    name: 'reject',
+                    description: '[mods] Discards a pending cover override.',
+                    type: ApplicationCommandOptionType.Subcommand,
+                    options: [overrideIdOption],
+                },
+                {
+                    name: 'revoke',
+                    description: '[mods] Removes an approved cover override.',
+                    type: ApplicationCommandOptionType.Subcommand,
+                    options: [overrideIdOption],
+                },
+            ],
+        },
+    ],
+    execute: handleCover,
+    components: [
+        defineComponent({ prefix: 'cover:pick', kind: 'select', handle: handleCoverPick, expiredMessage: 'This search has expired. Please run `/cover search` again.' }),
+    ],
+    autocomplete: musicAutocomplete({ album: 'album', artist: 'artist' }),
+});
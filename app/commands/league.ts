@@ -3,16 +3,16 @@ import { NextResponse } from 'next/server';
 import {
     InteractionResponseType,
     APIChatInputApplicationCommandInteraction,
+    ApplicationCommandOptionType,
 } from 'discord-api-types/v10';
-import { kv } from '@vercel/kv';
+import { defineCommand } from '@/utils/commands';
+import { getTopArtists } from '@/utils/lastfm';
+import { getGuildMembers, readCache, writeCache } from '@/utils/storage';
+import { deferWork, editReply } from '@/utils/discord';
+import { getSpotifyToken } from '@/utils/spotify';
 
 // --- Define necessary types ---
 
-type LastFmArtist = {
-    name: string;
-    playcount: string;
-};
-
 type AggregatedArtist = {
     name: string;
     playcount: number;
@@ -25,33 +25,6 @@ type SpotifyTrack = {
 
 // --- Spotify API Helper Functions ---
 
-/**
- * Fetches an access token from the Spotify API using the Client Credentials Flow.
- */
-async function getSpotifyToken(): Promise<string> {
-    const clientId = process.env.SPOTIFY_CLIENT_ID;
-    const clientSecret = process.env.SPOTIFY_CLIENT_SECRET;
-
-    if (!clientId || !clientSecret) {
-        throw new Error('Spotify API credentials are not configured in environment variables.');
-    }
-
-    const response = await fetch('https://accounts.spotify.com/api/token', {
-        method: 'POST',
-        headers: {
-            'Content-Type': 'application/x-www-form-urlencoded',
-            'Authorization': 'Basic ' + Buffer.from(clientId + ':' + clientSecret).toString('base64')
-        },
-        body: 'grant_type=client_credentials'
-    });
-
-    const data = await response.json();
-    if (!response.ok) {
-        throw new Error(`Spotify token fetch failed: ${data.error_description}`);
-    }
-    return data.access_token;
-}
-
 /**
  * Fetches all tracks from a Spotify playlist, handling pagination automatically.
  * @param playlistId The ID of the Spotify playlist.
@@ -101,11 +74,12 @@ function extractPlaylistId(url: string): string | null {
 
 /**
  * Fetches the server's top 30 artists from Last.fm, using a cache.
+ * Only members who opted into this server's stats are counted.
  * Returns a sorted array of artist names.
  */
-async function getServerTopArtists(): Promise<string[]> {
-    const cacheKey = 'league:server-top-artists-list'; // Use a new key that stores a simple array
-    const cachedArtists: string[] | null = await kv.get(cacheKey);
+async function getServerTopArtists(guildId: string): Promise<string[]> {
+    const cacheKey = `${guildId}:server-top-artists`;
+    const cachedArtists = await readCache<string[]>('league', cacheKey);
 
     if (cachedArtists) {
         console.log("CACHE HIT: Using cached Last.fm server artists list.");
@@ -113,26 +87,18 @@ async function getServerTopArtists(): Promise<string[]> {
     }
 
     console.log("CACHE MISS: Fetching fresh Last.fm server artists.");
-    const userKeys: string[] = [];
-    for await (const key of kv.scanIterator()) { userKeys.push(key); }
-    if (userKeys.length === 0) { throw new Error('No users have registered with `/register`.'); }
-
-    const lastfmUsernames = (await kv.mget(...userKeys)) as string[];
-    const apiKey = process.env.LASTFM_API_KEY;
+    const members = await getGuildMembers(guildId);
+    if (members.length === 0) { throw new Error('No one in this server has registered with `/register`.'); }
 
-    const fetchPromises = lastfmUsernames.map(username => {
-        if (!username) return null;
-        const apiUrl = `https://ws.audioscrobbler.com/2.0/?method=user.gettopartists&user=${username}&period=1month&api_key=${apiKey}&format=json&limit=50`;
-        return fetch(apiUrl).then(res => res.json());
-    }).filter(Boolean);
+    const fetchPromises = members
+        .map(member => getTopArtists(member.lastfmUsername, { period: '1month', limit: 50 }));
 
     const results = await Promise.allSettled(fetchPromises);
     const artistScrobbles = new Map<string, AggregatedArtist>();
 
     for (const result of results) {
-        if (result.status === 'fulfilled' && result.value.topartists) {
-            const artists: LastFmArtist[] = result.value.topartists.artist;
-            for (const artist of artists) {
+        if (result.status === 'fulfilled') {
+            for (const artist of result.value.items) {
                 const key = artist.name.toLowerCase();
                 const playCount = parseInt(artist.playcount, 10);
                 if (artistScrobbles.has(key)) {
@@ -151,7 +117,7 @@ async function getServerTopArtists(): Promise<string[]> {
 
     if (sortedArtists.length > 0) {
         // Cache the sorted list of names for 1 hour
-        await kv.set(cacheKey, sortedArtists, { ex: 3600 });
+        await writeCache('league', cacheKey, sortedArtists, 3600);
     }
 
     return sortedArtists;
@@ -160,20 +126,14 @@ async function getServerTopArtists(): Promise<string[]> {
 /**
  * --- MODIFIED: Handles the logic for the /league subcommands. ---
  */
-export async function handleLeague(interaction: APIChatInputApplicationCommandInteraction) {
-    await fetch(`https://discord.com/api/v10/interactions/${interaction.id}/${interaction.token}/callback`, {
-        method: 'POST',
-        body: JSON.stringify({ type: InteractionResponseType.DeferredChannelMessageWithSource }),
-        headers: { 'Content-Type': 'application/json' },
-    });
-
+async function runLeague(interaction: APIChatInputApplicationCommandInteraction, guildId: string) {
     try {
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         const subcommand = (interaction.data.options?.[0] as any); // The subcommand object
 
         // --- Subcommand Router ---
  if (subcommand.name === 'banned') {
-            const topArtists = await getServerTopArtists();
+            const topArtists = await getServerTopArtists(guildId);
 
             if (topArtists.length === 0) {
                 throw new Error("Could not find any top artists for the server.");
@@ -220,11 +180,7 @@ export async function handleLeague(interaction: APIChatInputApplicationCommandIn
             }
 
             // 4. Send the embed in the response
-            await fetch(`https://discord.com/api/v10/webhooks/${interaction.application_id}/${interaction.token}/messages/@original`, {
-                method: 'PATCH',
-                body: JSON.stringify({ embeds: [embed] }),
-                headers: { 'Content-Type': 'application/json' },
-            });
+            await editReply(interaction, { embeds: [embed] });
 
         } else if (subcommand.name === 'find') {
             const playlistUrl = subcommand.options?.find((opt: { name: string; }) => opt.name === 'playlist')?.value;
@@ -234,17 +190,17 @@ export async function handleLeague(interaction: APIChatInputApplicationCommandIn
             if (!playlistId) { throw new Error("That doesn't look like a valid Spotify playlist URL."); }
 
             // 1. Get server top artists (from our new helper function)
-            const topArtists = await getServerTopArtists();
+            const topArtists = await getServerTopArtists(guildId);
             if (topArtists.length === 0) { throw new Error("Could not fetch any artist data for the server's registered users."); }
             const topArtistSet = new Set(topArtists.map(a => a.toLowerCase()));
 
             // 2. Get Spotify tracks (with caching)
-            const playlistCacheKey = `league:playlist:${playlistId}`;
-            let playlistTracks: SpotifyTrack[] | null = await kv.get(playlistCacheKey);
+            const playlistCacheKey = `playlist:${playlistId}`;
+            let playlistTracks = await readCache<SpotifyTrack[]>('league', playlistCacheKey);
             if (!playlistTracks) {
                 const spotifyToken = await getSpotifyToken();
                 playlistTracks = await getPlaylistTracks(playlistId, spotifyToken);
-                await kv.set(playlistCacheKey, playlistTracks, { ex: 300 });
+                await writeCache('league', playlistCacheKey, playlistTracks, 300);
             }
 
             // 3. Find matches
@@ -273,22 +229,50 @@ export async function handleLeague(interaction: APIChatInputApplicationCommandIn
                 }
             }
 
-            await fetch(`https://discord.com/api/v10/webhooks/${interaction.application_id}/${interaction.token}/messages/@original`, {
-                method: 'PATCH',
-                body: JSON.stringify({ content }),
-                headers: { 'Content-Type': 'application/json' },
-            });
+            await editReply(interaction, { content });
         }
 
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     } catch (error: any) {
         console.error("League command error:", error);
-        await fetch(`https://discord.com/api/v10/webhooks/${interaction.application_id}/${interaction.token}/messages/@original`, {
-            method: 'PATCH',
-            body: JSON.stringify({ content: `An error occurred: ${error.message}` }),
-            headers: { 'Content-Type': 'application/json' },
+        await editReply(interaction, { content: `An error occurred: ${error.message}` });
+    }
+}
+
+export function handleLeague(interaction: APIChatInputApplicationCommandInteraction) {
+    const guildId = interaction.guild_id;
+    if (!guildId) {
+        return NextResponse.json({
+            type: InteractionResponseType.ChannelMessageWithSource,
+            data: { content: 'The league only works inside a server.', flags: 1 << 6 },
         });
     }
 
-    return new NextResponse(null, { status: 204 });
-}
\ No newline at end of file
+    return deferWork(interaction, () => runLeague(interaction, guildId));
+}
+
+export const leagueCommand = defineCommand({
+    name: 'league',
+    description: 'Server artist league commands.',
+    options: [
+        {
+            name: 'find',
+            description: "Finds tracks in a Spotify playlist by the server's top artists.",
+            type: ApplicationCommandOptionType.Subcommand,
+            options: [
+                {
+                    name: 'playlist',
+                    description: 'The full URL of the Spotify playlist.',
+                    type: ApplicationCommandOptionType.String,
+                    required: true,
+                },
+            ],
+        },
+        {
+            name: 'banned',
+            description: "Displays the top 30 'banned' artists for the server league.",
+            type: ApplicationCommandOptionType.Subcommand,
+        },
+    ],
+    execute: handleLeague,
+});
@@ -1,6 +1,7 @@
 // app/commands/ping.ts
 import { NextResponse } from 'next/server';
 import { InteractionResponseType, APIChatInputApplicationCommandInteraction } from 'discord-api-types/v10';
+import { defineCommand } from '@/utils/commands';
 
 export async function handlePing(interaction: APIChatInputApplicationCommandInteraction) {
     const interactionId = BigInt(interaction.id);
@@ -11,4 +12,10 @@ export async function handlePing(interaction: APIChatInputApplicationCommandInte
         type: InteractionResponseType.ChannelMessageWithSource,
         data: { content: `BOING!! ZOOM!! \n-# ${latency}ms.` },
     });
-}
\ No newline at end of file
+}
+
+export const pingCommand = defineCommand({
+    name: 'ping',
+    description: 'Replies with Pong! to test latency.',
+    execute: handlePing,
+});
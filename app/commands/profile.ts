@@ -4,8 +4,10 @@ import {
     InteractionResponseType,
     APIChatInputApplicationCommandInteraction,
     APIEmbedField,
+    ApplicationCommandOptionType,
 } from 'discord-api-types/v10';
 import Parser from 'rss-parser';
+import { defineCommand } from '@/utils/commands';
 
 const parser = new Parser();
 
@@ -168,4 +170,18 @@ export async function handleProfile(interaction: APIChatInputApplicationCommandI
             data: { content: '❌ Failed to parse the file. Please ensure it is the unmodified RSS feed from Rate Your Music.' },
         });
     }
-}
\ No newline at end of file
+}
+
+export const profileCommand = defineCommand({
+    name: 'profile',
+    description: 'Displays a Rate Your Music Profile from an RSS Feed File.',
+    options: [
+        {
+            name: 'feed',
+            description: 'The .txt or .xml file containing the RSS feed from Rate Your Music.',
+            type: ApplicationCommandOptionType.Attachment,
+            required: true,
+        },
+    ],
+    execute: handleProfile,
+});
@@ -4,8 +4,18 @@ import {
     APIChatInputApplicationCommandInteraction,
     APIApplicationCommandInteractionDataStringOption,
     APIApplicationCommandInteractionDataBooleanOption,
+    APIMessageComponentSelectMenuInteraction,
+    ApplicationCommandOptionType,
 } from 'discord-api-types/v10';
-import { kv } from '@vercel/kv';
+import { defineCommand } from '@/utils/commands';
+import { describeLastFmError, getLastFmImageUrl, getRecentTracks, searchAlbums } from '@/utils/lastfm';
+import { resolveCoverArt } from '@/utils/cover-art';
+import { musicAutocomplete } from '@/utils/autocomplete';
+import { ComponentContext, defineComponent } from '@/utils/components';
+import { AlbumChoice, chooseAlbum, createAlbumPicker, deleteAlbumPicker, getAlbumPicker } from '@/utils/album-picker';
+import { normalizeString } from '@/utils/strings';
+import { deferWork, editReply, InteractionRef } from '@/utils/discord';
+import { getLastFmUsername } from '@/utils/storage';
 
 // --- Helper Functions ---
 
@@ -18,226 +28,114 @@ async function fetchImageBuffer(url: string): Promise<Buffer> {
     return Buffer.from(arrayBuffer);
 }
 
-function normalizeString(str: string): string {
-    return str.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
-}
-
-async function isValidImageUrl(url: string | null | undefined, timeout = 2500): Promise<boolean> {
-    if (!url) return false;
-    if (url === 'https://lastfm.freetls.fastly.net/i/u/300x300/2a96cbd8b46e442fc41c2b86b821562f.png') {
-        console.log('LastFM returned a placeholder image.');
-        return false;
-    }
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeout);
-    try {
-        const response = await fetch(url, { method: 'HEAD', signal: controller.signal });
-        clearTimeout(timeoutId);
-        return response.ok;
-    } catch (error) {
-        clearTimeout(timeoutId);
-        return false;
-    }
-}
-
-async function findCoverOnItunes(artist: string, album: string): Promise<string | null> {
-    try {
-        const searchTerm = `${artist} ${album}`;
-        const itunesUrl = `https://itunes.apple.com/search?term=${encodeURIComponent(searchTerm)}&entity=album&limit=5`;
-        const response = await fetch(itunesUrl);
-        const data = await response.json();
-        if (data.resultCount > 0) {
-            const bestMatch = data.results.find((r: { collectionName: string; }) => normalizeString(r.collectionName).toLowerCase() === normalizeString(album).toLowerCase()) || data.results[0];
-            return bestMatch.artworkUrl100.replace('100x100', '1000x1000');
-        }
-    } catch (error) {
-        console.error("Error fetching from iTunes:", error);
-    }
-    return null;
-}
-
-async function findCoverOnMusicBrainz(artist: string, album: string): Promise<string | null> {
-    const userAgent = process.env.MUSICBRAINZ_USER_AGENT;
-    if (!userAgent) return null;
-    try {
-        const musicBrainzUrl = `https://musicbrainz.org/ws/2/release/?query=release:${encodeURIComponent(album)}%20AND%20artist:${encodeURIComponent(artist)}&fmt=json`;
-        const mbResponse = await fetch(musicBrainzUrl, { headers: { 'User-Agent': userAgent } });
-        if (!mbResponse.ok) return null;
-        const mbData = await mbResponse.json();
-        const releaseId = mbData.releases?.[0]?.id;
-        if (!releaseId) return null;
-        const coverArtUrl = `https://coverartarchive.org/release/${releaseId}`;
-        const caResponse = await fetch(coverArtUrl, { headers: { 'Accept': 'application/json' } });
-        if (!caResponse.ok) return null;
-        const caData = await caResponse.json();
-        const frontImage = caData.images?.find((img: { front: boolean }) => img.front);
-        return frontImage?.image || null;
-    } catch (error) {
-        console.error("Error fetching from MusicBrainz/Cover Art Archive:", error);
-        return null;
-    }
-}
-
-async function findCoverArtSequentially(artist: string, album: string): Promise<string | null> {
-    const itunesArt = await findCoverOnItunes(artist, album);
-    if (await isValidImageUrl(itunesArt)) return itunesArt;
-    const musicBrainzArt = await findCoverOnMusicBrainz(artist, album);
-    if (await isValidImageUrl(musicBrainzArt)) return musicBrainzArt;
-    return null;
-}
-
-async function findAllCoverArtSources(artist: string, album: string, lastfmUrl: string | null): Promise<(string | null)[]> {
-    const sourcePromises = [
-        Promise.resolve(lastfmUrl),
-        findCoverOnItunes(artist, album),
-        findCoverOnMusicBrainz(artist, album),
-    ];
-    const results = await Promise.all(sourcePromises);
-    return results.filter(url => url);
-}
+// --- Command Handlers ---
 
-function getImageQualityScore(url: string | null): number {
-    if (!url) return 0;
-    if (url.includes('coverartarchive.org')) return 5000;
-    const match = url.match(/(\d+)x\d+/);
-    if (match && match[1]) return parseInt(match[1], 10);
-    if (url.includes('/i/u/')) {
-        if (url.includes('300x300')) return 300;
-        if (url.includes('174s')) return 174;
+/**
+ * Resolves the cover for one specific album and uploads it to the original message.
+ * Used both for a direct search hit and for a pick from the album menu.
+ */
+async function sendAlbumCoverRc(interaction: InteractionRef, choice: AlbumChoice, hqOnly: boolean) {
+    const resolved = await resolveCoverArt(
+        { artist: choice.artist, album: choice.album, lastfmUrl: choice.imageUrl },
+        { strategy: hqOnly ? 'hq' : 'sequential' },
+    );
+
+    if (!resolved) {
+        await editReply(interaction, { content: `Could not find album art for **${choice.album}** by **${choice.artist}**.`, components: [] });
+        return;
     }
-    return 100;
-}
 
-async function getBestImageUrl(urls: (string | null)[]): Promise<string | null> {
-    const validUrls = [];
-    for (const url of urls) {
-        if (await isValidImageUrl(url)) {
-            validUrls.push(url!);
-        }
-    }
-    if (validUrls.length === 0) return null;
-    validUrls.sort((a, b) => getImageQualityScore(b) - getImageQualityScore(a));
-    return validUrls[0];
+    const imageBuffer = await fetchImageBuffer(resolved.url);
+    // Clear the picker text and menu if this came from a pick.
+    await editReply(interaction, { content: '', components: [], files: [{ name: 'cover.png', data: imageBuffer }] });
 }
 
-// --- Command Handlers ---
-
-async function handleAlbumSearchRc(interaction: APIChatInputApplicationCommandInteraction, initialSearchQuery: string, hqOnly: boolean) {
-    await fetch(`https://discord.com/api/v10/interactions/${interaction.id}/${interaction.token}/callback`, {
-        method: 'POST', body: JSON.stringify({ type: InteractionResponseType.DeferredChannelMessageWithSource }), headers: { 'Content-Type': 'application/json' },
-    });
-
-    const apiKey = process.env.LASTFM_API_KEY;
-    let finalAlbumArtUrl: string | null = null;
-
+async function handleAlbumSearchRc(interaction: APIChatInputApplicationCommandInteraction, initialSearchQuery: string, artistFilter: string | undefined, hqOnly: boolean) {
     const searchQueries = [initialSearchQuery, normalizeString(initialSearchQuery)].filter((v, i, a) => a.indexOf(v) === i);
 
     try {
-        for (const query of searchQueries) {
-            const apiUrl = `https://ws.audioscrobbler.com/2.0/?method=album.search&album=${encodeURIComponent(query)}&api_key=${apiKey}&format=json&limit=1`;
-            const response = await fetch(apiUrl);
-            const data = await response.json();
+        let decision: ReturnType<typeof chooseAlbum> = null;
 
-            if (data.error || !data.results?.albummatches?.album?.[0]) continue;
-
-            const album = data.results.albummatches.album[0];
-            const artist = album.artist;
-            const albumName = album.name;
-            const lastfmAlbumArtUrl = album.image.find((img: { size: string; }) => img.size === 'extralarge')?.['#text'];
-
-            if (hqOnly) {
-                const allUrls = await findAllCoverArtSources(artist, albumName, lastfmAlbumArtUrl);
-                finalAlbumArtUrl = await getBestImageUrl(allUrls);
-            } else {
-                if (await isValidImageUrl(lastfmAlbumArtUrl)) {
-                    finalAlbumArtUrl = lastfmAlbumArtUrl;
-                } else {
-                    finalAlbumArtUrl = await findCoverArtSequentially(artist, albumName);
-                }
-            }
+        for (const query of searchQueries) {
+            const { items: matches } = await searchAlbums(query, { limit: 10 });
+            decision = chooseAlbum(matches, query, artistFilter);
+            if (decision) break;
+        }
 
-            if (finalAlbumArtUrl) break;
+        if (!decision) {
+            await editReply(interaction, { content: `Could not find album art for \`${initialSearchQuery}\`.` });
+            return;
         }
 
-        if (finalAlbumArtUrl) {
-            finalAlbumArtUrl = finalAlbumArtUrl.replace(/\/\d+x\d+\//, "/1000x1000/");
-            const imageBuffer = await fetchImageBuffer(finalAlbumArtUrl);
-            
-            const formData = new FormData();
-            formData.append('file', new Blob([imageBuffer]), 'cover.png');
-            await fetch(`https://discord.com/api/v10/webhooks/${interaction.application_id}/${interaction.token}/messages/@original`, {
-                method: 'PATCH', body: formData,
-            });
-        } else {
-            const content = `Could not find album art for \`${initialSearchQuery}\`.`;
-            await fetch(`https://discord.com/api/v10/webhooks/${interaction.application_id}/${interaction.token}/messages/@original`, {
-                method: 'PATCH', body: JSON.stringify({ content }), headers: { 'Content-Type': 'application/json' },
-            });
+        if ('match' in decision) {
+            await sendAlbumCoverRc(interaction, decision.match, hqOnly);
+            return;
         }
+
+        const components = await createAlbumPicker('rc', {
+            ownerId: interaction.member!.user.id,
+            query: initialSearchQuery,
+            hqOnly,
+            choices: decision.choices,
+        });
+        await editReply(interaction, { content: `Found several albums matching \`${initialSearchQuery}\`. Which one did you mean?`, components });
     } catch (error) {
         console.error(error);
-        await fetch(`https://discord.com/api/v10/webhooks/${interaction.application_id}/${interaction.token}/messages/@original`, {
-            method: 'PATCH', body: JSON.stringify({ content: 'An error occurred while processing your request.' }), headers: { 'Content-Type': 'application/json' },
+        await editReply(interaction, { content: describeLastFmError(error, 'An error occurred while processing your request.') });
+    }
+}
+
+/**
+ * Handles a pick from the album menu posted by `/rc search`.
+ */
+async function handleRcPick(interaction: APIMessageComponentSelectMenuInteraction, { args }: ComponentContext) {
+    const [pickerId] = args;
+    const state = await getAlbumPicker(pickerId);
+    // A value that isn't one of the stored choices can only come from a stale menu.
+    const choice = state?.choices[Number(interaction.data.values[0])];
+
+    if (!state || !choice) {
+        return NextResponse.json({
+            type: InteractionResponseType.UpdateMessage,
+            data: { content: 'This search has expired. Please run `/rc` again.', components: [] },
         });
     }
+
+    return deferWork(interaction, async () => {
+        await deleteAlbumPicker(pickerId);
+        await sendAlbumCoverRc(interaction, choice, state.hqOnly);
+    }, { update: true, errorMessage: 'An error occurred while processing your request.' });
 }
 
 async function handleUserScrobbleRc(interaction: APIChatInputApplicationCommandInteraction, lastfmUsername: string, hqOnly: boolean) {
-    await fetch(`https://discord.com/api/v10/interactions/${interaction.id}/${interaction.token}/callback`, {
-        method: 'POST', body: JSON.stringify({ type: InteractionResponseType.DeferredChannelMessageWithSource }), headers: { 'Content-Type': 'application/json' },
-    });
-
-    const apiKey = process.env.LASTFM_API_KEY;
-    const apiUrl = `https://ws.audioscrobbler.com/2.0/?method=user.getrecenttracks&user=${lastfmUsername}&api_key=${apiKey}&format=json&limit=1`;
-    
     try {
-        const response = await fetch(apiUrl);
-        const data = await response.json();
+        const { items: recentTracks } = await getRecentTracks(lastfmUsername, { limit: 1 });
 
-        if (data.error || !data.recenttracks || data.recenttracks.track.length === 0) {
-            await fetch(`https://discord.com/api/v10/webhooks/${interaction.application_id}/${interaction.token}/messages/@original`, {
-                method: 'PATCH', body: JSON.stringify({ content: `Could not find any recent tracks for user \`${lastfmUsername}\`.` }), headers: { 'Content-Type': 'application/json' },
-            });
+        if (recentTracks.length === 0) {
+            await editReply(interaction, { content: `Could not find any recent tracks for user \`${lastfmUsername}\`.` });
             return;
         }
         
-        const track = data.recenttracks.track[0];
+        const track = recentTracks[0];
         const artist = track.artist['#text'];
         const albumName = track.album['#text'];
-        const lastfmAlbumArtUrl = track.image.find((img: { size: string; }) => img.size === 'extralarge')?.['#text'];
-        let finalAlbumArtUrl: string | null = null;
-
-        if (hqOnly) {
-            const allUrls = await findAllCoverArtSources(artist, albumName, lastfmAlbumArtUrl);
-            finalAlbumArtUrl = await getBestImageUrl(allUrls);
-        } else {
-            if (await isValidImageUrl(lastfmAlbumArtUrl)) {
-                finalAlbumArtUrl = lastfmAlbumArtUrl;
-            } else {
-                finalAlbumArtUrl = await findCoverArtSequentially(artist, albumName);
-            }
-        }
+        const lastfmAlbumArtUrl = getLastFmImageUrl(track.image) ?? null;
+        const resolved = await resolveCoverArt(
+            { artist, album: albumName, lastfmUrl: lastfmAlbumArtUrl },
+            { strategy: hqOnly ? 'hq' : 'sequential' },
+        );
+        const finalAlbumArtUrl = resolved?.url ?? null;
 
         if (!finalAlbumArtUrl) {
-            await fetch(`https://discord.com/api/v10/webhooks/${interaction.application_id}/${interaction.token}/messages/@original`, {
-                method: 'PATCH', body: JSON.stringify({ content: `Could not find album art for **${track.name}** by **${artist}**.` }), headers: { 'Content-Type': 'application/json' },
-            });
+            await editReply(interaction, { content: `Could not find album art for **${track.name}** by **${artist}**.` });
             return;
         }
 
-        finalAlbumArtUrl = finalAlbumArtUrl.replace(/\/\d+x\d+\//, "/1000x1000/");
         const imageBuffer = await fetchImageBuffer(finalAlbumArtUrl);
-        const formData = new FormData();
-        formData.append('file', new Blob([imageBuffer]), 'cover.png');
-
-        await fetch(`https://discord.com/api/v10/webhooks/${interaction.application_id}/${interaction.token}/messages/@original`, {
-            method: 'PATCH', body: formData,
-        });
+        await editReply(interaction, { files: [{ name: 'cover.png', data: imageBuffer }] });
     } catch (error) {
         console.error(error);
-        await fetch(`https://discord.com/api/v10/webhooks/${interaction.application_id}/${interaction.token}/messages/@original`, {
-            method: 'PATCH', body: JSON.stringify({ content: 'An error occurred while fetching data from Last.fm.' }), headers: { 'Content-Type': 'application/json' },
-        });
+        await editReply(interaction, { content: describeLastFmError(error, 'An error occurred while fetching data from Last.fm.') });
     }
 }
 
@@ -245,16 +143,16 @@ export async function handleRc(interaction: APIChatInputApplicationCommandIntera
     const options = interaction.data.options as (APIApplicationCommandInteractionDataStringOption | APIApplicationCommandInteractionDataBooleanOption)[] | undefined;
     
     const searchOption = options?.find(opt => opt.name === 'search') as APIApplicationCommandInteractionDataStringOption | undefined;
+    const artistOption = options?.find(opt => opt.name === 'artist') as APIApplicationCommandInteractionDataStringOption | undefined;
     const hqOnlyOption = options?.find(opt => opt.name === 'hq_only') as APIApplicationCommandInteractionDataBooleanOption | undefined;
     const hqOnly = hqOnlyOption?.value ?? false;
 
     if (searchOption?.value) {
-        await handleAlbumSearchRc(interaction, searchOption.value, hqOnly);
-        return new NextResponse(null, { status: 204 });
+        return deferWork(interaction, () => handleAlbumSearchRc(interaction, searchOption.value, artistOption?.value, hqOnly));
     }
 
     const discordUserId = interaction.member!.user.id;
-    const lastfmUsername = await kv.get(discordUserId) as string | null;
+    const lastfmUsername = await getLastFmUsername(discordUserId, interaction.guild_id);
 
     if (!lastfmUsername) {
         return NextResponse.json({
@@ -266,6 +164,37 @@ export async function handleRc(interaction: APIChatInputApplicationCommandIntera
         });
     }
     
-    await handleUserScrobbleRc(interaction, lastfmUsername, hqOnly);
-    return new NextResponse(null, { status: 204 });
-}
\ No newline at end of file
+    return deferWork(interaction, () => handleUserScrobbleRc(interaction, lastfmUsername, hqOnly));
+}
+
+export const rcCommand = defineCommand({
+    name: 'rc',
+    description: 'Raw Cover - displays the raw album art for a track or search.',
+    options: [
+        {
+            name: 'search',
+            description: 'Search for an album on Last.fm.',
+            type: ApplicationCommandOptionType.String,
+            required: false,
+            autocomplete: true,
+        },
+        {
+            name: 'artist',
+            description: 'With search, only show albums by this artist.',
+            type: ApplicationCommandOptionType.String,
+            required: false,
+            autocomplete: true,
+        },
+        {
+            name: 'hq_only',
+            description: 'If true, searches all sources to find the highest quality cover.',
+            type: ApplicationCommandOptionType.Boolean,
+            required: false,
+        },
+    ],
+    execute: handleRc,
+    components: [
+        defineComponent({ prefix: 'rc:pick', kind: 'select', handle: handleRcPick, expiredMessage: 'This search has expired. Please run `/rc` again.' }),
+    ],
+    autocomplete: musicAutocomplete({ search: 'album', artist: 'artist' }),
+});
@@ -5,8 +5,10 @@ import {
     // Import the more specific type
     APIChatInputApplicationCommandInteraction,
     APIApplicationCommandInteractionDataStringOption,
+    ApplicationCommandOptionType,
 } from 'discord-api-types/v10';
-import { kv } from '@vercel/kv';
+import { defineCommand, getBooleanOption } from '@/utils/commands';
+import { leaveGuild, registerUser } from '@/utils/storage';
 
 // Use the specific type in the function signature
 export async function handleRegister(interaction: APIChatInputApplicationCommandInteraction) {
@@ -16,10 +18,44 @@ export async function handleRegister(interaction: APIChatInputApplicationCommand
     const usernameOption = interaction.data.options?.[0] as APIApplicationCommandInteractionDataStringOption;
     const lastfmUsername = usernameOption.value;
 
-    await kv.set(discordUserId, lastfmUsername);
+    // Server stats are opt-out: registering in a server counts you in it unless you say otherwise.
+    const guildId = interaction.guild_id;
+    const includeInServer = getBooleanOption(interaction.data.options, 'server_stats') ?? true;
+
+    await registerUser(discordUserId, lastfmUsername, includeInServer ? guildId : undefined);
+    if (guildId && !includeInServer) {
+        await leaveGuild(discordUserId, guildId);
+    }
+
+    let content = `✅ Success! Your Last.fm username has been saved as \`${lastfmUsername}\`.`;
+    if (guildId) {
+        content += includeInServer
+            ? ' You are included in this server\'s charts and league.'
+            : ' You are not included in this server\'s charts and league.';
+    }
 
     return NextResponse.json({
         type: InteractionResponseType.ChannelMessageWithSource,
-        data: { content: `✅ Success! Your Last.fm username has been saved as \`${lastfmUsername}\`.` },
+        data: { content },
     });
-}
\ No newline at end of file
+}
+
+export const registerCommand = defineCommand({
+    name: 'register',
+    description: 'Register your Last.fm username with the bot.',
+    options: [
+        {
+            name: 'username',
+            description: 'Your Last.fm username.',
+            type: ApplicationCommandOptionType.String,
+            required: true,
+        },
+        {
+            name: 'server_stats',
+            description: "Include your scrobbles in this server's charts and league (default: true).",
+            type: ApplicationCommandOptionType.Boolean,
+            required: false,
+        },
+    ],
+    execute: handleRegister,
+});
@@ -0,0 +1,49 @@
+// app/commands/registry.ts
+import { CommandDefinition } from '@/utils/commands';
+import { ComponentRoute } from '@/utils/components';
+
+import { pingCommand } from '@/app/commands/ping';
+import { registerCommand } from '@/app/commands/register';
+import { fmCommand } from '@/app/commands/fm';
+import { coverCommand } from '@/app/commands/cover';
+import { rcCommand } from '@/app/commands/rc';
+import { countdownCommand } from '@/app/commands/countdown';
+import { profileCommand } from '@/app/commands/profile';
+import { chartCommand, serverChartCommand } from '@/app/commands/chart';
+import { chartThemeCommand } from '@/app/commands/chart-theme';
+import { leagueCommand } from '@/app/commands/league';
+
+// development
+import { devCommand } from '@/app/sandbox/dev';
+
+/**
+ * Every slash command the bot knows about. Both the interactions route and
+ * `register-commands.ts` read from this list, so adding a command here is all
+ * that's needed to wire it up.
+ */
+export const commands: CommandDefinition[] = [
+    pingCommand,
+    fmCommand,
+    registerCommand,
+    devCommand,
+    countdownCommand,
+    coverCommand,
+    rcCommand,
+    profileCommand,
+    chartCommand,
+    leagueCommand,
+    serverChartCommand,
+    chartThemeCommand,
+];
+
+const commandsByName = new Map(commands.map(command => [command.data.name, command]));
+
+export function getCommand(name: string): CommandDefinition | undefined {
+    return commandsByName.get(name);
+}
+
+/**
+ * The component handlers of every command, for the interactions route to dispatch
+ * buttons, select menus and modal submissions to by custom_id prefix.
+ */
+export const componentRoutes: ComponentRoute[] = commands.flatMap(command => command.components ?? []);
@@ -1,75 +1,206 @@
-import { NextResponse } from 'next/server';
+// app/sandbox/dev.ts
+import { after, NextResponse } from 'next/server';
 import {
     InteractionResponseType,
+    APIApplicationCommandAutocompleteInteraction,
     APIChatInputApplicationCommandInteraction,
-    APIApplicationCommandInteractionDataStringOption,
+    ApplicationCommandOptionType,
 } from 'discord-api-types/v10';
+import { defineCommand, getBooleanOption, getFocusedOption, getStringOption } from '@/utils/commands';
+import { autocompleteResponse } from '@/utils/autocomplete';
+import { captureDiscordRequests, deferWork, editReply, followUp } from '@/utils/discord';
+import { captureKvWrites, getReplay, listReplays, saveReplay, SavedInteraction } from '@/utils/storage';
+import { isDeveloper } from '@/utils/permissions';
+import { commands, getCommand } from '@/app/commands/registry';
+import { describeInvocation, parseSandboxOptions, SandboxOptionError } from './options';
 
-// Import your testable commands here
-import { handleCover } from './cover.dev';
-import { handleFm } from './fm.dev';
+// `/dev key:<command> value:"<options>"` runs any registered command as if it had
+// been invoked with those options. The response goes to the `/dev` interaction, so
+// the command behaves exactly as it would for real, as the developer.
+
+const REPLAY_KEY = 'replay';
+const REPLAY_NAME = /^[\w-]{1,32}$/;
+
+function reply(content: string) {
+    return NextResponse.json({
+        type: InteractionResponseType.ChannelMessageWithSource,
+        data: { content, flags: 1 << 6 },
+    });
+}
+
+async function listReplaysReply() {
+    const replays = await listReplays();
+    if (replays.length === 0) {
+        return reply('No saved interactions yet. Add `save:<name>` to a `/dev` run to save one.');
+    }
+    const lines = replays.map(replay => `\`${replay.name}\` — ${describeInvocation(replay.data.name, replay.data.options)}`);
+    return reply(`**Saved interactions**\n${lines.join('\n')}`);
+}
 
 /**
- * Routes developer commands based on a key.
+ * Reads a command's initial response back, for the dry run report.
+ */
+async function readResponse(response: Response) {
+    const body = response.headers.get('content-type')?.includes('application/json')
+        ? await response.json()
+        : await response.text();
+    return { status: response.status, body };
+}
+
+/**
+ * Runs the command with its Discord requests and KV writes captured and replies with
+ * everything it would have sent and stored as an ephemeral JSON file. Dry runs still
+ * read KV and call Last.fm and friends.
+ */
+function dryRun(interaction: APIChatInputApplicationCommandInteraction, sandboxed: APIChatInputApplicationCommandInteraction, execute: (i: APIChatInputApplicationCommandInteraction) => Promise<NextResponse> | NextResponse) {
+    const invocation = describeInvocation(sandboxed.data.name, sandboxed.data.options);
+
+    return deferWork(interaction, async () => {
+        const { result: { result: response, requests }, writes } = await captureKvWrites(() =>
+            captureDiscordRequests(async () => readResponse(await execute(sandboxed))));
+        const report = { invocation, data: sandboxed.data, response, requests, writes };
+
+        await editReply(interaction, {
+            content: `Dry run of \`${invocation}\`: the initial response and ${requests.length} Discord request${requests.length === 1 ? '' : 's'}.`,
+            files: [{ name: `${sandboxed.data.name}.dry-run.json`, data: Buffer.from(JSON.stringify(report, null, 4)) }],
+        });
+    }, { ephemeral: true, errorMessage: `The dry run of \`${invocation}\` failed. Check the logs.` });
+}
+
+/**
+ * Runs a registered command (or a saved interaction) in sandbox mode.
  * This command is restricted to users whose IDs are in DEVELOPER_IDS.
  */
 export async function handleDev(interaction: APIChatInputApplicationCommandInteraction) {
     // --- 1. Authorization ---
-    const developerIds = (process.env.DEVELOPER_IDS || '').split(',');
     const callingUserId = interaction.member?.user?.id;
 
-    if (!callingUserId || !developerIds.includes(callingUserId)) {
-        return NextResponse.json({
-            type: InteractionResponseType.ChannelMessageWithSource,
-            data: {
-                content: '🚫 This command is restricted to developers only.',
-                flags: 1 << 6, // Ephemeral message
-            },
-        });
+    if (!callingUserId || !isDeveloper(callingUserId)) {
+        return reply('🚫 This command is restricted to developers only.');
     }
 
-    // --- 2. Get the Command Key and Value ---
-    const options = interaction.data.options as APIApplicationCommandInteractionDataStringOption[];
-    const commandKey = options.find(opt => opt.name === 'key')?.value;
-    const commandValue = options.find(opt => opt.name === 'value')?.value; // Optional value
-
-    if (!commandKey) {
-        return NextResponse.json({
-            type: InteractionResponseType.ChannelMessageWithSource,
-            data: {
-                content: 'You must provide a command key. Available keys: `test-cover`, `test-ping`.',
-                flags: 1 << 6,
-            },
-        });
+    // --- 2. Work out what to run ---
+    const options = interaction.data.options;
+    const commandKey = getStringOption(options, 'key')?.trim().toLowerCase() ?? '';
+    const commandValue = getStringOption(options, 'value') ?? '';
+    const saveAs = getStringOption(options, 'save');
+    const isDryRun = getBooleanOption(options, 'dry_run') ?? false;
+
+    let data: SavedInteraction['data'];
+
+    if (commandKey === REPLAY_KEY) {
+        const name = commandValue.trim();
+        if (!name) {
+            return listReplaysReply();
+        }
+        const saved = await getReplay(name);
+        if (!saved) {
+            return reply(`No saved interaction called \`${name}\`.`);
+        }
+        data = saved.data;
+    } else {
+        const command = getCommand(commandKey);
+        if (!command || command.data.name === devCommand.data.name) {
+            return reply(`Unknown developer command key: \`${commandKey}\`. Use a command name, e.g. \`chart\`, or \`${REPLAY_KEY}\`.`);
+        }
+        try {
+            data = { name: command.data.name, ...parseSandboxOptions(command.data.name, command.data.options, commandValue) };
+        } catch (error) {
+            if (error instanceof SandboxOptionError) return reply(`❌ ${error.message}`);
+            throw error;
+        }
     }
 
-    console.log(`Developer command triggered: '${commandKey}' by user ${callingUserId}`);
-
-    // --- 3. Route to the Test Command ---
-    switch (commandKey.toLowerCase()) {
-        case 'test-cover':
-            // You might need to adjust the interaction object passed to handleCover
-            // if it expects specific options that aren't present in the /dev command.
-            // For now, we'll assume it can run without extra options for a default test.
-            return handleCover(interaction);
-
-        case 'test-fm':
-            // You might need to adjust the interaction object passed to handleCover
-            // if it expects specific options that aren't present in the /dev command.
-            // For now, we'll assume it can run without extra options for a default test.
-            return handleFm(interaction);
-
-        // Add more test cases here
-        // case 'test-new-feature':
-        //     return handleNewFeature(interaction, commandValue);
-
-        default:
-            return NextResponse.json({
-                type: InteractionResponseType.ChannelMessageWithSource,
-                data: {
-                    content: `Unknown developer command key: \`${commandKey}\`.`,
-                    flags: 1 << 6,
-                },
-            });
+    const command = getCommand(data.name);
+    if (!command) {
+        return reply(`\`/${data.name}\` no longer exists.`);
     }
-}
\ No newline at end of file
+
+    if (saveAs !== undefined) {
+        if (!REPLAY_NAME.test(saveAs)) {
+            return reply('❌ Saved interaction names can only use letters, numbers, `-` and `_`, up to 32 characters.');
+        }
+        await saveReplay(saveAs, { data, savedBy: callingUserId, savedAt: Date.now() });
+    }
+
+    // The command answers the `/dev` interaction, as the developer.
+    const sandboxed: APIChatInputApplicationCommandInteraction = {
+        ...interaction,
+        data: { ...interaction.data, ...data, options: data.options, resolved: data.resolved },
+    };
+
+    console.log(`Developer sandbox run of '${describeInvocation(data.name, data.options)}' by user ${callingUserId}${isDryRun ? ' (dry run)' : ''}`);
+
+    // --- 3. Run it ---
+    if (isDryRun) {
+        return dryRun(interaction, sandboxed, command.execute);
+    }
+
+    if (saveAs !== undefined) {
+        after(() => followUp(interaction, { content: `Saved as \`${saveAs}\`. Replay it with \`/dev key:${REPLAY_KEY} value:${saveAs}\`.`, ephemeral: true }));
+    }
+    return command.execute(sandboxed);
+}
+
+/**
+ * Suggests command names for `key`, and saved interactions for `value` when replaying.
+ */
+async function autocompleteDev(interaction: APIApplicationCommandAutocompleteInteraction) {
+    const focused = getFocusedOption(interaction.data.options);
+    const search = focused?.value.trim().toLowerCase() ?? '';
+
+    if (focused?.name === 'key') {
+        const names = [...commands.map(command => command.data.name).filter(name => name !== devCommand.data.name), REPLAY_KEY];
+        return autocompleteResponse(names
+            .filter(name => name.includes(search))
+            .slice(0, 25)
+            .map(name => ({ name, value: name })));
+    }
+
+    if (focused?.name === 'value' && getStringOption(focused.options, 'key')?.trim().toLowerCase() === REPLAY_KEY) {
+        const replays = await listReplays();
+        return autocompleteResponse(replays
+            .filter(replay => replay.name.toLowerCase().includes(search))
+            .slice(0, 25)
+            .map(replay => ({ name: `${replay.name} — ${describeInvocation(replay.data.name, replay.data.options)}`.substring(0, 100), value: replay.name })));
+    }
+
+    return autocompleteResponse([]);
+}
+
+export const devCommand = defineCommand({
+    name: 'dev',
+    description: 'Developer-only commands for testing.',
+    options: [
+        {
+            name: 'key',
+            description: 'The command to run, or "replay" to run a saved interaction',
+            type: ApplicationCommandOptionType.String,
+            required: true,
+            autocomplete: true,
+        },
+        {
+            name: 'value',
+            description: 'Options as name=value pairs, e.g. size=5x5 period=1month. For replay, the saved name.',
+            type: ApplicationCommandOptionType.String,
+            required: false,
+            autocomplete: true,
+        },
+        {
+            name: 'dry_run',
+            description: 'Return what the command would send and store as a JSON file instead of doing it.',
+            type: ApplicationCommandOptionType.Boolean,
+            required: false,
+        },
+        {
+            name: 'save',
+            description: 'Save this invocation under a name to replay later.',
+            type: ApplicationCommandOptionType.String,
+            required: false,
+        },
+    ],
+    // Only registered to the development server.
+    scope: 'guild',
+    execute: handleDev,
+    autocomplete: autocompleteDev,
+});
@@ -0,0 +1,195 @@
+// app/sandbox/options.ts
+import {
+    APIApplicationCommandInteractionDataBasicOption,
+    APIApplicationCommandInteractionDataOption,
+    APIApplicationCommandOption,
+    APIAttachment,
+    APIChatInputApplicationCommandInteractionData,
+    ApplicationCommandOptionType,
+} from 'discord-api-types/v10';
+
+/**
+ * Thrown when `/dev`'s `value` doesn't fit the schema of the command being run.
+ * The message is shown to the developer as is.
+ */
+export class SandboxOptionError extends Error {
+    name = 'SandboxOptionError';
+}
+
+export type SandboxData = Pick<APIChatInputApplicationCommandInteractionData, 'options' | 'resolved'>;
+
+// Attachments are given as a URL; the handlers that read them check the content type.
+const CONTENT_TYPES: Record<string, string> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    txt: 'text/plain',
+    xml: 'application/xml',
+    html: 'text/html',
+};
+
+/**
+ * Splits on whitespace, keeping quoted parts together: `user="some one" size=5x5`
+ * gives `user=some one` and `size=5x5`.
+ */
+function tokenize(input: string): string[] {
+    const tokens = input.match(/(?:[^\s"']+|"[^"]*"|'[^']*')+/g) ?? [];
+    return tokens.map(token => token.replace(/"([^"]*)"|'([^']*)'/g, '$1$2'));
+}
+
+function listNames(options: APIApplicationCommandOption[]) {
+    return options.map(option => `\`${option.name}\``).join(', ');
+}
+
+function isSubcommand(option: APIApplicationCommandOption) {
+    return option.type === ApplicationCommandOptionType.Subcommand || option.type === ApplicationCommandOptionType.SubcommandGroup;
+}
+
+function toAttachment(name: string, url: string): APIAttachment {
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        throw new SandboxOptionError(`\`${name}\` takes the URL of a file.`);
+    }
+    const filename = parsed.pathname.split('/').pop() || name;
+    const contentType = CONTENT_TYPES[filename.split('.').pop()?.toLowerCase() ?? ''];
+    return {
+        id: `sandbox-${name}`,
+        filename,
+        url,
+        proxy_url: url,
+        size: 0,
+        ...(contentType ? { content_type: contentType } : {}),
+    };
+}
+
+function toValue(option: APIApplicationCommandOption, raw: string): string | number | boolean {
+    switch (option.type) {
+        case ApplicationCommandOptionType.Boolean: {
+            const value = raw.toLowerCase();
+            if (['true', 'yes', '1'].includes(value)) return true;
+            if (['false', 'no', '0'].includes(value)) return false;
+            throw new SandboxOptionError(`\`${option.name}\` takes true or false, not \`${raw}\`.`);
+        }
+        case ApplicationCommandOptionType.Integer:
+        case ApplicationCommandOptionType.Number: {
+            const value = Number(raw);
+            const integer = option.type === ApplicationCommandOptionType.Integer;
+            if (raw === '' || !Number.isFinite(value) || (integer && !Number.isInteger(value))) {
+                throw new SandboxOptionError(`\`${option.name}\` takes ${integer ? 'a whole number' : 'a number'}, not \`${raw}\`.`);
+            }
+            return value;
+        }
+        case ApplicationCommandOptionType.User:
+        case ApplicationCommandOptionType.Channel:
+        case ApplicationCommandOptionType.Role:
+        case ApplicationCommandOptionType.Mentionable: {
+            // Accepts mentions as well as bare IDs.
+            const id = raw.replace(/^<[@#]&?!?(\d+)>$/, '$1');
+            if (!/^\d{17,20}$/.test(id)) {
+                throw new SandboxOptionError(`\`${option.name}\` takes an ID or a mention, not \`${raw}\`.`);
+            }
+            return id;
+        }
+        default:
+            return raw;
+    }
+}
+
+function checkChoice(option: APIApplicationCommandOption, value: string | number | boolean) {
+    if (!('choices' in option) || !option.choices?.length) return value;
+    // Either the value or the label Discord shows for it.
+    const choice = option.choices.find(c => c.value === value)
+        ?? option.choices.find(c => c.name.toLowerCase() === String(value).toLowerCase());
+    if (!choice) {
+        const allowed = option.choices.map(c => `\`${c.value}\``).join(', ');
+        throw new SandboxOptionError(`\`${option.name}\` must be one of ${allowed}.`);
+    }
+    return choice.value;
+}
+
+/**
+ * Turns `/dev`'s `value` into the options Discord would have sent for `command`.
+ * Leading bare words pick the subcommand group and subcommand, the rest are
+ * `name=value` pairs checked and converted against the command's schema, e.g.
+ * `find playlist=https://...` for `/league find`.
+ */
+export function parseSandboxOptions(command: string, schema: APIApplicationCommandOption[] = [], input = ''): SandboxData {
+    const tokens = tokenize(input);
+    const path: APIApplicationCommandOption[] = [];
+    let scope = schema;
+
+    while (scope.some(isSubcommand)) {
+        const name = tokens[0]?.includes('=') ? undefined : tokens[0];
+        const next = scope.find(option => isSubcommand(option) && option.name === name);
+        if (!next) {
+            const usage = [command, ...path.map(option => option.name)].join(' ');
+            throw new SandboxOptionError(`\`/${usage}\` needs one of ${listNames(scope.filter(isSubcommand))} first.`);
+        }
+        tokens.shift();
+        path.push(next);
+        scope = ('options' in next ? next.options ?? [] : []) as APIApplicationCommandOption[];
+    }
+
+    const attachments: Record<string, APIAttachment> = {};
+    const options: APIApplicationCommandInteractionDataBasicOption[] = [];
+
+    for (const token of tokens) {
+        const separator = token.indexOf('=');
+        if (separator <= 0) {
+            throw new SandboxOptionError(`Expected \`name=value\`, got \`${token}\`.`);
+        }
+        const name = token.substring(0, separator);
+        const raw = token.substring(separator + 1);
+        const option = scope.find(o => o.name === name);
+        if (!option) {
+            const known = scope.length > 0 ? ` Options: ${listNames(scope)}.` : '';
+            throw new SandboxOptionError(`\`/${command}\` has no option \`${name}\`.${known}`);
+        }
+
+        let value: string | number | boolean;
+        if (option.type === ApplicationCommandOptionType.Attachment) {
+            const attachment = toAttachment(name, raw);
+            attachments[attachment.id] = attachment;
+            value = attachment.id;
+        } else {
+            value = checkChoice(option, toValue(option, raw));
+        }
+        options.push({ name, type: option.type, value } as APIApplicationCommandInteractionDataBasicOption);
+    }
+
+    const missing = scope.filter(option => 'required' in option && option.required && !options.some(o => o.name === option.name));
+    if (missing.length > 0) {
+        throw new SandboxOptionError(`Missing required option${missing.length > 1 ? 's' : ''} ${listNames(missing)}.`);
+    }
+
+    // Wrap the options in the subcommand (and group) they belong to, innermost first.
+    const nested = path.reduceRight<APIApplicationCommandInteractionDataOption[]>(
+        (inner, sub) => [{ name: sub.name, type: sub.type, options: inner } as APIApplicationCommandInteractionDataOption],
+        options,
+    );
+
+    return {
+        ...(nested.length > 0 ? { options: nested } : {}),
+        ...(Object.keys(attachments).length > 0 ? { resolved: { attachments } } : {}),
+    };
+}
+
+/**
+ * How the invocation would look typed out, e.g. `/chart size:5x5 period:1month`.
+ */
+export function describeInvocation(command: string, options: APIApplicationCommandInteractionDataOption[] = []): string {
+    const parts = [`/${command}`];
+    let scope = options;
+    while (scope[0] && (scope[0].type === ApplicationCommandOptionType.Subcommand || scope[0].type === ApplicationCommandOptionType.SubcommandGroup)) {
+        parts.push(scope[0].name);
+        scope = scope[0].options ?? [];
+    }
+    for (const option of scope) {
+        if ('value' in option) parts.push(`${option.name}:${option.value}`);
+    }
+    return parts.join(' ');
+}
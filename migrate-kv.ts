@@ -0,0 +1,33 @@
+// migrate-kv.ts
+// Usage:
+//   npm run migrate-kv                  brings the KV store up to the current SCHEMA_VERSION
+//   npm run migrate-kv -- --dry-run     prints what would change without writing anything
+//   npm run migrate-kv -- --guild=ID    opts migrated users into that guild's server stats (defaults to DISCORD_GUILD_ID)
+//
+// The migration itself lives in `utils/storage/migrate.ts`. A guild is required when
+// coming from version 1, see there for why.
+import { config } from 'dotenv';
+
+config({ path: '.env.local' });
+
+const args = process.argv.slice(2);
+const dryRun = args.includes('--dry-run');
+const guildId = args.find(arg => arg.startsWith('--guild='))?.split('=')[1] || process.env.DISCORD_GUILD_ID;
+
+async function main() {
+    // Imported after dotenv so the KV client sees the credentials from .env.local.
+    const { migrateKv, MigrationError } = await import('@/utils/storage/migrate');
+
+    try {
+        await migrateKv({ guildId, dryRun });
+    } catch (error) {
+        if (!(error instanceof MigrationError)) throw error;
+        console.error(error.message);
+        process.exitCode = 1;
+    }
+}
+
+main().catch(error => {
+    console.error(error);
+    process.exit(1);
+});
@@ -0,0 +1,136 @@
+// register-commands.ts
+// Usage:
+//   npm run register-commands                 registers global commands, plus guild commands if DISCORD_GUILD_ID is set
+//   npm run register-commands -- --dry-run    prints what would change without touching Discord
+//   npm run register-commands -- --guild=ID   overrides DISCORD_GUILD_ID for guild-scoped commands
+import { config } from 'dotenv';
+import {
+    APIApplicationCommand,
+    RESTPostAPIChatInputApplicationCommandsJSONBody,
+} from 'discord-api-types/v10';
+import { commands } from '@/app/commands/registry';
+import { CommandScope } from '@/utils/commands';
+
+config({ path: '.env.local' });
+
+const token = process.env.DISCORD_BOT_TOKEN;
+const applicationId = process.env.DISCORD_APPLICATION_ID;
+
+if (!token || !applicationId) {
+    throw new Error('Please define DISCORD_BOT_TOKEN and DISCORD_APPLICATION_ID in your .env.local file');
+}
+
+const args = process.argv.slice(2);
+const dryRun = args.includes('--dry-run');
+const guildId = args.find(arg => arg.startsWith('--guild='))?.split('=')[1] || process.env.DISCORD_GUILD_ID;
+
+const headers = {
+    "Authorization": `Bot ${token}`,
+    "Content-Type": "application/json",
+};
+
+function commandsUrl(scope: CommandScope) {
+    const base = `https://discord.com/api/v10/applications/${applicationId}`;
+    return scope === 'guild' ? `${base}/guilds/${guildId}/commands` : `${base}/commands`;
+}
+
+// --- Diffing ---
+
+// Discord echoes back a lot of fields we never send (ids, versions, localizations...),
+// so both sides are reduced to the fields we actually define before comparing.
+const COMPARED_KEYS = [
+    'type', 'name', 'description', 'required', 'choices', 'options', 'autocomplete',
+    'min_value', 'max_value', 'min_length', 'max_length', 'channel_types',
+];
+
+function normalize(value: unknown): unknown {
+    if (Array.isArray(value)) {
+        return value.map(normalize);
+    }
+    if (value && typeof value === 'object') {
+        const result: Record<string, unknown> = {};
+        for (const key of COMPARED_KEYS) {
+            const field = (value as Record<string, unknown>)[key];
+            // `required: false` and an empty options list are Discord's defaults.
+            if (field === undefined || field === false || (Array.isArray(field) && field.length === 0)) continue;
+            result[key] = normalize(field);
+        }
+        return result;
+    }
+    return value;
+}
+
+function normalizeCommand(command: RESTPostAPIChatInputApplicationCommandsJSONBody | APIApplicationCommand) {
+    // Chat input commands are type 1, which Discord fills in when it's omitted.
+    return JSON.stringify(normalize({ type: 1, ...command }));
+}
+
+function diffCommands(local: RESTPostAPIChatInputApplicationCommandsJSONBody[], remote: APIApplicationCommand[]) {
+    const remoteByName = new Map(remote.map(command => [command.name, command]));
+    const localNames = new Set(local.map(command => command.name));
+
+    const added = local.filter(command => !remoteByName.has(command.name)).map(command => command.name);
+    const removed = remote.filter(command => !localNames.has(command.name)).map(command => command.name);
+    const changed = local
+        .filter(command => remoteByName.has(command.name))
+        .filter(command => normalizeCommand(command) !== normalizeCommand(remoteByName.get(command.name)!))
+        .map(command => command.name);
+
+    return { added, removed, changed };
+}
+
+// --- Registration ---
+
+async function syncScope(scope: CommandScope) {
+    const local = commands.filter(command => command.scope === scope).map(command => command.data);
+    const label = scope === 'guild' ? `guild ${guildId}` : 'global';
+
+    if (scope === 'guild' && !guildId) {
+        if (local.length > 0) {
+            console.warn(`Skipping ${local.length} guild command(s) (${local.map(c => c.name).join(', ')}): DISCORD_GUILD_ID is not set.`);
+        }
+        return;
+    }
+
+    const url = commandsUrl(scope);
+
+    if (dryRun) {
+        const response = await fetch(url, { headers });
+        if (!response.ok) {
+            throw new Error(`Failed to fetch ${label} commands: ${response.status} ${await response.text()}`);
+        }
+        const remote = await response.json() as APIApplicationCommand[];
+        const { added, removed, changed } = diffCommands(local, remote);
+
+        console.log(`[dry run] ${label} commands:`);
+        if (added.length + removed.length + changed.length === 0) {
+            console.log('  up to date.');
+        }
+        added.forEach(name => console.log(`  + ${name}`));
+        removed.forEach(name => console.log(`  - ${name}`));
+        changed.forEach(name => console.log(`  ~ ${name}`));
+        return;
+    }
+
+    const response = await fetch(url, {
+        method: 'PUT',
+        headers: headers,
+        body: JSON.stringify(local),
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+        throw new Error(`Failed to register ${label} commands: ${response.status} ${JSON.stringify(data)}`);
+    }
+    console.log(`Successfully registered ${data.length} ${label} command(s):`, data.map((command: APIApplicationCommand) => command.name).join(', '));
+}
+
+async function main() {
+    await syncScope('global');
+    await syncScope('guild');
+}
+
+main().catch(error => {
+    console.error(error);
+    process.exit(1);
+});
@@ -0,0 +1,77 @@
+// tests/chart-theme.test.ts
+import { beforeEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import sharp from 'sharp';
+import { PermissionFlagsBits } from 'discord-api-types/v10';
+import { getChartTheme, renderChart } from '@/utils/chart-image';
+import { finalEdit, option, otherUser, send, slashCommand, subcommand, TEST_GUILD_ID, testUser } from './helpers/interactions';
+import { resetKv } from './helpers/kv';
+import { imageResponse, onRequest, resetNetwork, serveLastFm } from './helpers/network';
+
+const asModerator = { permissions: String(PermissionFlagsBits.ManageGuild) };
+
+async function pixel(image: Buffer, x: number, y: number) {
+    const { data, info } = await sharp(image).raw().toBuffer({ resolveWithObject: true });
+    const offset = (y * info.width + x) * info.channels;
+    return [...data.subarray(offset, offset + 3)];
+}
+
+beforeEach(async () => {
+    resetNetwork();
+    await resetKv();
+});
+
+test('layers your own theme over the server one', async () => {
+    const server = await send(slashCommand('charttheme', [subcommand('server', [option('background', '#223'), option('gap', 6)])], asModerator));
+    assert.match(server.body.data.content, /^\*\*Server chart theme updated\*\*\nBackground: `#222233`/);
+
+    await send(slashCommand('charttheme', [subcommand('set', [option('font', 'manti'), option('gap', 12)])]));
+
+    const theme = await getChartTheme(testUser.id, TEST_GUILD_ID);
+    assert.deepEqual(theme, { background: '#222233', textColor: '#ffffff', font: 'manti', gap: 12, cornerRadius: 0 });
+    assert.equal((await getChartTheme(otherUser.id, TEST_GUILD_ID)).gap, 6);
+    assert.equal((await getChartTheme(testUser.id)).background, '#141414');
+
+    const shown = await send(slashCommand('charttheme', [subcommand('show')]));
+    assert.match(shown.body.data.content, /Text: `#ffffff` in Manti Sans\nGap between tiles: 12px/);
+
+    await send(slashCommand('charttheme', [subcommand('reset')]));
+    assert.equal((await getChartTheme(testUser.id, TEST_GUILD_ID)).gap, 6);
+});
+
+test('checks colours and who can change the server theme', async () => {
+    const colour = await send(slashCommand('charttheme', [subcommand('set', [option('text_colour', 'teal')])]));
+    assert.equal(colour.body.data.content, '`text_colour` should be a colour like `#1e1e2e`, not `teal`.');
+
+    const empty = await send(slashCommand('charttheme', [subcommand('set')]));
+    assert.equal(empty.body.data.content, 'Pick at least one setting to change.');
+
+    const server = await send(slashCommand('charttheme', [subcommand('server', [option('gap', 4)])]));
+    assert.equal(server.body.data.content, "🚫 Only moderators can change the server's chart theme.");
+    assert.equal((await getChartTheme(undefined, TEST_GUILD_ID)).gap, 0);
+});
+
+test('draws charts in the theme of whoever ran them', async () => {
+    serveLastFm('user.gettopalbums', 'lastfm/user.gettopalbums.json');
+    await send(slashCommand('charttheme', [subcommand('set', [option('background', '#ff0000'), option('gap', 10), option('corners', 50)])]));
+
+    const result = await send(slashCommand('chart', [option('user', 'alice')]));
+
+    const image = finalEdit(result).files[0].data;
+    assert.deepEqual((await sharp(image).metadata()).width, 3 * 300 + 4 * 10);
+    // The gap, and the corner cut off the first tile, both show the background.
+    assert.deepEqual(await pixel(image, 5, 5), [255, 0, 0]);
+    assert.deepEqual(await pixel(image, 14, 14), [255, 0, 0]);
+});
+
+test('takes a cover background from the top tile', async () => {
+    const blue = await sharp({ create: { width: 300, height: 300, channels: 3, background: { r: 30, g: 60, b: 220 } } }).png().toBuffer();
+    onRequest('GET', 'https://images.test/', () => imageResponse(blue));
+    const tiles = [{ title: 'Blue', getImageUrl: async () => 'https://images.test/blue.png' }];
+    const theme = { background: 'cover', textColor: '#ffffff', font: 'courier' as const, gap: 8, cornerRadius: 0 };
+
+    const { image } = await renderChart(tiles, { columns: 1, rows: 1, labels: 'no_names', theme });
+
+    const [r, g, b] = await pixel(image, 2, 2);
+    assert.ok(b > r && b > g, `expected a blue background, got rgb(${r}, ${g}, ${b})`);
+});
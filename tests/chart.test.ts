@@ -0,0 +1,493 @@
+// tests/chart.test.ts
+import { beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import sharp from 'sharp';
+import { InteractionResponseType } from 'discord-api-types/v10';
+import { registerUser, updateGuildSettings } from '@/utils/storage';
+import {
+    arrangeTiles,
+    ChartTile,
+    ChartTooLargeError,
+    describeMovement,
+    DEFAULT_FALLBACK_FONTS,
+    fontStack,
+    getFonts,
+    loadFonts,
+    missingGlyphs,
+    readCoverage,
+    renderChart,
+} from '@/utils/chart-image';
+import { applyMovement, getPeriodBaseline, recordPeriodPositions } from '@/utils/chart-movement';
+import { previousDateRange } from '@/utils/date-ranges';
+import { getRangeChart } from '@/utils/range-charts';
+import { autocomplete, buttonClick, finalEdit, InteractionResult, option, otherUser, send, slashCommand, TEST_GUILD_ID, testUser } from './helpers/interactions';
+import { randomBytes } from 'crypto';
+import { readFile, rm } from 'fs/promises';
+import { resetKv } from './helpers/kv';
+import { imageResponse, jsonResponse, loadFixture, onRequest, requests, resetNetwork, serveImage, serveLastFm } from './helpers/network';
+
+async function imageSize(data: Buffer) {
+    const { width, height } = await sharp(data).metadata();
+    return { width, height };
+}
+
+beforeEach(async () => {
+    resetNetwork();
+    await resetKv();
+});
+
+describe('/chart', () => {
+    test('renders a 3x3 grid of the top albums', async () => {
+        serveLastFm('user.gettopalbums', 'lastfm/user.gettopalbums.json', { user: 'alice' });
+
+        const result = await send(slashCommand('chart', [option('user', 'alice')]));
+
+        const edit = finalEdit(result);
+        assert.equal(edit.payload!.content, '-# *Top Albums (Last 7 Days) - **alice***');
+        assert.equal(edit.files[0].name, 'chart.png');
+        assert.deepEqual(await imageSize(edit.files[0].data), { width: 900, height: 900 });
+    });
+
+    test('uses the registered username and the requested period', async () => {
+        await registerUser(testUser.id, 'alice', TEST_GUILD_ID);
+        serveLastFm('user.gettopalbums', 'lastfm/user.gettopalbums.json', { user: 'alice', period: '1month' });
+
+        const result = await send(slashCommand('chart', [option('period', '1month')]));
+
+        assert.equal(finalEdit(result).payload!.content, '-# *Top Albums (Last Month) - **alice***');
+    });
+
+    test('renders top artists with pictures from Deezer, then Spotify', async () => {
+        serveLastFm('user.gettopartists', 'lastfm/user.gettopartists.json', { user: 'alice' });
+        onRequest('GET', 'https://api.deezer.com/search/artist', ({ url }) => jsonResponse(loadFixture(
+            url.searchParams.get('q') === 'Radiohead' ? 'deezer/artist-search.json' : 'deezer/search.empty.json',
+        )));
+        onRequest('POST', 'https://accounts.spotify.com/api/token', () => jsonResponse(loadFixture('spotify/token.json')));
+        onRequest('GET', 'https://api.spotify.com/v1/search', ({ url }) => jsonResponse({
+            artists: {
+                items: url.searchParams.get('q') === 'Björk'
+                    ? [{ id: '7w29UYBi0qsHi5RTcv3lmA', name: 'Björk', images: [{ url: 'https://i.scdn.co/image/bjork-640', width: 640, height: 640 }] }]
+                    : [],
+            },
+        }));
+        serveImage(/dzcdn\.net/, 1000);
+        serveImage('https://i.scdn.co/', 640);
+
+        const result = await send(slashCommand('chart', [option('user', 'alice'), option('type', 'artists')]));
+
+        const edit = finalEdit(result);
+        assert.equal(edit.payload!.content, '-# *Top Artists (Last 7 Days) - **alice***');
+        assert.deepEqual(await imageSize(edit.files[0].data), { width: 900, height: 900 });
+        const images = requests.filter(r => /dzcdn|scdn/.test(r.url.hostname)).map(r => r.url.href);
+        assert.deepEqual(images, [
+            'https://e-cdns-images.dzcdn.net/images/artist/5b4d4de23c1c5a1b1e0b5a4ee8e7ebbc/1000x1000-000000-80-0-0.jpg',
+            'https://i.scdn.co/image/bjork-640',
+        ]);
+
+        // Pictures, and the lack of them, are cached.
+        const searches = requests.filter(r => r.url.hostname === 'api.deezer.com').length;
+        await send(slashCommand('chart', [option('user', 'alice'), option('type', 'artists')]));
+        assert.equal(requests.filter(r => r.url.hostname === 'api.deezer.com').length, searches);
+    });
+
+    test('renders top tracks with the cover of their album', async () => {
+        serveLastFm('user.gettoptracks', 'lastfm/user.gettoptracks.json', { user: 'alice' });
+        serveLastFm('track.getInfo', 'lastfm/track.getInfo.json');
+
+        const result = await send(slashCommand('chart', [option('user', 'alice'), option('type', 'tracks'), option('labelling', 'topster')]));
+
+        const edit = finalEdit(result);
+        assert.equal(edit.payload!.content, '-# *Top Tracks (Last 7 Days) - **alice***');
+        assert.deepEqual(await imageSize(edit.files[0].data), { width: 1350, height: 900 });
+        const lookups = requests.filter(r => r.url.searchParams.get('method') === 'track.getInfo');
+        assert.equal(lookups.length, 9);
+        assert.ok(requests.some(r => r.url.pathname.endsWith('/4c5ac55b1cc0427f8ee2ae0b1a1cbcf0.png')));
+    });
+
+    test('draws any size up to the maximum, shrinking tiles for big grids', async () => {
+        serveLastFm('user.gettopalbums', 'lastfm/user.gettopalbums.json');
+
+        const tall = await send(slashCommand('chart', [option('user', 'alice'), option('size', '2x4')]));
+        assert.deepEqual(await imageSize(finalEdit(tall).files[0].data), { width: 600, height: 1200 });
+
+        const wide = await send(slashCommand('chart', [option('user', 'alice'), option('size', '9 x 1')]));
+        assert.deepEqual(await imageSize(finalEdit(wide).files[0].data), { width: 9 * 266, height: 266 });
+    });
+
+    test('replies straight away to sizes it cannot draw', async () => {
+        const tooBig = await send(slashCommand('chart', [option('user', 'alice'), option('size', '16x2')]));
+        assert.equal(tooBig.body.data.content, "Charts can be 1 to 15 tiles wide and tall, so `16x2` won't fit.");
+
+        const unreadable = await send(slashCommand('serverchart', [option('size', 'huge')]));
+        assert.equal(unreadable.body.data.content, '`size` should be columns by rows, like `5x5` or `10x4`, not `huge`.');
+        assert.equal(requests.length, 0);
+    });
+
+    test('suggests sizes while typing', async () => {
+        const suggest = async (value: string) => {
+            const result = await send(autocomplete('chart', [option('size', value, { focused: true })]));
+            return result.body.data.choices.map((choice: { value: string }) => choice.value);
+        };
+
+        assert.deepEqual(await suggest('1'), ['10x10', '15x6']);
+        assert.deepEqual(await suggest('6x7'), ['6x7']);
+        assert.deepEqual(await suggest('20x20'), []);
+    });
+
+    test('explains when there are not enough albums for the grid', async () => {
+        serveLastFm('user.gettopalbums', 'lastfm/user.gettopalbums.json');
+
+        const result = await send(slashCommand('chart', [option('user', 'alice'), option('size', '4x4')]));
+
+        assert.match(finalEdit(result).payload!.content as string, /^Could not fetch 16 albums for `alice`\./);
+        assert.equal(finalEdit(result).files.length, 0);
+    });
+});
+
+describe('chart pages', () => {
+    type Button = { label: string; custom_id: string; disabled?: boolean };
+    const buttons = (result: InteractionResult) => {
+        const [row] = finalEdit(result).payload!.components as { components: Button[] }[];
+        return row.components;
+    };
+    const button = (result: InteractionResult, label: string) => buttons(result).find(b => b.label === label)!;
+
+    test('pages through the chart with Previous and Next', async () => {
+        serveLastFm('user.gettopalbums', 'lastfm/user.gettopalbums.json', { user: 'alice' });
+
+        const first = await send(slashCommand('chart', [option('user', 'alice'), option('period', '1month')]));
+        assert.deepEqual(buttons(first).map(b => [b.label, !!b.disabled]), [['Previous', true], ['Next', false], ['Show list', false]]);
+
+        const second = await send(buttonClick(button(first, 'Next').custom_id));
+        assert.equal(second.body.type, InteractionResponseType.DeferredMessageUpdate);
+        const edit = finalEdit(second);
+        assert.equal(edit.payload!.content, '-# *Top Albums (Last Month) - **alice*** · Page 2');
+        assert.equal(edit.files[0].name, 'chart.png');
+        // The new image replaces the old one instead of being added next to it.
+        assert.deepEqual(edit.payload!.attachments, [{ id: 0, filename: 'chart.png' }]);
+        const pageRequest = requests.findLast(r => r.url.searchParams.get('method') === 'user.gettopalbums')!;
+        assert.equal(pageRequest.url.searchParams.get('page'), '2');
+        assert.equal(pageRequest.url.searchParams.get('period'), '1month');
+        assert.equal(button(second, 'Previous').disabled, false);
+    });
+
+    test('toggles a numbered list with play counts without redrawing', async () => {
+        serveLastFm('user.gettopalbums', 'lastfm/user.gettopalbums.json', { user: 'alice' });
+
+        const first = await send(slashCommand('chart', [option('user', 'alice')]));
+        const shown = await send(buttonClick(button(first, 'Show list').custom_id));
+
+        const edit = finalEdit(shown);
+        const lines = (edit.payload!.content as string).split('\n');
+        assert.equal(lines[0], '-# *Top Albums (Last 7 Days) - **alice***');
+        assert.equal(lines[1], '1. Radiohead - In Rainbows — 412 plays');
+        assert.equal(lines.length, 10);
+        assert.equal(edit.files.length, 0);
+        assert.equal(button(shown, 'Hide list').label, 'Hide list');
+
+        const hidden = await send(buttonClick(button(shown, 'Hide list').custom_id));
+        assert.equal(finalEdit(hidden).payload!.content, '-# *Top Albums (Last 7 Days) - **alice***');
+    });
+
+    test('keeps date ranges across pages', async () => {
+        serveLastFm('user.getweeklyalbumchart', 'lastfm/user.getweeklyalbumchart.json', { user: 'alice' });
+
+        const first = await send(slashCommand('chart', [option('user', 'alice'), option('year', 2025), option('size', '2x2')]));
+        const second = await send(buttonClick(button(first, 'Next').custom_id));
+
+        assert.equal(finalEdit(second).payload!.content, '-# *Top Albums (2025) - **alice*** · Page 2');
+        // 9 albums make two full pages of 4, and no third.
+        assert.equal(button(second, 'Next').disabled, true);
+    });
+
+    test('only the person who ran the chart can turn its pages', async () => {
+        serveLastFm('user.gettopalbums', 'lastfm/user.gettopalbums.json');
+
+        const first = await send(slashCommand('chart', [option('user', 'alice')]));
+        const result = await send(buttonClick(button(first, 'Next').custom_id, { user: otherUser }));
+
+        assert.equal(result.body.data.content, 'Only the person who ran the command can use this.');
+    });
+});
+
+describe('overlays', () => {
+    const WEEK_MS = 7 * 86400 * 1000;
+    const tile = (title: string, rank?: number): ChartTile => ({ title, subtitle: 'Radiohead', rank, getImageUrl: async () => null });
+
+    test('saves positions for the next period and compares with the last one', async () => {
+        await recordPeriodPositions('user:alice:albums', '7day', [tile('Kid A', 1), tile('In Rainbows', 4)], Date.now() - WEEK_MS);
+        serveLastFm('user.gettopalbums', 'lastfm/user.gettopalbums.json');
+
+        const result = await send(slashCommand('chart', [option('user', 'alice'), option('overlay', 'all')]));
+        assert.equal(finalEdit(result).files[0].name, 'chart.png');
+
+        const saved = await getPeriodBaseline('user:alice:albums', '7day', Date.now() + WEEK_MS);
+        assert.equal(saved!['radiohead - in rainbows'], 1);
+        assert.equal(saved!['radiohead - kid a'], 2);
+        assert.equal(Object.keys(saved!).length, 9);
+
+        const tiles = [tile('In Rainbows', 1), tile('Kid A', 2), tile('OK Computer', 3)];
+        applyMovement(tiles, await getPeriodBaseline('user:alice:albums', '7day'));
+        assert.deepEqual(tiles.map(t => describeMovement(t)?.text), ['▲3', '▼1', 'NEW']);
+    });
+
+    test('compares a range with the one before it', async () => {
+        serveLastFm('user.getweeklyalbumchart', 'lastfm/user.getweeklyalbumchart.json');
+
+        await send(slashCommand('chart', [option('user', 'alice'), option('year', 2025), option('overlay', 'movement')]));
+
+        const froms = requests
+            .filter(r => r.url.searchParams.get('method') === 'user.getweeklyalbumchart')
+            .map(r => r.url.searchParams.get('from'));
+        assert.deepEqual(froms, [String(Date.UTC(2025, 0, 1) / 1000), String(Date.UTC(2024, 0, 1) / 1000)]);
+    });
+
+    test('works out the previous range', () => {
+        const now = new Date(Date.UTC(2026, 5, 15));
+        assert.equal(previousDateRange({ month: '2026-01' }, now)!.label, 'December 2025');
+        assert.equal(previousDateRange({ year: 2002 }, now), null);
+        assert.equal(previousDateRange({ from: '2026-03-10', to: '2026-03-16' }, now)!.label, '3 Mar 2026 – 9 Mar 2026');
+    });
+
+    test('describes movement only when there is something to compare with', () => {
+        assert.equal(describeMovement({ rank: 2 }), null);
+        assert.equal(describeMovement({ rank: 2, previousRank: 2 })!.text, '=');
+        assert.equal(describeMovement({ rank: 5, previousRank: null })!.text, 'NEW');
+    });
+});
+
+describe('layouts', () => {
+    const solid = (r: number, g: number, b: number) => sharp({ create: { width: 300, height: 300, channels: 3, background: { r, g, b } } }).png().toBuffer();
+    const hsl = (hue: number, saturation = 0.8, lightness = 0.5) => ({ hex: '#000000', rgb: [0, 0, 0] as [number, number, number], hsl: [hue, saturation, lightness] as [number, number, number] });
+
+    test('enlarges the top entry of a featured chart', async () => {
+        serveLastFm('user.gettopalbums', 'lastfm/user.gettopalbums.json');
+
+        const result = await send(slashCommand('chart', [option('user', 'alice'), option('layout', 'featured'), option('labelling', 'topster')]));
+
+        assert.deepEqual(await imageSize(finalEdit(result).files[0].data), { width: 900 + 450, height: 900 });
+        const topAlbums = requests.find(r => r.url.searchParams.get('method') === 'user.gettopalbums');
+        assert.equal(topAlbums!.url.searchParams.get('limit'), '6');
+    });
+
+    test('needs room for the featured tile', async () => {
+        const result = await send(slashCommand('chart', [option('user', 'alice'), option('size', '5x1'), option('layout', 'featured')]));
+        assert.equal(result.body.data.content, 'The featured layout needs a grid of at least 2x2.');
+    });
+
+    test('sorts tiles around the colour wheel, greys last', async () => {
+        const colors = [hsl(0.6), hsl(0, 0, 0.4), hsl(0.1), null, hsl(0.35)];
+        const order = arrangeTiles({ columns: 5, rows: 1 }, 5, 'hue', colors);
+        assert.deepEqual(order.map(placement => placement.index), [2, 4, 0, 1, 3]);
+
+        const rainbow = arrangeTiles({ columns: 2, rows: 2 }, 4, 'rainbow', [hsl(0.9), hsl(0.1), hsl(0.5), hsl(0.3)]);
+        assert.deepEqual(rainbow.map(({ index, column, row }) => [index, column, row]), [[1, 0, 0], [3, 1, 0], [2, 0, 1], [0, 1, 1]]);
+    });
+
+    test('draws tiles in hue order', async () => {
+        const covers: Record<string, Buffer> = { blue: await solid(30, 60, 220), red: await solid(220, 30, 30), green: await solid(30, 200, 60) };
+        onRequest('GET', 'https://images.test/', request => imageResponse(covers[request.url.pathname.slice(1)]));
+        const tiles = Object.keys(covers).map(title => ({ title, getImageUrl: async () => `https://images.test/${title}` }));
+
+        const { image } = await renderChart(tiles, { columns: 3, rows: 1, labels: 'no_names', arrangement: 'hue' });
+
+        const { data, info } = await sharp(image).raw().toBuffer({ resolveWithObject: true });
+        const pixel = (x: number) => {
+            const offset = (150 * info.width + x) * info.channels;
+            return [...data.subarray(offset, offset + 3)];
+        };
+        const dominant = (rgb: number[]) => ['red', 'green', 'blue'][rgb.indexOf(Math.max(...rgb))];
+        assert.deepEqual([150, 450, 750].map(x => dominant(pixel(x))), ['red', 'green', 'blue']);
+    });
+});
+
+describe('/serverchart', () => {
+    test("combines the scrobbles of the server's registered members", async () => {
+        await registerUser(testUser.id, 'alice', TEST_GUILD_ID);
+        await registerUser(otherUser.id, 'bob', TEST_GUILD_ID);
+        serveLastFm('user.gettopalbums', 'lastfm/user.gettopalbums.json', { user: 'alice' });
+        serveLastFm('user.gettopalbums', 'lastfm/user.gettopalbums.bob.json', { user: 'bob' });
+
+        const result = await send(slashCommand('serverchart'));
+
+        const edit = finalEdit(result);
+        assert.equal(edit.payload!.content, '-# *OrpheusCore Top Albums (Last 7 Days)*');
+        assert.equal(edit.files[0].name, 'server-chart.png');
+        assert.deepEqual(await imageSize(edit.files[0].data), { width: 900, height: 900 });
+    });
+
+    test('defaults to the period in the server settings', async () => {
+        await registerUser(testUser.id, 'alice', TEST_GUILD_ID);
+        await updateGuildSettings(TEST_GUILD_ID, { serverChartPeriod: 'overall' });
+        serveLastFm('user.gettopalbums', 'lastfm/user.gettopalbums.json');
+
+        const result = await send(slashCommand('serverchart'));
+
+        assert.equal(finalEdit(result).payload!.content, '-# *OrpheusCore Top Albums (All Time)*');
+        assert.ok(requests.some(r => r.url.searchParams.get('method') === 'user.gettopalbums' && r.url.searchParams.get('period') === 'overall'));
+    });
+
+    test('only works inside a server', async () => {
+        const result = await send(slashCommand('serverchart', [], { guildId: null, user: testUser }));
+
+        assert.equal(result.body.data.content, 'Server charts only work inside a server.');
+    });
+});
+
+describe('date ranges', () => {
+    const weeklyCharts = () => requests.filter(r => r.url.searchParams.get('method') === 'user.getweeklyalbumchart');
+
+    test('charts a whole year from the weekly album chart', async () => {
+        serveLastFm('user.getweeklyalbumchart', 'lastfm/user.getweeklyalbumchart.json', { user: 'alice' });
+
+        const result = await send(slashCommand('chart', [option('user', 'alice'), option('year', 2025)]));
+
+        assert.equal(finalEdit(result).payload!.content, '-# *Top Albums (2025) - **alice***');
+        const [chart] = weeklyCharts();
+        assert.equal(chart.url.searchParams.get('from'), String(Date.UTC(2025, 0, 1) / 1000));
+        assert.equal(chart.url.searchParams.get('to'), String(Date.UTC(2026, 0, 1) / 1000));
+    });
+
+    test('adds up scrobble history when the weekly chart is empty', async () => {
+        serveLastFm('user.getweeklyalbumchart', 'lastfm/user.getweeklyalbumchart.empty.json');
+        serveLastFm('user.getrecenttracks', 'lastfm/user.getrecenttracks.history.json', { user: 'alice' });
+
+        const result = await send(slashCommand('chart', [option('user', 'alice'), option('month', '2026-03'), option('labelling', 'under')]));
+
+        assert.equal(finalEdit(result).payload!.content, '-# *Top Albums (March 2026) - **alice***');
+        const history = requests.find(r => r.url.searchParams.get('method') === 'user.getrecenttracks')!;
+        assert.equal(history.url.searchParams.get('from'), String(Date.UTC(2026, 2, 1) / 1000));
+        assert.equal(history.url.searchParams.get('to'), String(Date.UTC(2026, 3, 1) / 1000 - 1));
+        // Covers come from the scrobbles themselves, in play count order.
+        const covers = requests.filter(r => r.url.hostname === 'lastfm.freetls.fastly.net').map(r => r.url.pathname.split('/').pop());
+        assert.equal(covers[0], '4c5ac55b1cc0427f8ee2ae0b1a1cbcf0.jpg');
+        assert.equal(covers.length, 9);
+    });
+
+    test('reuses the requests of a range that is still going', async () => {
+        serveLastFm('user.getweeklyalbumchart', 'lastfm/user.getweeklyalbumchart.json', { user: 'alice' });
+        // Two moments in the same ten minutes, a little while ago.
+        const step = Math.floor(Date.now() / 1000 / 600) * 600 - 600;
+        const from = step - 3 * 86400;
+
+        await getRangeChart('alice', 'albums', { from, to: step + 10, label: 'recent' }, 9);
+        await getRangeChart('alice', 'albums', { from, to: step + 500, label: 'recent' }, 9);
+
+        assert.equal(weeklyCharts().length, 1);
+        assert.equal(weeklyCharts()[0].url.searchParams.get('to'), String(step));
+    });
+
+    test('builds server charts for a range', async () => {
+        await registerUser(testUser.id, 'alice', TEST_GUILD_ID);
+        await registerUser(otherUser.id, 'bob', TEST_GUILD_ID);
+        serveLastFm('user.getweeklyalbumchart', 'lastfm/user.getweeklyalbumchart.json');
+
+        const result = await send(slashCommand('serverchart', [option('from', '2026-01-01'), option('to', '2026-01-31')]));
+
+        assert.equal(finalEdit(result).payload!.content, '-# *OrpheusCore Top Albums (1 Jan 2026 – 31 Jan 2026)*');
+        assert.deepEqual(weeklyCharts().map(r => r.url.searchParams.get('user')).sort(), ['alice', 'bob']);
+    });
+
+    test('replies straight away to dates it cannot use', async () => {
+        const cases: [Parameters<typeof option>[], string][] = [
+            [[['month', '2026-13']], '`month` should look like `2026-03`, not `2026-13`.'],
+            [[['from', '2026-02-30']], '`from` should be a date like `2025-03-14`, not `2026-02-30`.'],
+            [[['from', '2026-03-10'], ['to', '2026-03-01']], '`from` has to be before `to`.'],
+            [[['year', 2025], ['month', '2025-06']], 'Use only one of `year`, `month` or `from`/`to`.'],
+            [[['year', 2025], ['period', '1month']], 'Use either a `period` or dates, not both.'],
+            [[['to', '2026-03-01']], 'Add a `from` date to go with `to`.'],
+        ];
+
+        for (const [options, message] of cases) {
+            const result = await send(slashCommand('chart', [option('user', 'alice'), ...options.map(args => option(...args))]));
+            assert.equal(result.body.type, InteractionResponseType.ChannelMessageWithSource);
+            assert.equal(result.body.data.content, message);
+        }
+        assert.equal(weeklyCharts().length, 0);
+    });
+});
+
+describe('rendering', () => {
+    const coverDownloads = () => requests.filter(r => r.url.hostname === 'lastfm.freetls.fastly.net').length;
+
+    test('reuses resized covers from disk, then from KV', async () => {
+        serveLastFm('user.gettopalbums', 'lastfm/user.gettopalbums.json');
+
+        await send(slashCommand('chart', [option('user', 'alice')]));
+        const downloads = coverDownloads();
+        assert.ok(downloads > 0);
+
+        await send(slashCommand('chart', [option('user', 'alice'), option('labelling', 'under')]));
+        assert.equal(coverDownloads(), downloads);
+
+        // A fresh instance has an empty disk, but KV is shared.
+        await rm(process.env.THUMBNAIL_CACHE_DIR!, { recursive: true, force: true });
+        const result = await send(slashCommand('chart', [option('user', 'alice')]));
+        assert.equal(coverDownloads(), downloads);
+        assert.deepEqual(await imageSize(finalEdit(result).files[0].data), { width: 900, height: 900 });
+    });
+
+    test('draws placeholders locally and reports where each tile came from', async () => {
+        serveImage('https://images.test/', 600);
+        const tiles = [
+            { title: 'In Rainbows', subtitle: 'Radiohead', getImageUrl: async () => 'https://images.test/in-rainbows.png' },
+            { title: 'Untitled', subtitle: 'Nobody', getImageUrl: async () => null },
+            { title: 'Broken', getImageUrl: async () => 'https://unreachable.test/missing.png' },
+            { title: 'Lookup failed', getImageUrl: async () => { throw new Error('provider down'); } },
+        ];
+
+        const { image, metrics } = await renderChart(tiles, { columns: 2, rows: 2, labels: 'no_names' });
+
+        assert.deepEqual(await imageSize(image), { width: 600, height: 600 });
+        assert.deepEqual(metrics.sources, { disk: 0, kv: 0, network: 1, placeholder: 3 });
+        assert.equal(metrics.tiles, 4);
+        assert.ok(metrics.totalMs >= metrics.stageMs.composite);
+        assert.ok(!requests.some(r => r.url.hostname === 'via.placeholder.com'));
+    });
+
+    test('re-encodes charts that would be too big to upload as a PNG', async () => {
+        const noise = await sharp(randomBytes(300 * 300 * 3), { raw: { width: 300, height: 300, channels: 3 } }).png().toBuffer();
+        onRequest('GET', 'https://images.test/', () => imageResponse(noise));
+        const tiles = ['a', 'b', 'c', 'd'].map(title => ({ title, getImageUrl: async () => `https://images.test/${title}.png` }));
+
+        const { image, format } = await renderChart(tiles, { columns: 2, rows: 2, labels: 'no_names', maxBytes: 400_000 });
+
+        assert.equal(format, 'jpg');
+        assert.ok(image.length <= 400_000);
+        assert.equal((await sharp(image).metadata()).format, 'jpeg');
+
+        await assert.rejects(renderChart(tiles, { columns: 2, rows: 2, labels: 'no_names', maxBytes: 1000 }), ChartTooLargeError);
+    });
+});
+
+describe('fonts', () => {
+    test('reads which characters a font has glyphs for', async () => {
+        const courier = readCoverage(await readFile('public/fonts/cour.ttf'));
+        assert.deepEqual([...'AЖあ😀'].map(char => courier(char.codePointAt(0)!)), [true, true, false, false]);
+        assert.throws(() => readCoverage(Buffer.alloc(64)), /no cmap table/);
+    });
+
+    test('falls back through the stack and reports what no font covers', () => {
+        const fonts = loadFonts([{ family: 'Cyrillic Fallback', file: 'cour.ttf' }, { family: 'Missing', file: 'Missing.ttf' }]);
+
+        assert.ok(fonts.labels.manti.covers);
+        assert.match(fonts.fallbacks[1].error!, /Missing\.ttf does not exist$/);
+        assert.deepEqual(missingGlyphs('Кино - あいう 🎵', 'manti', fonts), ['あ', 'い', 'う', '🎵']);
+        assert.deepEqual(missingGlyphs('Кино', 'manti', { ...fonts, fallbacks: [] }), ['К', 'и', 'н', 'о']);
+    });
+
+    test('ships a fallback for CJK, Cyrillic and emoji labels', async () => {
+        assert.deepEqual(getFonts().fallbacks.filter(font => !font.covers), []);
+        assert.equal(getFonts().fallbacks.length, DEFAULT_FALLBACK_FONTS.length);
+        assert.match(fontStack(14), /^bold 14px "Courier New", "Noto Sans JP", "Noto Sans SC", "Noto Sans KR"/);
+
+        const labels = ['宇多田ヒカル - 初恋', '周杰伦 - 范特西', '아이유 - 꽃갈피', 'Кино - Группа крови', 'Daft Punk - 🤖'];
+        for (const label of labels) {
+            assert.deepEqual(missingGlyphs(label, 'manti'), [], label);
+        }
+
+        const tiles = labels.map(title => ({ title, getImageUrl: async () => null }));
+        const { image } = await renderChart(tiles, { columns: 5, rows: 1, labels: 'under' });
+        assert.equal((await sharp(image).metadata()).width, 5 * 300);
+    });
+});
@@ -0,0 +1,34 @@
+// tests/countdown.test.ts
+import { beforeEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { InteractionResponseType } from 'discord-api-types/v10';
+import { buttonClick, finalEdit, send, slashCommand } from './helpers/interactions';
+import { resetNetwork } from './helpers/network';
+
+beforeEach(() => {
+    resetNetwork();
+});
+
+test('offers start and cancel buttons', async () => {
+    const result = await send(slashCommand('countdown'));
+
+    const [row] = result.body.data.components;
+    assert.deepEqual(row.components.map((button: { custom_id: string }) => button.custom_id), ['countdown:start', 'countdown:cancel']);
+});
+
+test('cancelling updates the message in place', async () => {
+    const result = await send(buttonClick('countdown:cancel'));
+
+    assert.equal(result.body.type, InteractionResponseType.UpdateMessage);
+    assert.equal(result.body.data.embeds[0].title, 'Countdown Cancelled');
+});
+
+// Runs in real time: five edits a second apart.
+test('counts down from five', async () => {
+    const result = await send(buttonClick('countdown:start'));
+
+    assert.equal(result.body.type, InteractionResponseType.DeferredMessageUpdate);
+    const descriptions = result.calls.map(call => (call.payload!.embeds as { description: string }[])[0].description);
+    assert.deepEqual(descriptions, ['**5**', '**4**', '**3**', '**2**', '**1**', '**Go!**']);
+    assert.equal((finalEdit(result).payload!.embeds as { title: string }[])[0].title, 'Countdown Complete!');
+});
@@ -0,0 +1,340 @@
+// tests/cover.test.ts
+import { beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { InteractionResponseType, MessageFlags, PermissionFlagsBits } from 'discord-api-types/v10';
+import { NextRequest } from 'next/server';
+import { GET } from '@/app/api/cover-override/[id]/route';
+import { defaultProviders, listOverrides } from '@/utils/cover-art';
+import { keys, kv, registerUser } from '@/utils/storage';
+import {
+    developerUser,
+    finalEdit,
+    option,
+    otherUser,
+    selectMenuPick,
+    send,
+    slashCommand,
+    subcommand,
+    subcommandGroup,
+    TEST_GUILD_ID,
+    testUser,
+} from './helpers/interactions';
+import { resetKv } from './helpers/kv';
+import { onRequest, requests, resetNetwork, resolveHost, serveImage, serveJson, serveLastFm } from './helpers/network';
+
+const MODERATOR = { permissions: String(PermissionFlagsBits.ManageMessages) };
+
+type Embed = { title: string; description: string; image: { url: string }; footer: { text: string }; fields: { name: string; value: string }[] };
+
+function embedOf(result: Awaited<ReturnType<typeof send>>): Embed {
+    return (finalEdit(result).payload!.embeds as Embed[])[0];
+}
+
+beforeEach(async () => {
+    resetNetwork();
+    await resetKv();
+});
+
+describe('/cover search', () => {
+    test('shows the cover of the album that matches exactly', async () => {
+        serveLastFm('album.search', 'lastfm/album.search.json');
+
+        const result = await send(slashCommand('cover', [subcommand('search', [option('album', 'In Rainbows')])]));
+
+        assert.equal(result.body.type, InteractionResponseType.DeferredChannelMessageWithSource);
+        const embed = embedOf(result);
+        assert.equal(embed.title, 'In Rainbows');
+        assert.equal(embed.description, '-# by **Radiohead**');
+        assert.equal(embed.image.url, 'https://lastfm.freetls.fastly.net/i/u/1000x1000/4c5ac55b1cc0427f8ee2ae0b1a1cbcf0.png');
+        assert.equal(embed.footer.text, 'Searched by: tester');
+    });
+
+    test('lets the user pick when several albums match', async () => {
+        serveLastFm('album.search', 'lastfm/album.search.json');
+
+        const search = await send(slashCommand('cover', [subcommand('search', [option('album', 'Rainbows')])]));
+        const picker = finalEdit(search).payload!;
+        assert.equal(picker.content, 'Found several albums matching `Rainbows`. Which one did you mean?');
+
+        const [row] = picker.components as { components: { custom_id: string; options: { label: string }[] }[] }[];
+        const menu = row.components[0];
+        assert.deepEqual(menu.options.map(o => o.label), ['In Rainbows', 'In Rainbows Disk 2', 'In Rainbows (Live From The Basement)']);
+
+        const pick = await send(selectMenuPick(menu.custom_id, ['1']));
+        assert.equal(pick.body.type, InteractionResponseType.DeferredMessageUpdate);
+        assert.equal(embedOf(pick).title, 'In Rainbows Disk 2');
+        assert.deepEqual(finalEdit(pick).payload!.components, []);
+    });
+
+    test('treats picks that are not on the menu as expired', async () => {
+        serveLastFm('album.search', 'lastfm/album.search.json');
+
+        const search = await send(slashCommand('cover', [subcommand('search', [option('album', 'Rainbows')])]));
+        const [row] = finalEdit(search).payload!.components as { components: { custom_id: string }[] }[];
+
+        for (const value of ['3', '-1', 'first']) {
+            const pick = await send(selectMenuPick(row.components[0].custom_id, [value]));
+            assert.equal(pick.body.type, InteractionResponseType.UpdateMessage);
+            assert.equal(pick.body.data.content, 'This search has expired. Please run `/cover search` again.', value);
+        }
+    });
+
+    test('only the person who searched can pick', async () => {
+        serveLastFm('album.search', 'lastfm/album.search.json');
+
+        const search = await send(slashCommand('cover', [subcommand('search', [option('album', 'Rainbows')])]));
+        const [row] = finalEdit(search).payload!.components as { components: { custom_id: string }[] }[];
+
+        const pick = await send(selectMenuPick(row.components[0].custom_id, ['0'], { user: otherUser }));
+        assert.equal(pick.body.data.content, 'Only the person who ran the command can use this.');
+        assert.equal(pick.body.data.flags, MessageFlags.Ephemeral);
+    });
+
+    test('reports albums Last.fm does not know', async () => {
+        serveLastFm('album.search', 'lastfm/album.search.empty.json');
+
+        const result = await send(slashCommand('cover', [subcommand('search', [option('album', 'zzzz')])]));
+
+        assert.equal(finalEdit(result).payload!.content, 'Could not find any albums matching `zzzz`.');
+    });
+
+    test('hq_only picks the largest cover across every source', async () => {
+        serveLastFm('album.search', 'lastfm/album.search.json');
+        serveJson('https://itunes.apple.com/search', 'itunes/search.json');
+        serveImage(/^https:\/\/is1-ssl\.mzstatic\.com\/.*\/1000x1000bb\.jpg$/, 1000);
+        serveJson('https://api.deezer.com/search/album', 'deezer/search.empty.json');
+        serveJson('https://musicbrainz.org/ws/2/release/', 'musicbrainz/release-search.json');
+        serveJson('https://coverartarchive.org/release/6a6c1d0e-2c5f-4b6e-8a8d-0c6b8f1a3e9d', 'musicbrainz/coverartarchive.json');
+        serveImage('https://coverartarchive.org/release/6a6c1d0e-2c5f-4b6e-8a8d-0c6b8f1a3e9d/6186245478.jpg', 1200, 1200, 'jpeg');
+
+        const result = await send(slashCommand('cover', [subcommand('search', [option('album', 'In Rainbows'), option('hq_only', true)])]));
+
+        assert.equal(embedOf(result).image.url, 'https://coverartarchive.org/release/6a6c1d0e-2c5f-4b6e-8a8d-0c6b8f1a3e9d/6186245478.jpg');
+    });
+
+    test('ignores Deezer albums with a different title', async () => {
+        const pabloHoney = { id: 1, title: 'Pablo Honey', artist: { name: 'Radiohead' }, cover_big: 'https://cdn.deezer.test/big.jpg', cover_xl: 'https://cdn.deezer.test/xl.jpg' };
+        serveJson('https://api.deezer.com/search/album', { data: [pabloHoney] });
+        const deezer = defaultProviders.find(provider => provider.name === 'deezer')!;
+
+        assert.deepEqual(await deezer.find({ artist: 'Radiohead', album: 'In Rainbows' }), []);
+        assert.equal((await deezer.find({ artist: 'Radiohead', album: 'Pablo Honey' }))[0].url, 'https://cdn.deezer.test/xl.jpg');
+    });
+
+    test('ignores Discogs releases with a different title', async () => {
+        const pabloHoney = { id: 1, type: 'master', title: 'Radiohead - Pablo Honey', resource_url: 'https://api.discogs.com/masters/1' };
+        serveJson('https://api.discogs.com/database/search', { results: [pabloHoney] });
+        serveJson('https://api.discogs.com/masters/1', { images: [{ type: 'primary', uri: 'https://i.discogs.test/1.jpg', width: 600, height: 600 }] });
+        const discogs = defaultProviders.find(provider => provider.name === 'discogs')!;
+
+        process.env.DISCOGS_TOKEN = 'discogs-token';
+        try {
+            assert.deepEqual(await discogs.find({ artist: 'Radiohead', album: 'In Rainbows' }), []);
+            assert.equal((await discogs.find({ artist: 'Radiohead', album: 'Pablo Honey' }))[0].url, 'https://i.discogs.test/1.jpg');
+        } finally {
+            delete process.env.DISCOGS_TOKEN;
+        }
+    });
+});
+
+describe('/cover now', () => {
+    test('shows the cover of the last scrobble', async () => {
+        await registerUser(testUser.id, 'alice', TEST_GUILD_ID);
+        serveLastFm('user.getrecenttracks', 'lastfm/user.getrecenttracks.json');
+
+        const result = await send(slashCommand('cover', [subcommand('now')]));
+
+        const embed = embedOf(result);
+        assert.equal(embed.title, 'In Rainbows');
+        assert.equal(embed.footer.text, 'Currently listening: alice');
+    });
+
+    test('asks unregistered users to register', async () => {
+        const result = await send(slashCommand('cover', [subcommand('now')]));
+
+        assert.equal(result.body.data.flags, MessageFlags.Ephemeral);
+        assert.match(result.body.data.content, /register your Last\.fm username/);
+    });
+});
+
+describe('/cover fix and overrides', () => {
+    const fixCommand = (invoker = {}) => slashCommand('cover', [subcommand('fix', [
+        option('artist', 'Radiohead'),
+        option('album', 'In Rainbows'),
+        option('url', 'https://images.example.com/in-rainbows.jpg'),
+    ])], invoker);
+
+    test('a moderator fix applies straight away and is used from then on', async () => {
+        serveImage('https://images.example.com/in-rainbows.jpg', 1400, 1400, 'jpeg');
+        serveLastFm('album.search', 'lastfm/album.search.json');
+
+        const fix = await send(fixCommand(MODERATOR));
+        assert.equal(finalEdit(fix).payload!.content, 'Cover override saved and applied straight away.');
+        const fields = embedOf(fix).fields;
+        assert.equal(fields.find(f => f.name === 'Status')!.value, '✅ approved');
+        // Stored images are capped at 1200px.
+        assert.equal(fields.find(f => f.name === 'Size')!.value, '1200x1200');
+
+        const search = await send(slashCommand('cover', [subcommand('search', [option('album', 'In Rainbows')])]));
+        assert.match(embedOf(search).image.url, /^https:\/\/zorpheus\.test\/api\/cover-override\/[\w-]+$/);
+    });
+
+    test('other fixes wait for a moderator', async () => {
+        serveImage('https://images.example.com/in-rainbows.jpg', 600, 600, 'jpeg');
+
+        const fix = await send(fixCommand());
+        const id = embedOf(fix).fields.find(f => f.name === 'ID')!.value.replace(/`/g, '');
+        assert.equal(finalEdit(fix).payload!.content, `Thanks! A moderator can apply this with \`/cover overrides approve id:${id}\`.`);
+
+        const list = await send(slashCommand('cover', [subcommandGroup('overrides', [subcommand('list')])]));
+        assert.match(list.body.data.embeds[0].description, new RegExp(`\`${id}\` \\*\\*Radiohead – In Rainbows\\*\\*`));
+
+        const denied = await send(slashCommand('cover', [subcommandGroup('overrides', [subcommand('approve', [option('id', id)])])]));
+        assert.equal(denied.body.data.content, "🚫 Cover overrides apply in every server, so only the bot's own moderators can review them.");
+
+        const approved = await send(slashCommand('cover', [subcommandGroup('overrides', [subcommand('approve', [option('id', id)])])], MODERATOR));
+        assert.equal(approved.body.data.content, `✅ Approved \`${id}\`. **In Rainbows** by **Radiohead** now uses the submitted cover.`);
+    });
+
+    test('moderators of other servers can only submit fixes', async () => {
+        serveImage('https://images.example.com/in-rainbows.jpg', 600, 600, 'jpeg');
+        const elsewhere = { ...MODERATOR, guildId: '1400000000000000002' };
+
+        const fix = await send(fixCommand(elsewhere));
+        const id = embedOf(fix).fields.find(f => f.name === 'ID')!.value.replace(/`/g, '');
+        assert.equal(embedOf(fix).fields.find(f => f.name === 'Status')!.value, '🕓 pending');
+
+        const denied = await send(slashCommand('cover', [subcommandGroup('overrides', [subcommand('approve', [option('id', id)])])], elsewhere));
+        assert.equal(denied.body.data.content, "🚫 Cover overrides apply in every server, so only the bot's own moderators can review them.");
+
+        const developer = await send(slashCommand('cover', [subcommandGroup('overrides', [subcommand('approve', [option('id', id)])])], { user: developerUser, guildId: null }));
+        assert.match(developer.body.data.content, /^✅ Approved/);
+    });
+
+    test('serves pending images only through reviewer links', async () => {
+        serveImage('https://images.example.com/in-rainbows.jpg', 600, 600, 'jpeg');
+        const fix = await send(fixCommand());
+        const id = embedOf(fix).fields.find(f => f.name === 'ID')!.value.replace(/`/g, '');
+        assert.equal(embedOf(fix).image, undefined);
+
+        const fetchImage = (url: string) => GET(new NextRequest(url), { params: Promise.resolve({ id }) });
+        const publicUrl = `https://zorpheus.test/api/cover-override/${id}`;
+        assert.equal((await fetchImage(publicUrl)).status, 404);
+        assert.equal((await fetchImage(`${publicUrl}?token=forged`)).status, 404);
+
+        const listFor = async (invoker = {}) => {
+            const list = await send(slashCommand('cover', [subcommandGroup('overrides', [subcommand('list')])], invoker));
+            return list.body.data.embeds[0].description;
+        };
+        assert.doesNotMatch(await listFor(), /\[image\]/);
+        const reviewUrl = (await listFor(MODERATOR)).match(/\[image\]\((.+?)\)/)![1];
+        const pending = await fetchImage(reviewUrl);
+        assert.equal(pending.status, 200);
+        assert.equal(pending.headers.get('Cache-Control'), 'private, no-store');
+
+        await send(slashCommand('cover', [subcommandGroup('overrides', [subcommand('approve', [option('id', id)])])], MODERATOR));
+        assert.equal((await fetchImage(publicUrl)).status, 200);
+    });
+
+    test('keeps override IDs that look like numbers intact', async () => {
+        serveImage('https://images.example.com/in-rainbows.jpg', 600, 600, 'jpeg');
+        const uuids = ['1e234567-0000-4000-8000-000000000000', 'b1234567-0000-4000-8000-000000000000'];
+        const randomUUID = mock.method(crypto, 'randomUUID', () => uuids.shift()!);
+        try {
+            await send(fixCommand());
+        } finally {
+            randomUUID.mock.restore();
+        }
+
+        // One stored before new IDs had to start with a letter.
+        const [submitted] = await listOverrides('pending');
+        assert.equal(submitted.id, 'b1234567');
+        await kv.set(keys.override('12345678'), { ...submitted, id: '12345678', submittedAt: submitted.submittedAt + 1 });
+        await kv.set(keys.overrideImage('12345678'), await kv.get(keys.overrideImage(submitted.id)));
+        await kv.zadd(keys.overrideIndex('pending'), { score: submitted.submittedAt + 1, member: '12345678' });
+
+        assert.deepEqual((await listOverrides('pending')).map(override => override.id), ['12345678', 'b1234567']);
+        const approved = await send(slashCommand('cover', [subcommandGroup('overrides', [subcommand('approve', [option('id', '12345678')])])], MODERATOR));
+        assert.match(approved.body.data.content, /^✅ Approved `12345678`/);
+        assert.deepEqual((await listOverrides('pending')).map(override => override.id), ['b1234567']);
+        assert.deepEqual((await listOverrides('approved')).map(override => override.id), ['12345678']);
+    });
+
+    test('only downloads fixes from public hosts', async () => {
+        const fixFrom = (url: string) => send(slashCommand('cover', [subcommand('fix', [
+            option('artist', 'Radiohead'), option('album', 'In Rainbows'), option('url', url),
+        ])]));
+        resolveHost('intranet.example.com', '10.0.0.8');
+        onRequest('GET', 'https://images.example.com/moved.jpg', () => new Response(null, { status: 302, headers: { location: 'http://127.0.0.1:8080/admin.jpg' } }));
+        serveJson('https://images.example.com/missing.jpg', {}, 404);
+
+        for (const url of [
+            'http://169.254.169.254/latest/meta-data/',
+            'http://[::1]/cover.jpg',
+            'https://intranet.example.com/cover.jpg',
+            'https://images.example.com/moved.jpg',
+            'https://images.example.com/missing.jpg',
+        ]) {
+            const result = await fixFrom(url);
+            assert.equal(finalEdit(result).payload!.content, "Couldn't download that image. Check the link and try again.", url);
+        }
+        const downloads = requests.filter(request => request.url.hostname !== 'discord.com').map(request => request.url.href);
+        assert.deepEqual(downloads, ['https://images.example.com/moved.jpg', 'https://images.example.com/missing.jpg']);
+    });
+
+    test('stops reading images over 10 MB', async () => {
+        // No content-length, so the limit has to be enforced while reading.
+        const body = new ReadableStream({
+            pull(controller) {
+                controller.enqueue(new Uint8Array(1024 * 1024));
+            },
+        });
+        onRequest('GET', 'https://images.example.com/huge.jpg', () => new Response(body));
+
+        const result = await send(slashCommand('cover', [subcommand('fix', [
+            option('artist', 'Radiohead'), option('album', 'In Rainbows'), option('url', 'https://images.example.com/huge.jpg'),
+        ])]));
+
+        assert.equal(finalEdit(result).payload!.content, 'That image is too large. The limit is 10 MB.');
+    });
+
+    test('limits how many fixes a user can have waiting', async () => {
+        serveImage('https://images.example.com/in-rainbows.jpg', 600, 600, 'jpeg');
+        const ids: string[] = [];
+        for (let i = 0; i < 3; i++) {
+            const fix = await send(fixCommand());
+            ids.push(embedOf(fix).fields.find(f => f.name === 'ID')!.value.replace(/`/g, ''));
+        }
+
+        const refused = await send(fixCommand());
+        assert.equal(finalEdit(refused).payload!.content, 'You already have 3 covers waiting for review. Try again once a moderator has looked at them.');
+        assert.equal((await listOverrides('pending')).length, 3);
+
+        await send(slashCommand('cover', [subcommandGroup('overrides', [subcommand('reject', [option('id', ids[0])])])], MODERATOR));
+        const accepted = await send(fixCommand());
+        assert.equal(embedOf(accepted).fields.find(f => f.name === 'Status')!.value, '🕓 pending');
+    });
+
+    test('drops fixes nobody reviews within two weeks', async () => {
+        serveImage('https://images.example.com/in-rainbows.jpg', 600, 600, 'jpeg');
+        const fix = await send(fixCommand());
+        const id = embedOf(fix).fields.find(f => f.name === 'ID')!.value.replace(/`/g, '');
+
+        const later = Date.now() + 15 * 86400 * 1000;
+        const now = mock.method(Date, 'now', () => later);
+        try {
+            assert.deepEqual(await listOverrides('pending'), []);
+            assert.deepEqual(await kv.zrange(keys.overrideIndex('pending'), 0, -1), []);
+            const approve = await send(slashCommand('cover', [subcommandGroup('overrides', [subcommand('approve', [option('id', id)])])], MODERATOR));
+            assert.equal(approve.body.data.content, `There is no cover override with ID \`${id}\`.`);
+        } finally {
+            now.mock.restore();
+        }
+    });
+
+    test('needs exactly one of an attachment or a link', async () => {
+        const result = await send(slashCommand('cover', [subcommand('fix', [option('artist', 'Radiohead'), option('album', 'In Rainbows')])]));
+
+        assert.equal(result.body.data.content, 'Please either attach an image or paste a link to one (but not both).');
+    });
+});
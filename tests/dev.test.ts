@@ -0,0 +1,102 @@
+// tests/dev.test.ts
+import { beforeEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MessageFlags } from 'discord-api-types/v10';
+import { getLastFmUsername } from '@/utils/storage';
+import { developerUser, finalEdit, option, send, slashCommand } from './helpers/interactions';
+import { resetKv } from './helpers/kv';
+import { resetNetwork, serveLastFm } from './helpers/network';
+
+const asDeveloper = { user: developerUser };
+
+beforeEach(async () => {
+    resetNetwork();
+    await resetKv();
+});
+
+test('is restricted to developers', async () => {
+    const result = await send(slashCommand('dev', [option('key', 'ping')]));
+
+    assert.equal(result.body.data.content, '🚫 This command is restricted to developers only.');
+    assert.equal(result.body.data.flags, MessageFlags.Ephemeral);
+});
+
+test('rejects unknown keys', async () => {
+    const result = await send(slashCommand('dev', [option('key', 'test-nothing')], asDeveloper));
+
+    assert.match(result.body.data.content, /^Unknown developer command key: `test-nothing`\./);
+});
+
+test('runs a registered command with options parsed from the value', async () => {
+    serveLastFm('user.gettopalbums', 'lastfm/user.gettopalbums.json', { user: 'rj', period: '1month' });
+
+    const result = await send(slashCommand('dev', [option('key', 'chart'), option('value', 'period=1month user="rj"')], asDeveloper));
+
+    const edit = finalEdit(result);
+    assert.equal(edit.payload!.content, '-# *Top Albums (Last Month) - **rj***');
+    assert.equal(edit.files[0].name, 'chart.png');
+});
+
+test('explains values that do not fit the command', async () => {
+    const unknown = await send(slashCommand('dev', [option('key', 'chart'), option('value', 'colour=red')], asDeveloper));
+    assert.match(unknown.body.data.content, /^❌ `\/chart` has no option `colour`\. Options: `type`, `size`, `period`, `user`/);
+
+    const choice = await send(slashCommand('dev', [option('key', 'chart'), option('value', 'period=fortnight')], asDeveloper));
+    assert.match(choice.body.data.content, /^❌ `period` must be one of /);
+
+    const subcommand = await send(slashCommand('dev', [option('key', 'league')], asDeveloper));
+    assert.equal(subcommand.body.data.content, '❌ `/league` needs one of `find`, `banned` first.');
+});
+
+test('dry runs return the would-be payload as a JSON file', async () => {
+    const result = await send(slashCommand('dev', [option('key', 'ping'), option('dry_run', true)], asDeveloper));
+
+    assert.equal(result.body.data.flags, MessageFlags.Ephemeral);
+    const edit = finalEdit(result);
+    assert.equal(edit.payload!.content, 'Dry run of `/ping`: the initial response and 0 Discord requests.');
+    assert.equal(edit.files[0].name, 'ping.dry-run.json');
+    const report = JSON.parse(edit.files[0].data.toString());
+    assert.equal(report.response.status, 200);
+    assert.match(report.response.body.data.content, /^BOING!! ZOOM!!/);
+    // Nothing but the dry run's own reply reached Discord.
+    assert.equal(result.calls.length, 1);
+});
+
+test('dry runs capture the requests of deferred work', async () => {
+    serveLastFm('user.gettopalbums', 'lastfm/user.gettopalbums.json');
+
+    const result = await send(slashCommand('dev', [option('key', 'chart'), option('value', 'user=alice'), option('dry_run', true)], asDeveloper));
+
+    const report = JSON.parse(finalEdit(result).files[0].data.toString());
+    assert.equal(report.invocation, '/chart user:alice');
+    assert.equal(report.response.body.type, 5);
+    assert.deepEqual(report.requests.map((r: { method: string; path: string }) => `${r.method} ${r.path}`), [
+        'PATCH /webhooks/1100000000000000001/:token/messages/@original',
+    ]);
+    assert.equal(report.requests[0].files[0].name, 'chart.png');
+    assert.equal(result.calls.length, 1);
+});
+
+test('dry runs record KV writes instead of making them', async () => {
+    const result = await send(slashCommand('dev', [option('key', 'register'), option('value', 'username=alice'), option('dry_run', true)], asDeveloper));
+
+    const report = JSON.parse(finalEdit(result).files[0].data.toString());
+    assert.match(report.response.body.data.content, /^✅ Success!/);
+    assert.deepEqual(report.writes[0], { command: 'set', key: `user:${developerUser.id}` });
+    assert.equal(await getLastFmUsername(developerUser.id), null);
+});
+
+test('saves invocations and replays them', async () => {
+    const saved = await send(slashCommand('dev', [option('key', 'ping'), option('save', 'latency')], asDeveloper));
+    assert.match(saved.body.data.content, /^BOING!! ZOOM!!/);
+    assert.equal(saved.calls[0].payload!.content, 'Saved as `latency`. Replay it with `/dev key:replay value:latency`.');
+
+    const listed = await send(slashCommand('dev', [option('key', 'replay')], asDeveloper));
+    assert.equal(listed.body.data.content, '**Saved interactions**\n`latency` — /ping');
+
+    const replayed = await send(slashCommand('dev', [option('key', 'replay'), option('value', 'latency')], asDeveloper));
+    assert.match(replayed.body.data.content, /^BOING!! ZOOM!!/);
+
+    const missing = await send(slashCommand('dev', [option('key', 'replay'), option('value', 'nope')], asDeveloper));
+    assert.equal(missing.body.data.content, 'No saved interaction called `nope`.');
+});
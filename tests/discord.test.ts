@@ -0,0 +1,63 @@
+// tests/discord.test.ts
+import { beforeEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DiscordApiError, discordRequest } from '@/utils/discord';
+import { jsonResponse, onRequest, requests, resetNetwork } from './helpers/network';
+
+const PATH = '/webhooks/1100000000000000001/token/messages/@original';
+
+/** Answers the request with each response in turn. */
+function respondWith(...responses: (() => Response)[]) {
+    onRequest('PATCH', `https://discord.com/api/v10${PATH}`, () => responses.shift()!());
+}
+
+function attempts() {
+    return requests.filter(request => request.url.pathname.endsWith(PATH)).length;
+}
+
+beforeEach(() => {
+    resetNetwork();
+});
+
+test('waits out a 429 for as long as retry_after says', async () => {
+    respondWith(
+        () => jsonResponse({ message: 'You are being rate limited.', retry_after: 0.2, global: false }, 429),
+        () => jsonResponse({ id: '1' }),
+    );
+
+    const started = Date.now();
+    const result = await discordRequest('PATCH', PATH, { content: 'hi' });
+
+    assert.deepEqual(result, { id: '1' });
+    assert.equal(attempts(), 2);
+    assert.ok(Date.now() - started >= 200, 'retried before retry_after was up');
+});
+
+test('retries server errors with a backoff', async () => {
+    respondWith(
+        () => new Response(null, { status: 502, statusText: 'Bad Gateway' }),
+        () => jsonResponse({ id: '1' }),
+    );
+
+    assert.deepEqual(await discordRequest('PATCH', PATH, { content: 'hi' }), { id: '1' });
+    assert.equal(attempts(), 2);
+});
+
+test('gives up on server errors after three attempts', async () => {
+    respondWith(...Array.from({ length: 3 }, () => () => new Response(null, { status: 503, statusText: 'Service Unavailable' })));
+
+    await assert.rejects(discordRequest('PATCH', PATH, { content: 'hi' }), (error: unknown) => {
+        assert.ok(error instanceof DiscordApiError);
+        assert.equal(error.status, 503);
+        assert.equal(error.route, 'PATCH /webhooks/1100000000000000001/:token/messages/@original');
+        return true;
+    });
+    assert.equal(attempts(), 3);
+});
+
+test('does not retry other errors', async () => {
+    respondWith(() => jsonResponse({ message: 'Unknown Message', code: 10008 }, 404));
+
+    await assert.rejects(discordRequest('PATCH', PATH, { content: 'hi' }), { name: 'DiscordApiError', status: 404, code: 10008 });
+    assert.equal(attempts(), 1);
+});
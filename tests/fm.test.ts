@@ -0,0 +1,64 @@
+// tests/fm.test.ts
+import { beforeEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { InteractionResponseType, MessageFlags } from 'discord-api-types/v10';
+import { registerUser } from '@/utils/storage';
+import { finalEdit, option, send, slashCommand, TEST_GUILD_ID, testUser } from './helpers/interactions';
+import { resetKv } from './helpers/kv';
+import { onRequest, resetNetwork, serveLastFm } from './helpers/network';
+
+beforeEach(async () => {
+    resetNetwork();
+    await resetKv();
+});
+
+test('shows the track the user is listening to', async () => {
+    await registerUser(testUser.id, 'alice', TEST_GUILD_ID);
+    serveLastFm('user.getrecenttracks', 'lastfm/user.getrecenttracks.json', { user: 'alice' });
+    serveLastFm('track.getInfo', 'lastfm/track.getInfo.json');
+
+    const result = await send(slashCommand('fm'));
+
+    assert.equal(result.body.type, InteractionResponseType.DeferredChannelMessageWithSource);
+
+    const [embed] = finalEdit(result).payload!.embeds as Record<string, never>[];
+    assert.equal(embed.title, 'Reckoner' + '⠀'.repeat(12));
+    assert.equal(embed.description, 'Radiohead •  In Rainbows \n-# ⏱ (4:50)');
+    // The Last.fm image is asked for at its largest size.
+    assert.deepEqual(embed.thumbnail, { url: 'https://lastfm.freetls.fastly.net/i/u/1000x1000/4c5ac55b1cc0427f8ee2ae0b1a1cbcf0.png' });
+    assert.equal((embed.footer as { text: string }).text, 'Currently listening: alice');
+});
+
+test('looks up the username given instead of the registered one', async () => {
+    await registerUser(testUser.id, 'alice', TEST_GUILD_ID);
+    serveLastFm('user.getrecenttracks', 'lastfm/user.getrecenttracks.empty.json', { user: 'newcomer' });
+
+    const result = await send(slashCommand('fm', [option('username', 'newcomer')]));
+
+    assert.equal(finalEdit(result).payload!.content, 'Could not find any recent tracks for user `newcomer`.');
+});
+
+test('asks unregistered users to register', async () => {
+    const result = await send(slashCommand('fm'));
+
+    assert.equal(result.body.type, InteractionResponseType.ChannelMessageWithSource);
+    assert.equal(result.body.data.flags, MessageFlags.Ephemeral);
+    assert.match(result.body.data.content, /haven't registered your Last\.fm username/);
+    assert.equal(result.calls.length, 0);
+});
+
+test('explains Last.fm errors', async () => {
+    serveLastFm('user.getrecenttracks', 'lastfm/error.user-not-found.json');
+
+    const result = await send(slashCommand('fm', [option('username', 'nobody')]));
+
+    assert.equal(finalEdit(result).payload!.content, "Last.fm couldn't find what you asked for (User not found).");
+});
+
+test('treats a reply that is not JSON as Last.fm being down', async () => {
+    onRequest('GET', 'https://ws.audioscrobbler.com/', () => new Response('<html>502 Bad Gateway</html>', { headers: { 'Content-Type': 'text/html' } }));
+
+    const result = await send(slashCommand('fm', [option('username', 'alice')]));
+
+    assert.equal(finalEdit(result).payload!.content, 'Last.fm is having trouble right now. Please try again later.');
+});
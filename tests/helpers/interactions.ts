@@ -0,0 +1,247 @@
+// tests/helpers/interactions.ts
+import { generateKeyPairSync, randomBytes, sign } from 'crypto';
+import {
+    APIApplicationCommandInteractionDataOption,
+    APIAttachment,
+    APIInteractionDataResolved,
+    APIUser,
+    ApplicationCommandOptionType,
+    ApplicationCommandType,
+    ComponentType,
+    InteractionResponseType,
+    InteractionType,
+} from 'discord-api-types/v10';
+import { workAsyncStorage, WorkStore } from 'next/dist/server/app-render/work-async-storage.external';
+import { POST } from '@/app/api/interactions/route';
+import { DiscordCall, discordCalls, requests } from './network';
+
+// --- Signing ---
+// Discord signs every interaction with Ed25519. The suite generates its own key
+// pair and hands the route the public half, so requests go through the real check.
+
+const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+// The raw key is the last 32 bytes of the SPKI encoding.
+process.env.DISCORD_PUBLIC_KEY = publicKey.export({ format: 'der', type: 'spki' }).subarray(-32).toString('hex');
+
+export function signedRequest(body: string, options: { timestamp?: string; tamper?: boolean } = {}): Request {
+    const timestamp = options.timestamp ?? String(Math.floor(Date.now() / 1000));
+    const signature = sign(null, Buffer.from(timestamp + body), privateKey).toString('hex');
+
+    return new Request('https://zorpheus.test/api/interactions', {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'X-Signature-Ed25519': options.tamper ? signature.replace(/^./, c => (c === '0' ? '1' : '0')) : signature,
+            'X-Signature-Timestamp': timestamp,
+        },
+        body,
+    });
+}
+
+// --- Users and guilds ---
+
+export const TEST_GUILD_ID = '1400000000000000001';
+
+export const testUser: APIUser = {
+    id: '1300000000000000001',
+    username: 'tester',
+    discriminator: '0',
+    global_name: 'Tester',
+    avatar: null,
+};
+
+export const otherUser: APIUser = { ...testUser, id: '1300000000000000002', username: 'someone-else', global_name: null };
+
+/** Listed in DEVELOPER_IDS by the setup file. */
+export const developerUser: APIUser = { ...testUser, id: '1200000000000000001', username: 'developer', global_name: null };
+
+export type Invoker = {
+    user?: APIUser;
+    /** The guild the interaction came from, or null for a DM. */
+    guildId?: string | null;
+    /** The member's permission bitfield in that guild. */
+    permissions?: string;
+};
+
+const DISCORD_EPOCH = BigInt(1420070400000);
+
+let increment = 0;
+
+/**
+ * A snowflake for the current time, which is what `/ping` measures latency from.
+ * The increment keeps them unique, since repeated interaction IDs are rejected.
+ */
+export function snowflake(): string {
+    increment = (increment + 1) & 0xfff;
+    return ((BigInt(Date.now()) - DISCORD_EPOCH) << BigInt(22) | BigInt(increment)).toString();
+}
+
+function baseInteraction(type: InteractionType, data: object, { user = testUser, guildId = TEST_GUILD_ID, permissions = '0' }: Invoker) {
+    const context = guildId
+        ? {
+            guild_id: guildId,
+            member: { user, roles: [], permissions, joined_at: '2024-01-01T00:00:00.000Z', deaf: false, mute: false, flags: 0 },
+        }
+        : { user };
+
+    return {
+        id: snowflake(),
+        application_id: process.env.DISCORD_APPLICATION_ID!,
+        type,
+        token: `test-token-${randomBytes(8).toString('hex')}`,
+        version: 1,
+        channel_id: '1500000000000000001',
+        locale: 'en-US',
+        app_permissions: '0',
+        entitlements: [],
+        authorizing_integration_owners: {},
+        data,
+        ...context,
+    };
+}
+
+// --- Options ---
+
+export function option(name: string, value: string | number | boolean, extra: { focused?: boolean } = {}): APIApplicationCommandInteractionDataOption {
+    const type = typeof value === 'boolean'
+        ? ApplicationCommandOptionType.Boolean
+        : typeof value === 'number'
+            ? ApplicationCommandOptionType.Integer
+            : ApplicationCommandOptionType.String;
+    return { name, type, value, ...extra } as APIApplicationCommandInteractionDataOption;
+}
+
+export function subcommand(name: string, options: APIApplicationCommandInteractionDataOption[] = []): APIApplicationCommandInteractionDataOption {
+    return { name, type: ApplicationCommandOptionType.Subcommand, options } as APIApplicationCommandInteractionDataOption;
+}
+
+export function subcommandGroup(name: string, options: APIApplicationCommandInteractionDataOption[]): APIApplicationCommandInteractionDataOption {
+    return { name, type: ApplicationCommandOptionType.SubcommandGroup, options } as APIApplicationCommandInteractionDataOption;
+}
+
+/**
+ * An attachment option along with the `resolved` entry Discord sends for it.
+ */
+export function attachment(name: string, file: Partial<APIAttachment> & { url: string }) {
+    const id = file.id ?? snowflake();
+    const resolvedAttachment: APIAttachment = {
+        id,
+        filename: 'upload',
+        size: 1024,
+        proxy_url: file.url,
+        ...file,
+    };
+    return {
+        option: { name, type: ApplicationCommandOptionType.Attachment, value: id } as APIApplicationCommandInteractionDataOption,
+        resolved: { attachments: { [id]: resolvedAttachment } } as APIInteractionDataResolved,
+    };
+}
+
+// --- Interactions ---
+
+export function slashCommand(name: string, options: APIApplicationCommandInteractionDataOption[] = [], invoker: Invoker & { resolved?: APIInteractionDataResolved } = {}) {
+    return baseInteraction(InteractionType.ApplicationCommand, {
+        id: snowflake(),
+        name,
+        type: ApplicationCommandType.ChatInput,
+        options,
+        ...(invoker.resolved ? { resolved: invoker.resolved } : {}),
+    }, invoker);
+}
+
+export function autocomplete(name: string, options: APIApplicationCommandInteractionDataOption[], invoker: Invoker = {}) {
+    return baseInteraction(InteractionType.ApplicationCommandAutocomplete, {
+        id: snowflake(),
+        name,
+        type: ApplicationCommandType.ChatInput,
+        options,
+    }, invoker);
+}
+
+export function buttonClick(customId: string, invoker: Invoker = {}) {
+    return {
+        ...baseInteraction(InteractionType.MessageComponent, { custom_id: customId, component_type: ComponentType.Button }, invoker),
+        message: { id: snowflake(), channel_id: '1500000000000000001' },
+    };
+}
+
+export function selectMenuPick(customId: string, values: string[], invoker: Invoker = {}) {
+    return {
+        ...baseInteraction(InteractionType.MessageComponent, { custom_id: customId, component_type: ComponentType.StringSelect, values }, invoker),
+        message: { id: snowflake(), channel_id: '1500000000000000001' },
+    };
+}
+
+export function ping() {
+    return { id: snowflake(), application_id: process.env.DISCORD_APPLICATION_ID!, type: InteractionType.Ping, token: 'ping', version: 1 };
+}
+
+// --- Sending ---
+
+/**
+ * The parts of an interaction response the tests read. Fields are typed as always
+ * there, since an assertion on one the response left out fails either way.
+ */
+export type ResponseBody = {
+    type: InteractionResponseType;
+    data: {
+        content: string;
+        flags?: number;
+        embeds: { title: string; description: string; url?: string; fields: { name: string; value: string }[] }[];
+        components: { components: { custom_id: string }[] }[];
+        choices: { name: string; value: string }[];
+    };
+};
+
+export type InteractionResult = {
+    status: number;
+    /** What the route answered Discord with, parsed. Null for plain-text errors, which are in `text`. */
+    body: ResponseBody;
+    /** The response as sent. */
+    text: string;
+    /** Discord API calls made while handling the interaction, deferred work included. */
+    calls: DiscordCall[];
+};
+
+/**
+ * Signs an interaction, posts it to the interactions route and waits for any work
+ * it scheduled with `after()` to finish, the way Next would once the response is sent.
+ */
+export async function send(interaction: object, options: { tamper?: boolean; timestamp?: string } = {}): Promise<InteractionResult> {
+    const firstRequest = requests.length;
+    const afterTasks: (() => unknown)[] = [];
+
+    // `after()` finds its queue through Next's request store; this is the one part of it the bot uses.
+    const store = {
+        afterContext: {
+            after: (task: Promise<unknown> | (() => unknown)) => afterTasks.push(typeof task === 'function' ? task : () => task),
+        },
+    } as unknown as WorkStore;
+
+    const response = await workAsyncStorage.run(store, () => POST(signedRequest(JSON.stringify(interaction), options)));
+    const text = await response.text();
+
+    await workAsyncStorage.run(store, () => Promise.all(afterTasks.map(task => task())));
+
+    const calls = await discordCalls(firstRequest);
+
+    let body: ResponseBody | null = null;
+    try {
+        body = JSON.parse(text);
+    } catch {
+        // Error responses are plain text.
+    }
+    // Typed as always there so tests can read it directly; the few that check an error read `text`.
+    return { status: response.status, body: body as ResponseBody, text, calls };
+}
+
+/**
+ * The last edit made to the original response, which is where deferred commands put their result.
+ */
+export function finalEdit(result: InteractionResult): DiscordCall {
+    const edits = result.calls.filter(call => call.method === 'PATCH' && call.path.endsWith('/messages/@original'));
+    if (edits.length === 0) {
+        throw new Error(`Expected the original response to be edited, but Discord got: ${result.calls.map(c => `${c.method} ${c.path}`).join(', ') || 'nothing'}`);
+    }
+    return edits[edits.length - 1];
+}
@@ -0,0 +1,14 @@
+// tests/helpers/kv.ts
+import { rm } from 'fs/promises';
+import { kv } from '@/utils/storage';
+
+/**
+ * Empties the in-memory store the setup file selects, and the chart thumbnails
+ * cached on disk next to it, so each test starts clean.
+ */
+export async function resetKv() {
+    for await (const key of kv.scanIterator()) {
+        await kv.del(key);
+    }
+    await rm(process.env.THUMBNAIL_CACHE_DIR!, { recursive: true, force: true });
+}
@@ -0,0 +1,218 @@
+// tests/helpers/network.ts
+import dns from 'dns';
+import { readFileSync } from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+
+// Every outbound request the bot makes goes through `fetch`, which the setup file
+// replaces with a router over recorded fixtures. Requests nothing is registered
+// for fail like a dead network would, and are kept in `unhandledRequests` so tests
+// can tell a deliberate miss from a forgotten fixture.
+
+export type RecordedRequest = {
+    method: string;
+    url: URL;
+    headers: Headers;
+    body: BodyInit | null;
+};
+
+type FixtureHandler = (request: RecordedRequest) => Response | Promise<Response>;
+
+type FixtureRoute = {
+    method?: string;
+    match: (url: URL) => boolean;
+    handle: FixtureHandler;
+};
+
+const FIXTURE_DIR = path.join(process.cwd(), 'tests', 'fixtures');
+
+const defaultRoutes: FixtureRoute[] = [];
+let routes: FixtureRoute[] = [];
+
+export const requests: RecordedRequest[] = [];
+export const unhandledRequests: RecordedRequest[] = [];
+
+async function fixtureFetch(input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> {
+    const url = new URL(input instanceof Request ? input.url : input.toString());
+    const request: RecordedRequest = {
+        method: (init.method ?? 'GET').toUpperCase(),
+        url,
+        headers: new Headers(init.headers),
+        body: init.body ?? null,
+    };
+    requests.push(request);
+
+    // Later registrations win, so a test can override a default.
+    const route = [...defaultRoutes, ...routes]
+        .reverse()
+        .find(r => (!r.method || r.method === request.method) && r.match(url));
+
+    if (!route) {
+        unhandledRequests.push(request);
+        throw new TypeError(`fetch failed: no fixture for ${request.method} ${url}`);
+    }
+    return route.handle(request);
+}
+
+// Host names don't resolve for real either. Every name looks like a public host
+// unless a test points it somewhere with `resolveHost`.
+const PUBLIC_ADDRESS = '93.184.216.34';
+const hostAddresses = new Map<string, string>();
+
+async function fixtureLookup(hostname: string, options: { all?: boolean } = {}) {
+    const address = hostAddresses.get(hostname) ?? (hostname === 'localhost' ? '127.0.0.1' : PUBLIC_ADDRESS);
+    const found = { address, family: address.includes(':') ? 6 : 4 };
+    return options.all ? [found] : found;
+}
+
+export function installFixtureFetch() {
+    globalThis.fetch = fixtureFetch as typeof fetch;
+    dns.promises.lookup = fixtureLookup as typeof dns.promises.lookup;
+    installDefaultRoutes();
+}
+
+export function resolveHost(hostname: string, address: string) {
+    hostAddresses.set(hostname, address);
+}
+
+/**
+ * Drops the routes, host addresses and recorded requests of the previous test.
+ * The Discord API and image CDN defaults stay in place.
+ */
+export function resetNetwork() {
+    routes = [];
+    requests.length = 0;
+    unhandledRequests.length = 0;
+    hostAddresses.clear();
+}
+
+export function onRequest(method: string | undefined, match: string | RegExp | ((url: URL) => boolean), handle: FixtureHandler) {
+    const matcher = typeof match === 'function'
+        ? match
+        : typeof match === 'string'
+            ? (url: URL) => url.href.startsWith(match)
+            : (url: URL) => match.test(url.href);
+    routes.push({ method, match: matcher, handle });
+}
+
+// --- Fixtures ---
+
+export function readFixture(name: string): string {
+    return readFileSync(path.join(FIXTURE_DIR, name), 'utf8');
+}
+
+export function loadFixture<T = unknown>(name: string): T {
+    return JSON.parse(readFixture(name)) as T;
+}
+
+export function jsonResponse(body: unknown, status = 200): Response {
+    return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+/**
+ * Answers requests starting with `url` with a JSON fixture file (or a literal body).
+ */
+export function serveJson(url: string | RegExp, fixture: string | object, status = 200) {
+    const body = typeof fixture === 'string' ? loadFixture(fixture) : fixture;
+    onRequest('GET', url, () => jsonResponse(body, status));
+}
+
+/**
+ * Answers a Last.fm API method. `params` narrows the route to calls whose query
+ * includes those values, e.g. one fixture per user.
+ */
+export function serveLastFm(method: string, fixture: string | object, params: Record<string, string> = {}) {
+    const body = typeof fixture === 'string' ? loadFixture(fixture) : fixture;
+    onRequest('GET', url => url.hostname === 'ws.audioscrobbler.com'
+        && url.searchParams.get('method') === method
+        && Object.entries(params).every(([key, value]) => url.searchParams.get(key) === value),
+    () => jsonResponse(body));
+}
+
+// --- Images ---
+
+const imageCache = new Map<string, Promise<Buffer>>();
+
+/**
+ * A solid-colour PNG of the given size. The colour is derived from the size, so
+ * differently sized covers are also visibly different in a rendered chart.
+ */
+export function createImage(width: number, height = width, format: 'png' | 'jpeg' = 'png'): Promise<Buffer> {
+    const key = `${width}x${height}.${format}`;
+    if (!imageCache.has(key)) {
+        const image = sharp({
+            create: { width, height, channels: 3, background: { r: (width * 7) % 256, g: (height * 13) % 256, b: 160 } },
+        });
+        imageCache.set(key, (format === 'png' ? image.png() : image.jpeg()).toBuffer());
+    }
+    return imageCache.get(key)!;
+}
+
+export function imageResponse(buffer: Buffer, format: 'png' | 'jpeg' = 'png'): Response {
+    return new Response(new Uint8Array(buffer), { headers: { 'Content-Type': `image/${format}`, 'Content-Length': String(buffer.length) } });
+}
+
+/**
+ * Serves an image of the given size at `url`, for covers from other services.
+ */
+export function serveImage(url: string | RegExp, width: number, height = width, format: 'png' | 'jpeg' = 'png') {
+    onRequest('GET', url, async () => imageResponse(await createImage(width, height, format), format));
+}
+
+// --- Defaults ---
+
+function installDefaultRoutes() {
+    defaultRoutes.push(
+        // Last.fm's CDN puts the size in the path (`/i/u/300x300/...`) and serves any size asked for.
+        {
+            method: 'GET',
+            match: url => url.hostname === 'lastfm.freetls.fastly.net',
+            handle: async ({ url }) => {
+                const size = url.pathname.match(/\/(\d+)x(\d+)\//);
+                return imageResponse(await createImage(size ? Number(size[1]) : 300, size ? Number(size[2]) : 300));
+            },
+        },
+        // Interaction callbacks and webhook edits. They're inspected through `discordCalls()`.
+        {
+            match: url => url.hostname === 'discord.com',
+            handle: ({ method, url }) => method === 'DELETE' || url.pathname.endsWith('/callback')
+                ? new Response(null, { status: 204 })
+                : jsonResponse(loadFixture('discord/message.json')),
+        },
+    );
+}
+
+// --- Discord ---
+
+export type DiscordFileUpload = { name: string; data: Buffer };
+
+export type DiscordCall = {
+    method: string;
+    /** The path below `/api/v10`, with the interaction token left in. */
+    path: string;
+    payload: Record<string, unknown> | null;
+    files: DiscordFileUpload[];
+};
+
+/**
+ * The requests made to the Discord API (from the `since`th request on), with
+ * multipart uploads split back into their JSON payload and files.
+ */
+export async function discordCalls(since = 0): Promise<DiscordCall[]> {
+    const calls = requests.slice(since).filter(request => request.url.hostname === 'discord.com');
+    return Promise.all(calls.map(async ({ method, url, body }) => {
+        const path = url.pathname.replace(/^\/api\/v10/, '');
+
+        if (body instanceof FormData) {
+            const files: DiscordFileUpload[] = [];
+            for (const [field, value] of body.entries()) {
+                if (field.startsWith('files[') && value instanceof Blob) {
+                    files.push({ name: (value as File).name, data: Buffer.from(await value.arrayBuffer()) });
+                }
+            }
+            return { method, path, payload: JSON.parse(String(body.get('payload_json'))), files };
+        }
+
+        return { method, path, payload: typeof body === 'string' ? JSON.parse(body) : null, files: [] };
+    }));
+}
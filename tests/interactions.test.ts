@@ -0,0 +1,131 @@
+// tests/interactions.test.ts
+import { beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { InteractionResponseType } from 'discord-api-types/v10';
+import { captureDiscordRequests, deferWork, editReply } from '@/utils/discord';
+import { autocomplete, buttonClick, option, ping, send, slashCommand, subcommand } from './helpers/interactions';
+import { resetKv } from './helpers/kv';
+import { resetNetwork, serveLastFm } from './helpers/network';
+
+beforeEach(async () => {
+    resetNetwork();
+    await resetKv();
+});
+
+describe('request verification', () => {
+    test('rejects a request whose signature does not match', async () => {
+        const result = await send(ping(), { tamper: true });
+        assert.equal(result.status, 401);
+    });
+
+    test('rejects a request signed too long ago', async () => {
+        const tenMinutesAgo = String(Math.floor(Date.now() / 1000) - 600);
+        const result = await send(ping(), { timestamp: tenMinutesAgo });
+        assert.equal(result.status, 401);
+    });
+
+    test('accepts a little clock skew', async () => {
+        const aMinuteAhead = String(Math.floor(Date.now() / 1000) + 60);
+        const result = await send(ping(), { timestamp: aMinuteAhead });
+        assert.equal(result.status, 200);
+    });
+
+    test('drops an interaction it has already received', async () => {
+        const interaction = slashCommand('ping');
+        assert.equal((await send(interaction)).status, 200);
+
+        const replayed = await send(interaction);
+        assert.equal(replayed.status, 409);
+        assert.equal(replayed.calls.length, 0);
+    });
+
+    test('logs why a request was rejected', async () => {
+        const warn = mock.method(console, 'warn', () => {});
+        try {
+            await send(ping(), { tamper: true });
+            const [line] = warn.mock.calls.at(-1)!.arguments;
+            assert.deepEqual(JSON.parse(line), {
+                event: 'discord_request_rejected',
+                reason: 'invalid-signature',
+                detail: 'Signature does not match the body and timestamp',
+                interactionId: null,
+                timestamp: JSON.parse(line).timestamp,
+                ip: null,
+                userAgent: null,
+            });
+        } finally {
+            warn.mock.restore();
+        }
+    });
+
+    test('answers a ping with a pong', async () => {
+        const result = await send(ping());
+        assert.equal(result.status, 200);
+        assert.deepEqual(result.body, { type: InteractionResponseType.Pong });
+    });
+});
+
+describe('routing', () => {
+    test('rejects commands it does not know', async () => {
+        const result = await send(slashCommand('does-not-exist'));
+        assert.equal(result.status, 400);
+        assert.equal(result.text, 'Unknown command');
+    });
+
+    test('rejects components whose custom_id does not decode', async () => {
+        const result = await send(buttonClick('countdown:start:%E0%A4%A'));
+        assert.equal(result.status, 400);
+        assert.equal(result.text, 'Unknown component interaction');
+    });
+
+    test('/ping replies straight away with the latency', async () => {
+        const result = await send(slashCommand('ping'));
+        assert.equal(result.body.type, InteractionResponseType.ChannelMessageWithSource);
+        assert.match(result.body.data.content, /^BOING!! ZOOM!! \n-# -?\d+ms\.$/);
+        assert.equal(result.calls.length, 0);
+    });
+
+    test('answers autocomplete for commands without suggestions with no choices', async () => {
+        const result = await send(autocomplete('fm', [option('username', 'ali', { focused: true })]));
+        assert.deepEqual(result.body, { type: InteractionResponseType.ApplicationCommandAutocompleteResult, data: { choices: [] } });
+    });
+
+    test('suggests albums from Last.fm while typing', async () => {
+        serveLastFm('album.search', 'lastfm/album.search.json');
+
+        const result = await send(autocomplete('cover', [subcommand('search', [option('album', 'In Rainb', { focused: true })])]));
+
+        assert.equal(result.body.type, InteractionResponseType.ApplicationCommandAutocompleteResult);
+        assert.deepEqual(result.body.data.choices[0], { name: 'In Rainbows — Radiohead', value: 'In Rainbows' });
+        assert.equal(result.body.data.choices.length, 3);
+    });
+
+    test('suggests artists for artist options', async () => {
+        serveLastFm('artist.search', 'lastfm/artist.search.json');
+
+        const result = await send(autocomplete('rc', [option('artist', 'radio', { focused: true })]));
+
+        assert.deepEqual(result.body.data.choices.map((choice: { value: string }) => choice.value), ['Radiohead', 'Radio Moscow']);
+    });
+});
+
+describe('deferred work', () => {
+    test('stops work that runs past its budget from editing the reply', async () => {
+        const ref = { id: '1', token: 'test-token', application_id: process.env.DISCORD_APPLICATION_ID! };
+        let finished!: Promise<void>;
+        let signal: AbortSignal | undefined;
+
+        const { requests } = await captureDiscordRequests(async () => deferWork(ref, async jobSignal => {
+            signal = jobSignal;
+            finished = new Promise<void>(resolve => setTimeout(resolve, 50))
+                .then(() => editReply(ref, { content: 'Too late' }));
+            await finished;
+        }, { budgetMs: 10 }));
+        await finished;
+
+        assert.equal(signal?.aborted, true);
+        assert.deepEqual(requests.map(request => (request.payload as { content: string }).content), [
+            'This is taking longer than expected, so it was stopped. Please try again in a bit.',
+        ]);
+    });
+});
@@ -0,0 +1,56 @@
+// tests/league.test.ts
+import { beforeEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { registerUser } from '@/utils/storage';
+import { finalEdit, option, send, slashCommand, subcommand, TEST_GUILD_ID, testUser } from './helpers/interactions';
+import { resetKv } from './helpers/kv';
+import { jsonResponse, loadFixture, onRequest, resetNetwork, serveJson, serveLastFm } from './helpers/network';
+
+beforeEach(async () => {
+    resetNetwork();
+    await resetKv();
+});
+
+test("lists the server's top artists as banned", async () => {
+    await registerUser(testUser.id, 'alice', TEST_GUILD_ID);
+    serveLastFm('user.gettopartists', 'lastfm/user.gettopartists.json', { user: 'alice', period: '1month' });
+
+    const result = await send(slashCommand('league', [subcommand('banned')]));
+
+    const [embed] = finalEdit(result).payload!.embeds as { title: string; fields: { name: string; value: string; inline: boolean }[] }[];
+    assert.equal(embed.title, '🚫 Server League Banned Artists');
+    // Nine artists fit in a single column.
+    assert.equal(embed.fields.length, 1);
+    assert.equal(embed.fields[0].inline, false);
+    assert.match(embed.fields[0].value, /^1\. Radiohead\n2\. Björk\n/);
+});
+
+test('finds playlist tracks by the top artists', async () => {
+    await registerUser(testUser.id, 'alice', TEST_GUILD_ID);
+    serveLastFm('user.gettopartists', 'lastfm/user.gettopartists.json');
+    onRequest('POST', 'https://accounts.spotify.com/api/token', () => jsonResponse(loadFixture('spotify/token.json')));
+    serveJson('https://api.spotify.com/v1/playlists/37i9dQZF1DX0XUsuxWHRQd/tracks', 'spotify/playlist-tracks.json');
+
+    const result = await send(slashCommand('league', [
+        subcommand('find', [option('playlist', 'https://open.spotify.com/playlist/37i9dQZF1DX0XUsuxWHRQd?si=abc')]),
+    ]));
+
+    const content = finalEdit(result).payload!.content as string;
+    assert.match(content, /^Found \*\*5\*\* tracks from the server's top artists in the playlist:/);
+    assert.match(content, /5\. \*\*Alright\*\* by Kendrick Lamar, Pharrell Williams$/);
+    assert.doesNotMatch(content, /Holocene/);
+});
+
+test('rejects links that are not Spotify playlists', async () => {
+    await registerUser(testUser.id, 'alice', TEST_GUILD_ID);
+
+    const result = await send(slashCommand('league', [subcommand('find', [option('playlist', 'https://example.com/mixtape')])]));
+
+    assert.equal(finalEdit(result).payload!.content, "An error occurred: That doesn't look like a valid Spotify playlist URL.");
+});
+
+test('only works inside a server', async () => {
+    const result = await send(slashCommand('league', [subcommand('banned')], { guildId: null }));
+
+    assert.equal(result.body.data.content, 'The league only works inside a server.');
+});
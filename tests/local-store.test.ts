@@ -0,0 +1,111 @@
+// tests/local-store.test.ts
+import { describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createLocalStore } from '@/utils/storage/local';
+
+describe('strings', () => {
+    test('expire after their TTL, and a plain set clears it', async () => {
+        const store = createLocalStore();
+        const start = Date.now();
+        const now = mock.method(Date, 'now', () => start);
+        try {
+            await store.set('short', 'lived', { ex: 60 });
+            await store.set('kept', 'for now', { ex: 60 });
+            await store.set('kept', 'for good');
+
+            now.mock.mockImplementation(() => start + 59_999);
+            assert.equal(await store.get('short'), 'lived');
+
+            now.mock.mockImplementation(() => start + 60_000);
+            assert.equal(await store.get('short'), null);
+            assert.equal(await store.get('kept'), 'for good');
+            assert.equal(await store.del('short'), 0);
+        } finally {
+            now.mock.restore();
+        }
+    });
+
+    test('nx only sets keys that do not exist', async () => {
+        const store = createLocalStore();
+
+        assert.equal(await store.set('lock', 'first', { nx: true }), 'OK');
+        assert.equal(await store.set('lock', 'second', { nx: true }), null);
+        assert.equal(await store.get('lock'), 'first');
+
+        // An expired key counts as missing.
+        await store.set('stale', 'old', { ex: 1 });
+        const later = Date.now() + 1000;
+        const now = mock.method(Date, 'now', () => later);
+        try {
+            assert.equal(await store.set('stale', 'new', { nx: true }), 'OK');
+        } finally {
+            now.mock.restore();
+        }
+        assert.equal(await store.get('stale'), 'new');
+    });
+
+    test('come back the way the Upstash client parses them', async () => {
+        const store = createLocalStore();
+        await store.set('id', '1200000000000000001');
+        await store.set('count', '42');
+        await store.set('flag', 'true');
+        await store.set('name', 'alice');
+        await store.set('object', { theme: 'dark', size: 5 });
+
+        // Snowflakes are too long for a number, which is why IDs need String() on the way out.
+        assert.equal(typeof await store.get('id'), 'number');
+        assert.equal(await store.get('count'), 42);
+        assert.equal(await store.get('flag'), true);
+        assert.equal(await store.get('name'), 'alice');
+        assert.deepEqual(await store.get('object'), { theme: 'dark', size: 5 });
+        assert.deepEqual(await store.mget('count', 'missing', 'name'), [42, null, 'alice']);
+
+        await store.hset('hash', { joined: '1700000000000', by: 'alice' });
+        assert.deepEqual(await store.hgetall('hash'), { joined: 1700000000000, by: 'alice' });
+    });
+});
+
+describe('sorted sets', () => {
+    test('range by score, breaking ties by member', async () => {
+        const store = createLocalStore();
+        await store.zadd('scores', { score: 3, member: 'c' }, { score: 1, member: 'b' }, { score: 1, member: 'a' }, { score: 2, member: 'd' });
+
+        assert.deepEqual(await store.zrange('scores', 0, -1), ['a', 'b', 'd', 'c']);
+        assert.deepEqual(await store.zrange('scores', 0, -1, { rev: true }), ['c', 'd', 'b', 'a']);
+        assert.deepEqual(await store.zrange('scores', 1, 2), ['b', 'd']);
+    });
+
+    test('count negative indexes from the end', async () => {
+        const store = createLocalStore();
+        await store.zadd('scores', { score: 1, member: 'a' }, { score: 2, member: 'b' }, { score: 3, member: 'c' });
+
+        assert.deepEqual(await store.zrange('scores', -2, -1), ['b', 'c']);
+        assert.deepEqual(await store.zrange('scores', -10, 0), ['a']);
+        assert.deepEqual(await store.zrange('scores', 0, 10), ['a', 'b', 'c']);
+        assert.deepEqual(await store.zrange('scores', 2, 1), []);
+        assert.deepEqual(await store.zrange('scores', 0, 0, { rev: true }), ['c']);
+    });
+
+    test('drop the key once the last member is removed', async () => {
+        const store = createLocalStore();
+        await store.zadd('scores', { score: 1, member: 'a' });
+
+        assert.equal(await store.zrem('scores', 'a', 'missing'), 1);
+        assert.deepEqual(await store.zrange('scores', 0, -1), []);
+        const keys: string[] = [];
+        for await (const key of store.scanIterator()) keys.push(key);
+        assert.deepEqual(keys, []);
+    });
+});
+
+test('refuses commands against a key holding another kind of value', async () => {
+    const store = createLocalStore();
+    await store.set('name', 'alice');
+    await store.hset('hash', { a: 1 });
+
+    await assert.rejects(store.zadd('name', { score: 1, member: 'a' }), /^Error: WRONGTYPE/);
+    await assert.rejects(store.hgetall('name'), /^Error: WRONGTYPE/);
+    await assert.rejects(store.get('hash'), /^Error: WRONGTYPE/);
+    await assert.rejects(store.zrange('hash', 0, -1), /^Error: WRONGTYPE/);
+    assert.equal(await store.get('name'), 'alice');
+});
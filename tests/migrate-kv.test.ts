@@ -0,0 +1,86 @@
+// tests/migrate-kv.test.ts
+import { beforeEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getGuildMembers, getLastFmUsername, getUserGuilds, keys, kv, LEGACY_OVERRIDE_INDEX, SCHEMA_VERSION } from '@/utils/storage';
+import { migrateKv, MigrationError } from '@/utils/storage/migrate';
+import { TEST_GUILD_ID } from './helpers/interactions';
+import { resetKv } from './helpers/kv';
+
+const ALICE = '1200000000000000011';
+const BOB = '1200000000000000012';
+
+/** A store as schema version 1 left it. */
+async function seedVersion1() {
+    await kv.set(ALICE, 'alice');
+    // Bob registered again after the rename, so both keys exist.
+    await kv.set(BOB, 'bob-old');
+    await kv.set(keys.user(BOB), 'bob');
+    await kv.set('cover:radiohead:in rainbows', 'https://example.com/cover.jpg', { ex: 60 });
+    await kv.set('method=user.getinfo&user=alice', { user: {} }, { ex: 60 });
+}
+
+async function allKeys() {
+    const found: string[] = [];
+    for await (const key of kv.scanIterator()) found.push(key);
+    return found.sort();
+}
+
+beforeEach(async () => {
+    await resetKv();
+});
+
+test('moves version 1 users into the given guild and drops legacy caches', async () => {
+    await seedVersion1();
+
+    assert.equal(await migrateKv({ guildId: TEST_GUILD_ID }), 1);
+
+    assert.equal(await kv.get(keys.schemaVersion()), SCHEMA_VERSION);
+    assert.equal(await kv.get(keys.user(ALICE)), 'alice');
+    assert.equal(await kv.get(keys.user(BOB)), 'bob');
+    assert.deepEqual(await getUserGuilds(ALICE), [TEST_GUILD_ID]);
+    assert.deepEqual(await getGuildMembers(TEST_GUILD_ID), [{ discordId: ALICE, lastfmUsername: 'alice' }]);
+    assert.deepEqual(await allKeys(), [
+        keys.guildMembers(TEST_GUILD_ID),
+        keys.schemaVersion(),
+        keys.user(ALICE),
+        keys.userGuilds(ALICE),
+        keys.user(BOB),
+    ].sort());
+});
+
+test('needs a guild to move version 1 users, except for a dry run', async () => {
+    await seedVersion1();
+    const before = await allKeys();
+
+    await assert.rejects(migrateKv(), MigrationError);
+    assert.deepEqual(await allKeys(), before);
+
+    await migrateKv({ dryRun: true });
+    assert.deepEqual(await allKeys(), before);
+});
+
+test('splits the version 2 override index by status', async () => {
+    await kv.set(keys.schemaVersion(), 2);
+    await kv.set(keys.override('a1'), { id: 'a1', status: 'approved', submittedAt: 1 });
+    await kv.set(keys.override('b2'), { id: 'b2', status: 'pending', submittedAt: 2 });
+    await kv.zadd(LEGACY_OVERRIDE_INDEX, { score: 1, member: 'a1' }, { score: 2, member: 'b2' }, { score: 3, member: 'gone' });
+
+    // No guild needed, since there are no version 1 users to place.
+    assert.equal(await migrateKv(), 2);
+
+    assert.deepEqual(await kv.zrange(keys.overrideIndex('approved'), 0, -1), ['a1']);
+    assert.deepEqual(await kv.zrange(keys.overrideIndex('pending'), 0, -1), ['b2']);
+    assert.deepEqual(await kv.zrange(LEGACY_OVERRIDE_INDEX, 0, -1), []);
+    assert.equal(await kv.get(keys.schemaVersion()), SCHEMA_VERSION);
+});
+
+test('moves version 1 users over when they are first looked up', async () => {
+    await kv.set(ALICE, 'alice');
+
+    assert.equal(await getLastFmUsername(ALICE, TEST_GUILD_ID), 'alice');
+
+    assert.equal(await kv.get(ALICE), null);
+    assert.equal(await kv.get(keys.user(ALICE)), 'alice');
+    assert.deepEqual(await getGuildMembers(TEST_GUILD_ID), [{ discordId: ALICE, lastfmUsername: 'alice' }]);
+    assert.equal(await getLastFmUsername(ALICE), 'alice');
+});
@@ -0,0 +1,37 @@
+// tests/profile.test.ts
+import { beforeEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { attachment, send, slashCommand } from './helpers/interactions';
+import { onRequest, readFixture, resetNetwork } from './helpers/network';
+
+const FEED_URL = 'https://cdn.discordapp.com/attachments/1500000000000000001/1700000000000000001/feed.xml';
+
+beforeEach(() => {
+    resetNetwork();
+});
+
+test('summarises a Rate Your Music feed', async () => {
+    onRequest('GET', FEED_URL, () => new Response(readFixture('rym/profile-feed.xml'), { headers: { 'Content-Type': 'application/xml' } }));
+    const feed = attachment('feed', { url: FEED_URL, content_type: 'application/xml; charset=utf-8', filename: 'feed.xml' });
+
+    const result = await send(slashCommand('profile', [feed.option], { resolved: feed.resolved }));
+
+    const [embed] = result.body.data.embeds;
+    assert.equal(embed.title, 'Recent activity for tester');
+    assert.equal(embed.url, 'https://rateyourmusic.com/~tester');
+    assert.deepEqual(embed.fields.map((field: { name: string }) => field.name), [
+        'In Rainbows - Radiohead',
+        'Blonde - Frank Ocean',
+        'Added Loveless by My Bloody Valentine to a list',
+    ]);
+    assert.equal(embed.fields[0].value, 'Rated `[ ★ ★ ★ ★ ½ ]`\n[View RYM Page](https://rateyourmusic.com/release/album/radiohead/in-rainbows/)\n-# on 18 October 2025');
+    assert.match(embed.fields[1].value, /^Review:\n```Sparse, patient and gorgeous\.```/);
+});
+
+test('refuses files that are not feeds', async () => {
+    const image = attachment('feed', { url: FEED_URL, content_type: 'image/png', filename: 'cover.png' });
+
+    const result = await send(slashCommand('profile', [image.option], { resolved: image.resolved }));
+
+    assert.equal(result.body.data.content, '❌ Please upload a valid .txt, .xml, or .html file. You uploaded a file of type `image/png`.');
+});
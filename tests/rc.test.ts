@@ -0,0 +1,42 @@
+// tests/rc.test.ts
+import { beforeEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import sharp from 'sharp';
+import { registerUser } from '@/utils/storage';
+import { finalEdit, option, send, slashCommand, TEST_GUILD_ID, testUser } from './helpers/interactions';
+import { resetKv } from './helpers/kv';
+import { resetNetwork, serveLastFm } from './helpers/network';
+
+beforeEach(async () => {
+    resetNetwork();
+    await resetKv();
+});
+
+test('uploads the raw cover of a searched album', async () => {
+    serveLastFm('album.search', 'lastfm/album.search.json');
+
+    const result = await send(slashCommand('rc', [option('search', 'In Rainbows')]));
+
+    const { files } = finalEdit(result);
+    assert.equal(files.length, 1);
+    assert.equal(files[0].name, 'cover.png');
+    const { width, height } = await sharp(files[0].data).metadata();
+    assert.deepEqual({ width, height }, { width: 1000, height: 1000 });
+});
+
+test('uploads the cover of the last scrobble', async () => {
+    await registerUser(testUser.id, 'alice', TEST_GUILD_ID);
+    serveLastFm('user.getrecenttracks', 'lastfm/user.getrecenttracks.json');
+
+    const result = await send(slashCommand('rc'));
+
+    assert.equal(finalEdit(result).files[0].name, 'cover.png');
+});
+
+test('reports albums Last.fm does not know', async () => {
+    serveLastFm('album.search', 'lastfm/album.search.empty.json');
+
+    const result = await send(slashCommand('rc', [option('search', 'zzzz')]));
+
+    assert.equal(finalEdit(result).payload!.content, 'Could not find album art for `zzzz`.');
+});
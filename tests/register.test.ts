@@ -0,0 +1,28 @@
+// tests/register.test.ts
+import { beforeEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getGuildMembers, getLastFmUsername } from '@/utils/storage';
+import { option, send, slashCommand, TEST_GUILD_ID, testUser } from './helpers/interactions';
+import { resetKv } from './helpers/kv';
+import { resetNetwork } from './helpers/network';
+
+beforeEach(async () => {
+    resetNetwork();
+    await resetKv();
+});
+
+test('saves the username and joins the server stats', async () => {
+    const result = await send(slashCommand('register', [option('username', 'alice')]));
+
+    assert.equal(result.body.data.content, "✅ Success! Your Last.fm username has been saved as `alice`. You are included in this server's charts and league.");
+    assert.equal(await getLastFmUsername(testUser.id), 'alice');
+    assert.deepEqual(await getGuildMembers(TEST_GUILD_ID), [{ discordId: testUser.id, lastfmUsername: 'alice' }]);
+});
+
+test('can opt out of the server stats', async () => {
+    await send(slashCommand('register', [option('username', 'alice')]));
+    const result = await send(slashCommand('register', [option('username', 'alice'), option('server_stats', false)]));
+
+    assert.match(result.body.data.content, /You are not included in this server's charts and league\.$/);
+    assert.deepEqual(await getGuildMembers(TEST_GUILD_ID), []);
+});
@@ -0,0 +1,31 @@
+// tests/setup.ts
+// Loaded before every test file (see the `test` script in package.json). Points
+// everything the bot talks to at local stand-ins, so the suite needs no
+// credentials and never reaches the network.
+
+// What Next's server loads before anything else, e.g. the AsyncLocalStorage `after()` relies on.
+import 'next/dist/server/node-environment-baseline';
+import { mkdtempSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { installFixtureFetch } from './helpers/network';
+
+Object.assign(process.env, {
+    KV_DRIVER: 'memory',
+    LASTFM_API_KEY: 'test-lastfm-key',
+    DISCORD_APPLICATION_ID: '1100000000000000001',
+    SPOTIFY_CLIENT_ID: 'test-spotify-id',
+    SPOTIFY_CLIENT_SECRET: 'test-spotify-secret',
+    MUSICBRAINZ_USER_AGENT: 'zorpheus-tests/0.1',
+    DEVELOPER_IDS: '1200000000000000001',
+    // The test guild, TEST_GUILD_ID in helpers/interactions.ts.
+    COVER_MODERATOR_GUILD_ID: '1400000000000000001',
+    COVER_REVIEW_SECRET: 'test-cover-review-secret',
+    NEXT_PUBLIC_APP_URL: 'https://zorpheus.test',
+    TZ: 'UTC',
+    THUMBNAIL_CACHE_DIR: mkdtempSync(path.join(os.tmpdir(), 'zorpheus-test-thumbnails-')),
+});
+delete process.env.VERCEL_PROJECT_PRODUCTION_URL;
+delete process.env.DISCOGS_TOKEN;
+
+installFixtureFetch();
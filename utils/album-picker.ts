@@ -0,0 +1,109 @@
+// utils/album-picker.ts
+import {
+    APIActionRowComponent,
+    APIStringSelectComponent,
+    ComponentType,
+} from 'discord-api-types/v10';
+import { createCustomId } from '@/utils/components';
+import { getLastFmImageUrl, LastFmAlbumMatch } from '@/utils/lastfm';
+import { keys, kv } from '@/utils/storage';
+import { looselyEquals, normalizeString } from '@/utils/strings';
+
+export type AlbumChoice = {
+    artist: string;
+    album: string;
+    imageUrl?: string;
+};
+
+/**
+ * What we need to remember between showing the menu and the user picking from it.
+ * Select menu values are capped at 100 characters, so the choices live in KV and
+ * the menu only carries their index.
+ */
+export type AlbumPickerState = {
+    ownerId: string;
+    query: string;
+    hqOnly: boolean;
+    choices: AlbumChoice[];
+};
+
+// How long a picker stays usable, in seconds.
+const PICKER_TTL = 15 * 60;
+const MAX_CHOICES = 10;
+
+function toChoice(match: LastFmAlbumMatch): AlbumChoice {
+    return { artist: match.artist, album: match.name, imageUrl: getLastFmImageUrl(match.image) };
+}
+
+function artistMatches(candidate: string, wanted: string): boolean {
+    const a = normalizeString(candidate).toLowerCase();
+    const b = normalizeString(wanted).toLowerCase();
+    return a.includes(b) || b.includes(a);
+}
+
+/**
+ * Decides whether a Last.fm search has one obvious answer or needs the user to pick.
+ * A single result, or a single result whose title matches the query exactly (and
+ * whose artist matches, when one was given), is taken as-is.
+ */
+export function chooseAlbum(matches: LastFmAlbumMatch[], query: string, artist?: string): { match: AlbumChoice } | { choices: AlbumChoice[] } | null {
+    if (matches.length === 0) return null;
+
+    const byArtist = artist ? matches.filter(m => artistMatches(m.artist, artist)) : matches;
+    // If the artist filter removes everything, the user may have misspelled it;
+    // let them choose from the unfiltered results instead of failing.
+    const candidates = byArtist.length > 0 ? byArtist : matches;
+
+    if (candidates.length === 1 && byArtist.length > 0) {
+        return { match: toChoice(candidates[0]) };
+    }
+
+    const exact = candidates.filter(m => looselyEquals(m.name, query));
+    if (exact.length === 1 && (byArtist.length > 0 || !artist)) {
+        return { match: toChoice(exact[0]) };
+    }
+
+    // Exact title matches go to the top of the menu, the rest follow in Last.fm's order.
+    const ordered = [...exact, ...candidates.filter(m => !exact.includes(m))];
+    return { choices: ordered.slice(0, MAX_CHOICES).map(toChoice) };
+}
+
+function truncate(text: string, length: number) {
+    return text.length > length ? text.substring(0, length - 1) + '…' : text;
+}
+
+/**
+ * Saves the picker state and builds the select menu for it. `prefix` is the
+ * command name; the menu's custom_id is `{prefix}:pick:{id}`, restricted to the
+ * user who searched and expiring along with the saved state.
+ */
+export async function createAlbumPicker(prefix: string, state: AlbumPickerState): Promise<APIActionRowComponent<APIStringSelectComponent>[]> {
+    const id = crypto.randomUUID().slice(0, 8);
+    await kv.set(keys.albumPicker(id), state, { ex: PICKER_TTL });
+
+    return [{
+        type: ComponentType.ActionRow,
+        components: [{
+            type: ComponentType.StringSelect,
+            custom_id: createCustomId(`${prefix}:pick`, [id], { ownerId: state.ownerId, expiresIn: PICKER_TTL }),
+            placeholder: 'Choose the right album',
+            options: state.choices.map((choice, index) => ({
+                label: truncate(choice.album || '(untitled)', 100),
+                description: truncate(`by ${choice.artist}`, 100),
+                value: String(index),
+            })),
+        }],
+    }];
+}
+
+/**
+ * Reads the state of a picker by the id from its custom_id. Returns null once it has expired.
+ */
+export async function getAlbumPicker(id: string | undefined): Promise<AlbumPickerState | null> {
+    if (!id) return null;
+    return kv.get<AlbumPickerState>(keys.albumPicker(id));
+}
+
+export async function deleteAlbumPicker(id: string) {
+    await kv.del(keys.albumPicker(id));
+}
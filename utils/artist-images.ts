@@ -0,0 +1,77 @@
+// utils/artist-images.ts
+import { readCache, writeCache } from '@/utils/storage';
+import { hasSpotifyCredentials, searchSpotifyArtists } from '@/utils/spotify';
+import { looselyEquals } from '@/utils/strings';
+
+// Last.fm stopped serving artist images in 2019: every artist now gets the same
+// star placeholder. Pictures are looked up on Deezer instead, then on Spotify.
+
+type DeezerArtist = {
+    id: number;
+    name: string;
+    picture_big: string | null;
+    picture_xl: string | null;
+};
+
+// Artist pictures hardly ever change, and a miss is unlikely to turn into a hit soon.
+const IMAGE_CACHE_TTL = 7 * 86400;
+const MISS_CACHE_TTL = 86400;
+
+function cacheKey(artist: string) {
+    return artist.toLowerCase().trim();
+}
+
+// Deezer hands out a grey silhouette, with an empty image hash, for artists without a picture.
+function isDeezerPlaceholder(url: string) {
+    return url.includes('/images/artist//');
+}
+
+async function findOnDeezer(artist: string): Promise<string | null> {
+    try {
+        const response = await fetch(`https://api.deezer.com/search/artist?q=${encodeURIComponent(artist)}&limit=5`);
+        if (!response.ok) {
+            console.error(`Deezer API returned status: ${response.status}`);
+            return null;
+        }
+
+        // Deezer reports quota and query errors with a 200 and an `error` object.
+        const data: { data?: DeezerArtist[]; error?: { message: string } } = await response.json();
+        if (data.error) {
+            console.error(`Deezer API error: ${data.error.message}`);
+            return null;
+        }
+
+        const match = data.data?.find(result => looselyEquals(result.name, artist));
+        const url = match?.picture_xl || match?.picture_big;
+        return url && !isDeezerPlaceholder(url) ? url : null;
+    } catch (error) {
+        console.error('Error fetching artist from Deezer:', error);
+        return null;
+    }
+}
+
+async function findOnSpotify(artist: string): Promise<string | null> {
+    if (!hasSpotifyCredentials()) return null;
+    try {
+        const results = await searchSpotifyArtists(artist);
+        // Spotify lists each artist's images widest first.
+        return results.find(result => looselyEquals(result.name, artist))?.images[0]?.url ?? null;
+    } catch (error) {
+        console.error('Error fetching artist from Spotify:', error);
+        return null;
+    }
+}
+
+/**
+ * A picture of the artist, or null if neither Deezer nor Spotify has one.
+ * Only exact (case and accent insensitive) name matches are used, since a picture
+ * of the wrong artist is worse than none.
+ */
+export async function getArtistImageUrl(artist: string): Promise<string | null> {
+    const cached = await readCache<{ url: string | null }>('artist-image', cacheKey(artist));
+    if (cached) return cached.url;
+
+    const url = await findOnDeezer(artist) ?? await findOnSpotify(artist);
+    await writeCache('artist-image', cacheKey(artist), { url }, url ? IMAGE_CACHE_TTL : MISS_CACHE_TTL);
+    return url;
+}
@@ -0,0 +1,128 @@
+// utils/autocomplete.ts
+import { NextResponse } from 'next/server';
+import {
+    APIApplicationCommandOptionChoice,
+    InteractionResponseType,
+} from 'discord-api-types/v10';
+import { AutocompleteHandler, getFocusedOption, getStringOption } from '@/utils/commands';
+import { searchAlbums, searchArtists, searchTracks } from '@/utils/lastfm';
+import { normalizeString } from '@/utils/strings';
+
+/** The kinds of music entity an option can autocomplete. */
+export type MusicEntity = 'album' | 'artist' | 'track';
+
+type Choice = APIApplicationCommandOptionChoice<string>;
+
+// Discord shows at most 25 suggestions, and caps names and values at 100 characters.
+const MAX_CHOICES = 25;
+const MAX_CHOICE_LENGTH = 100;
+
+// Suggestions are only cached briefly: people type the same prefixes over and over
+// within a few minutes, but there's no point keeping them around for longer.
+const SUGGESTION_CACHE_TTL = 300;
+
+// Discord gives us 3 seconds to answer. Whatever isn't ready by then is dropped
+// in favour of an empty list, which is better than the "loading options failed" error.
+const SUGGESTION_DEADLINE_MS = 2000;
+
+function truncate(text: string, length = MAX_CHOICE_LENGTH) {
+    return text.length > length ? text.substring(0, length - 1) + '…' : text;
+}
+
+function byArtist(candidate: string, wanted?: string): boolean {
+    if (!wanted) return true;
+    return normalizeString(candidate).toLowerCase().includes(normalizeString(wanted).toLowerCase());
+}
+
+function dedupe(choices: Choice[]): Choice[] {
+    const seen = new Set<string>();
+    return choices.filter(choice => {
+        if (seen.has(choice.name)) return false;
+        seen.add(choice.name);
+        return true;
+    });
+}
+
+// --- Suggestions ---
+
+/**
+ * Suggestions for a music option. The value is always just the entity's own name,
+ * since that's what the command handlers search for; the artist goes in the label.
+ * `artist` narrows album and track suggestions when the user already filled it in.
+ */
+export async function suggestMusic(kind: MusicEntity, query: string, artist?: string): Promise<Choice[]> {
+    // Last.fm search is case insensitive, so lowercasing improves cache hits.
+    const search = query.trim().toLowerCase();
+    if (!search) return [];
+
+    const options = { limit: MAX_CHOICES, cacheTtl: SUGGESTION_CACHE_TTL };
+    let choices: Choice[];
+
+    switch (kind) {
+        case 'album': {
+            const { items } = await searchAlbums(search, options);
+            const filtered = items.filter(match => byArtist(match.artist, artist));
+            choices = (filtered.length > 0 ? filtered : items).map(match => ({
+                name: truncate(`${match.name} — ${match.artist}`),
+                value: truncate(match.name),
+            }));
+            break;
+        }
+        case 'artist': {
+            const { items } = await searchArtists(search, options);
+            choices = items.map(match => ({ name: truncate(match.name), value: truncate(match.name) }));
+            break;
+        }
+        case 'track': {
+            const { items } = await searchTracks(search, { ...options, artist: artist?.trim() || undefined });
+            choices = items.map(match => ({
+                name: truncate(`${match.name} — ${match.artist}`),
+                value: truncate(match.name),
+            }));
+            break;
+        }
+    }
+
+    return dedupe(choices).slice(0, MAX_CHOICES);
+}
+
+// --- Handlers ---
+
+export function autocompleteResponse(choices: Choice[]) {
+    return NextResponse.json({
+        type: InteractionResponseType.ApplicationCommandAutocompleteResult,
+        data: { choices },
+    });
+}
+
+/**
+ * Builds an autocomplete handler from a map of option name to the entity it holds,
+ * e.g. `{ album: 'album', artist: 'artist' }`. Options of subcommands are matched by
+ * name too, so one map covers every subcommand of a command.
+ */
+export function musicAutocomplete(fields: Record<string, MusicEntity>): AutocompleteHandler {
+    return async (interaction) => {
+        const focused = getFocusedOption(interaction.data.options);
+        const kind = focused && fields[focused.name];
+        if (!focused || !kind) {
+            return autocompleteResponse([]);
+        }
+
+        const artist = kind === 'artist' ? undefined : getStringOption(focused.options, 'artist');
+
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const deadline = new Promise<Choice[]>(resolve => {
+            timer = setTimeout(() => resolve([]), SUGGESTION_DEADLINE_MS);
+        });
+
+        try {
+            const choices = await Promise.race([suggestMusic(kind, focused.value, artist), deadline]);
+            return autocompleteResponse(choices);
+        } catch (error) {
+            console.error(`Autocomplete for ${interaction.data.name}.${focused.name} failed:`, error);
+            return autocompleteResponse([]);
+        } finally {
+            clearTimeout(timer);
+        }
+    };
+}
@@ -0,0 +1,13 @@
+// utils/base-url.ts
+
+/**
+ * The public URL this deployment is reachable at, used to link to our own API routes
+ * (recoloured icons, hosted cover overrides) from Discord embeds.
+ */
+export const getBaseUrl = () => {
+    if (process.env.VERCEL_PROJECT_PRODUCTION_URL) {
+        return `https://${process.env.VERCEL_PROJECT_PRODUCTION_URL}`;
+    }
+    // Use the public URL from your .env file for local dev or previews
+    return process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:2999';
+};
@@ -0,0 +1,109 @@
+// utils/chart-image/arrangement.ts
+import { DominantColor } from '@/utils/colors';
+import { GridSize, GridSizeError } from './grid';
+import { ChartArrangement } from './types';
+
+/** Where one tile goes: the cell of its top-left corner, and how many cells wide and tall it is. */
+export type TilePlacement = {
+    /** The tile's position in the list the chart was drawn from. */
+    index: number;
+    column: number;
+    row: number;
+    span: number;
+};
+
+// Below this saturation, or this close to black or white, a colour reads as grey
+// and has no meaningful hue. Those tiles go after the colourful ones, light to dark.
+const MIN_SATURATION = 0.15;
+const MIN_LIGHTNESS = 0.1;
+const MAX_LIGHTNESS = 0.9;
+
+/**
+ * How many tiles a grid holds. A featured chart's top tile covers four cells.
+ */
+export function arrangementTileCount({ columns, rows }: GridSize, arrangement: ChartArrangement = 'grid'): number {
+    return arrangement === 'featured' ? columns * rows - 3 : columns * rows;
+}
+
+/**
+ * Throws a GridSizeError for a grid the arrangement can't be drawn in.
+ */
+export function checkArrangement({ columns, rows }: GridSize, arrangement: ChartArrangement = 'grid') {
+    if (arrangement === 'featured' && (columns < 2 || rows < 2)) {
+        throw new GridSizeError('The featured layout needs a grid of at least 2x2.');
+    }
+}
+
+/** The span of each tile, in chart order. */
+export function tileSpans(count: number, arrangement: ChartArrangement = 'grid'): number[] {
+    return Array.from({ length: count }, (_, index) => arrangement === 'featured' && index === 0 ? 2 : 1);
+}
+
+function isGrey(color: DominantColor): boolean {
+    const [, saturation, lightness] = color.hsl;
+    return saturation < MIN_SATURATION || lightness < MIN_LIGHTNESS || lightness > MAX_LIGHTNESS;
+}
+
+/**
+ * Tile indexes ordered around the colour wheel from red, with grey and unknown
+ * colours at the end.
+ */
+export function orderByHue(colors: (DominantColor | null)[]): number[] {
+    const indexes = colors.map((_, index) => index);
+    const colorful = indexes.filter(index => colors[index] && !isGrey(colors[index]!));
+    const grey = indexes.filter(index => colors[index] && isGrey(colors[index]!));
+    const unknown = indexes.filter(index => !colors[index]);
+
+    colorful.sort((a, b) => colors[a]!.hsl[0] - colors[b]!.hsl[0] || colors[b]!.hsl[2] - colors[a]!.hsl[2]);
+    grey.sort((a, b) => colors[b]!.hsl[2] - colors[a]!.hsl[2]);
+    return [...colorful, ...grey, ...unknown];
+}
+
+/**
+ * The cells of a grid filled in order, skipping any taken by a bigger tile.
+ */
+function fillCells(columns: number, rows: number, order: number[], spans: number[]): TilePlacement[] {
+    const taken = Array.from({ length: rows }, () => new Array<boolean>(columns).fill(false));
+    const placements: TilePlacement[] = [];
+    let cell = 0;
+
+    for (const index of order) {
+        while (cell < columns * rows && taken[Math.floor(cell / columns)][cell % columns]) cell++;
+        const row = Math.floor(cell / columns);
+        const column = cell % columns;
+        const span = spans[index];
+        for (let r = row; r < Math.min(row + span, rows); r++) {
+            for (let c = column; c < Math.min(column + span, columns); c++) taken[r][c] = true;
+        }
+        placements.push({ index, column, row, span });
+    }
+    return placements;
+}
+
+/**
+ * Lays the tiles out on the grid. `colors` (one per tile) are only needed to sort
+ * by hue: `hue` reads around the colour wheel row by row, `rainbow` runs it along
+ * the diagonals so colour flows from the top-left corner to the bottom-right.
+ */
+export function arrangeTiles(
+    { columns, rows }: GridSize,
+    count: number,
+    arrangement: ChartArrangement = 'grid',
+    colors: (DominantColor | null)[] = [],
+): TilePlacement[] {
+    const spans = tileSpans(count, arrangement);
+    const chartOrder = spans.map((_, index) => index);
+
+    switch (arrangement) {
+        case 'grid':
+        case 'featured':
+            return fillCells(columns, rows, chartOrder, spans);
+        case 'hue':
+            return fillCells(columns, rows, orderByHue(colors), spans);
+        case 'rainbow': {
+            const cells = Array.from({ length: columns * rows }, (_, cell) => ({ column: cell % columns, row: Math.floor(cell / columns) }))
+                .sort((a, b) => a.column + a.row - (b.column + b.row) || a.row - b.row);
+            return orderByHue(colors).slice(0, cells.length).map((index, position) => ({ index, ...cells[position], span: 1 }));
+        }
+    }
+}
@@ -0,0 +1,39 @@
+// utils/chart-image/encode.ts
+import sharp from 'sharp';
+
+export type ChartImageFormat = 'png' | 'jpg' | 'webp';
+
+/** Thrown when even the smallest encoding is too big to upload. */
+export class ChartTooLargeError extends Error {
+    name = 'ChartTooLargeError';
+}
+
+// Tried in order once a PNG is too big: JPEG first since every client shows it,
+// then WebP, then lower qualities of both.
+const FALLBACK_ENCODINGS: { format: Exclude<ChartImageFormat, 'png'>; quality: number }[] = [
+    { format: 'jpg', quality: 90 },
+    { format: 'webp', quality: 85 },
+    { format: 'jpg', quality: 75 },
+    { format: 'webp', quality: 65 },
+    { format: 'jpg', quality: 60 },
+];
+
+/**
+ * Returns the PNG if it's no bigger than `maxBytes`, or else the first lossy
+ * re-encoding that is.
+ */
+export async function fitToUploadLimit(png: Buffer, maxBytes: number): Promise<{ image: Buffer; format: ChartImageFormat }> {
+    if (png.length <= maxBytes) return { image: png, format: 'png' };
+
+    for (const { format, quality } of FALLBACK_ENCODINGS) {
+        const pipeline = sharp(png);
+        const image = format === 'jpg'
+            ? await pipeline.jpeg({ quality, mozjpeg: true }).toBuffer()
+            : await pipeline.webp({ quality }).toBuffer();
+        if (image.length <= maxBytes) {
+            console.log(`Chart PNG was ${png.length} bytes, re-encoded as ${format} (quality ${quality}) to ${image.length} bytes.`);
+            return { image, format };
+        }
+    }
+    throw new ChartTooLargeError(`Chart is still over ${maxBytes} bytes at the lowest quality.`);
+}
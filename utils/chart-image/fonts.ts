@@ -0,0 +1,212 @@
+// utils/chart-image/fonts.ts
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+import { ChartFont } from './types';
+
+// Which fonts labels are drawn in. Labels use one of the bundled label fonts, with
+// a stack of fallbacks behind it for the scripts the label font lacks. Fonts are
+// checked the first time they're asked for, and a missing one is logged rather
+// than failing quietly into tofu. Registering them with canvas is left to
+// `fontStack` in text.ts, so nothing here needs the native module.
+
+/** A font file in public/fonts (or an absolute path), and the family it's registered as. */
+export type FontFace = {
+    family: string;
+    file: string;
+};
+
+/** What loading a font found. `covers` is null when the file isn't there or can't be read. */
+export type LoadedFont = FontFace & {
+    /** Where the file is, resolved against public/fonts. */
+    path: string;
+    covers: ((codePoint: number) => boolean) | null;
+    error?: string;
+};
+
+export type FontReport = {
+    labels: Record<ChartFont, LoadedFont>;
+    fallbacks: LoadedFont[];
+};
+
+const FONT_DIR = path.join(process.cwd(), 'public', 'fonts');
+
+/** The fonts labels can be drawn in, chosen with /charttheme. */
+export const labelFonts: Record<ChartFont, FontFace> = {
+    courier: { family: 'Courier New', file: 'cour.ttf' },
+    manti: { family: 'Manti Sans', file: 'MantiSans.otf' },
+};
+
+/**
+ * Tried in order for characters the label font lacks. Override with
+ * CHART_FALLBACK_FONTS, as comma-separated `Family=file` pairs. All five are
+ * Noto fonts from Google Fonts, shipped in public/fonts under the SIL Open Font
+ * License (the OFL-*.txt files beside them). Cairo can't draw colour emoji, so
+ * the emoji font is the monochrome one.
+ */
+export const DEFAULT_FALLBACK_FONTS: FontFace[] = [
+    // Japanese, and the Chinese characters it shares, then the simplified ones it doesn't.
+    { family: 'Noto Sans JP', file: 'NotoSansJP-Bold.ttf' },
+    { family: 'Noto Sans SC', file: 'NotoSansSC-Bold.ttf' },
+    { family: 'Noto Sans KR', file: 'NotoSansKR-Bold.ttf' },
+    // Cyrillic, Greek and Vietnamese.
+    { family: 'Noto Sans', file: 'NotoSans-Bold.ttf' },
+    { family: 'Noto Emoji', file: 'NotoEmoji-Bold.ttf' },
+];
+
+/**
+ * The fallback stack from CHART_FALLBACK_FONTS, or the default one.
+ */
+export function fallbackFontsFromEnv(): FontFace[] {
+    const configured = process.env.CHART_FALLBACK_FONTS?.trim();
+    if (!configured) return DEFAULT_FALLBACK_FONTS;
+    return configured.split(',').map(entry => {
+        const [family, file] = entry.split('=').map(part => part.trim());
+        return { family, file: file ?? '' };
+    }).filter(face => face.family && face.file);
+}
+
+// --- Coverage ---
+// Which characters a font has glyphs for comes from its `cmap` table. Only the
+// Unicode subtables matter here: format 4 (the Basic Multilingual Plane) and
+// format 12 (everything, emoji included).
+
+function findTable(font: Buffer, tag: string): number | null {
+    const tableCount = font.readUInt16BE(4);
+    for (let i = 0; i < tableCount; i++) {
+        const record = 12 + i * 16;
+        if (font.toString('latin1', record, record + 4) === tag) {
+            return font.readUInt32BE(record + 8);
+        }
+    }
+    return null;
+}
+
+function format4Coverage(font: Buffer, table: number): (codePoint: number) => boolean {
+    const segments = font.readUInt16BE(table + 6) / 2;
+    const ends = table + 14;
+    const starts = ends + segments * 2 + 2;
+    const deltas = starts + segments * 2;
+    const rangeOffsets = deltas + segments * 2;
+
+    return codePoint => {
+        if (codePoint > 0xffff) return false;
+        for (let i = 0; i < segments; i++) {
+            if (codePoint > font.readUInt16BE(ends + i * 2)) continue;
+            const start = font.readUInt16BE(starts + i * 2);
+            if (codePoint < start) return false;
+            const delta = font.readUInt16BE(deltas + i * 2);
+            const rangeOffset = font.readUInt16BE(rangeOffsets + i * 2);
+            if (rangeOffset === 0) return ((codePoint + delta) & 0xffff) !== 0;
+            const glyph = font.readUInt16BE(rangeOffsets + i * 2 + rangeOffset + (codePoint - start) * 2);
+            return glyph !== 0;
+        }
+        return false;
+    };
+}
+
+function format12Coverage(font: Buffer, table: number): (codePoint: number) => boolean {
+    const groups = font.readUInt32BE(table + 12);
+    return codePoint => {
+        for (let i = 0; i < groups; i++) {
+            const group = table + 16 + i * 12;
+            if (codePoint >= font.readUInt32BE(group) && codePoint <= font.readUInt32BE(group + 4)) return true;
+        }
+        return false;
+    };
+}
+
+/**
+ * Reads which characters a TrueType or OpenType font covers. Throws for files
+ * that aren't one, or have no Unicode character map.
+ */
+export function readCoverage(font: Buffer): (codePoint: number) => boolean {
+    const cmap = findTable(font, 'cmap');
+    if (cmap === null) throw new Error('no cmap table');
+
+    const subtables: { format: number; offset: number }[] = [];
+    for (let i = 0; i < font.readUInt16BE(cmap + 2); i++) {
+        const record = cmap + 4 + i * 8;
+        const platform = font.readUInt16BE(record);
+        const encoding = font.readUInt16BE(record + 2);
+        // Unicode, or Windows' Unicode BMP (1) and full repertoire (10) encodings.
+        if (platform === 0 || (platform === 3 && (encoding === 1 || encoding === 10))) {
+            const offset = cmap + font.readUInt32BE(record + 4);
+            subtables.push({ format: font.readUInt16BE(offset), offset });
+        }
+    }
+
+    const full = subtables.find(subtable => subtable.format === 12);
+    if (full) return format12Coverage(font, full.offset);
+    const basic = subtables.find(subtable => subtable.format === 4);
+    if (basic) return format4Coverage(font, basic.offset);
+    throw new Error('no Unicode character map');
+}
+
+// --- Loading ---
+
+function loadFont(face: FontFace): LoadedFont {
+    const file = path.resolve(FONT_DIR, face.file);
+    if (!existsSync(file)) {
+        return { ...face, path: file, covers: null, error: `${file} does not exist` };
+    }
+    try {
+        return { ...face, path: file, covers: readCoverage(readFileSync(file)) };
+    } catch (error) {
+        return { ...face, path: file, covers: null, error: `${file} could not be loaded: ${error instanceof Error ? error.message : error}` };
+    }
+}
+
+/**
+ * Reads the label fonts and a fallback stack, and reports which of them can be
+ * used. Logs the result as a single JSON line, and every font that didn't load
+ * as an error.
+ */
+export function loadFonts(fallbacks: FontFace[] = fallbackFontsFromEnv()): FontReport {
+    const report: FontReport = {
+        labels: {
+            courier: loadFont(labelFonts.courier),
+            manti: loadFont(labelFonts.manti),
+        },
+        fallbacks: fallbacks.map(loadFont),
+    };
+
+    const all = [...Object.values(report.labels), ...report.fallbacks];
+    for (const font of all.filter(font => !font.covers)) {
+        console.error(`Font "${font.family}" is unavailable, so characters only it covers will not render: ${font.error}`);
+    }
+    console.log(JSON.stringify({
+        event: 'fonts_loaded',
+        loaded: all.filter(font => font.covers).map(font => font.family),
+        missing: all.filter(font => !font.covers).map(font => font.family),
+    }));
+    return report;
+}
+
+let fonts: FontReport | null = null;
+
+/** The configured fonts, loaded the first time they're needed. */
+export function getFonts(): FontReport {
+    fonts ??= loadFonts();
+    return fonts;
+}
+
+/** The label font, then every fallback that loaded, in the order they're tried. */
+export function usableFonts(font: ChartFont = 'courier', { labels, fallbacks }: FontReport = getFonts()): LoadedFont[] {
+    return [labels[font], ...fallbacks].filter(face => face.covers);
+}
+
+/**
+ * The characters in `text` that neither the label font nor any loaded fallback
+ * has a glyph for, each listed once. Spaces and control characters don't count.
+ */
+export function missingGlyphs(text: string, font: ChartFont = 'courier', report: FontReport = getFonts()): string[] {
+    const stack = usableFonts(font, report);
+    const missing = new Set<string>();
+    for (const char of text) {
+        const codePoint = char.codePointAt(0)!;
+        // Spaces, controls, and the joiners and variation selectors inside emoji.
+        if (/[\s\p{Cc}\u200d\ufe0e\ufe0f]/u.test(char)) continue;
+        if (!stack.some(face => face.covers!(codePoint))) missing.add(char);
+    }
+    return [...missing];
+}
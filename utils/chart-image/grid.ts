@@ -0,0 +1,68 @@
+// utils/chart-image/grid.ts
+
+export type GridSize = {
+    columns: number;
+    rows: number;
+};
+
+/**
+ * Thrown for sizes that can't be read or are too big. The message is shown to
+ * the user as is.
+ */
+export class GridSizeError extends Error {
+    name = 'GridSizeError';
+}
+
+// Each side can be this long unless CHART_MAX_GRID_SIZE says otherwise. 15x15 is
+// already 225 downloads, about as many as fit in a deferred reply's time budget.
+const DEFAULT_MAX_SIDE = 15;
+
+/** The sizes suggested while typing, the old fixed choices. */
+export const COMMON_GRID_SIZES = ['3x3', '4x4', '5x5', '8x5', '10x10', '4x8', '15x6'];
+
+export function maxGridSide(): number {
+    const configured = Number(process.env.CHART_MAX_GRID_SIZE);
+    return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_MAX_SIDE;
+}
+
+/**
+ * Reads a size like `5x5` or `10x4`: columns, then rows. Spaces, `X` and `×` are
+ * fine too.
+ */
+export function parseGridSize(value: string, maxSide = maxGridSide()): GridSize {
+    const match = value.trim().match(/^(\d{1,3})\s*[x×]\s*(\d{1,3})$/i);
+    if (!match) {
+        throw new GridSizeError(`\`size\` should be columns by rows, like \`5x5\` or \`10x4\`, not \`${value}\`.`);
+    }
+    const columns = Number(match[1]);
+    const rows = Number(match[2]);
+    if (columns < 1 || rows < 1 || columns > maxSide || rows > maxSide) {
+        throw new GridSizeError(`Charts can be 1 to ${maxSide} tiles wide and tall, so \`${value}\` won't fit.`);
+    }
+    return { columns, rows };
+}
+
+export function formatGridSize({ columns, rows }: GridSize): string {
+    return `${columns}x${rows}`;
+}
+
+/**
+ * Sizes to suggest for what's been typed so far: the typed size itself when it's
+ * valid, then the common ones that start the same way.
+ */
+export function suggestGridSizes(query: string, maxSide = maxGridSide()): string[] {
+    const search = query.trim().toLowerCase();
+    const suggestions: string[] = [];
+    try {
+        suggestions.push(formatGridSize(parseGridSize(search, maxSide)));
+    } catch {
+        // Not a whole size yet.
+    }
+    for (const size of COMMON_GRID_SIZES) {
+        const { columns, rows } = parseGridSize(size, Infinity);
+        if (size.startsWith(search) && columns <= maxSide && rows <= maxSide && !suggestions.includes(size)) {
+            suggestions.push(size);
+        }
+    }
+    return suggestions;
+}
@@ -0,0 +1,184 @@
+// utils/chart-image/index.ts
+import sharp, { OverlayOptions } from 'sharp';
+import { getDominantSwatch } from '@/utils/colors';
+import { MAX_UPLOAD_BYTES } from '@/utils/discord';
+import { arrangeTiles, tileSpans } from './arrangement';
+import { ChartImageFormat, fitToUploadLimit } from './encode';
+import { planChartGeometry } from './layout';
+import { missingGlyphs } from './fonts';
+import { createMetrics, timed } from './metrics';
+import { renderTileOverlay } from './overlays';
+import { renderPlaceholder, renderTextLines, tileLabel, truncate } from './text';
+import { DEFAULT_CHART_THEME, renderBackground, roundCorners } from './theme';
+import { getThumbnail } from './thumbnails';
+import { ChartLayout, ChartMetrics, ChartTile, ThumbnailSource } from './types';
+
+export * from './types';
+export * from './grid';
+export { arrangeTiles, arrangementTileCount, checkArrangement, orderByHue, type TilePlacement } from './arrangement';
+export { ChartTooLargeError, type ChartImageFormat } from './encode';
+export { planChartGeometry, type ChartGeometry } from './layout';
+export { describeMovement } from './overlays';
+export { fontStack, renderPlaceholder, tileLabel } from './text';
+export { DEFAULT_FALLBACK_FONTS, getFonts, labelFonts, loadFonts, missingGlyphs, readCoverage, usableFonts } from './fonts';
+export type { FontFace, FontReport, LoadedFont } from './fonts';
+export {
+    ChartThemeError,
+    DEFAULT_CHART_THEME,
+    describeChartTheme,
+    getChartTheme,
+    MAX_CORNER_RADIUS,
+    MAX_TILE_GAP,
+    parseBackground,
+    parseHexColor,
+    resolveChartTheme,
+} from './theme';
+export { thumbnailKey } from './thumbnails';
+
+// How many tiles are looked up and downloaded at once. Enough to keep a 15x6
+// grid quick without opening a hundred connections to one image host.
+const TILE_CONCURRENCY = 8;
+
+/**
+ * Runs `work` over every item, at most `limit` at a time, keeping the results in order.
+ */
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, work: (item: T, index: number) => Promise<R>): Promise<R[]> {
+    const results = new Array<R>(items.length);
+    let next = 0;
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await work(items[index], index);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+    return results;
+}
+
+async function renderTile(tile: ChartTile, size: number, metrics: ChartMetrics): Promise<{ image: Buffer; source: ThumbnailSource }> {
+    try {
+        const url = await timed(metrics, 'resolve', () => tile.getImageUrl());
+        if (url) return await getThumbnail(url, size, metrics);
+    } catch (error) {
+        console.error(`Failed to process image for ${tileLabel(tile)}:`, error);
+    }
+    return { image: renderPlaceholder(tile, size), source: 'placeholder' };
+}
+
+/**
+ * Draws the tiles into a grid, in chart order or arranged by colour, with names
+ * under each tile or in a column beside each row, and any overlays on top of the
+ * tiles, in the colours, font and spacing of the theme. Tiles and text shrink to
+ * suit the grid, and the result is re-encoded as JPEG or WebP when a PNG would
+ * be too big to upload. Logs how long each stage took as a single JSON line.
+ */
+export async function renderChart(
+    tiles: ChartTile[],
+    layout: ChartLayout,
+): Promise<{ image: Buffer; format: ChartImageFormat; metrics: ChartMetrics }> {
+    const started = performance.now();
+    const metrics = createMetrics(tiles.length);
+    const { columns, rows, labels, overlays = {}, arrangement = 'grid', theme = DEFAULT_CHART_THEME, maxBytes = MAX_UPLOAD_BYTES } = layout;
+    const { tileSize, fontSize, lineHeight, charLimit, underTextHeight, topsterTextWidth, gap, width, height } = planChartGeometry(layout);
+    const tileLeft = (column: number) => gap + column * (tileSize + gap);
+    const tileTop = (row: number) => gap + row * (tileSize + underTextHeight + gap);
+    // A tile spanning more than one cell covers the gaps between them too.
+    const spanSize = (span: number) => tileSize * span + gap * (span - 1);
+    const textStyle = { color: theme.textColor, font: theme.font };
+
+    const spans = tileSpans(tiles.length, arrangement);
+
+    const rendered = await mapWithConcurrency(tiles, TILE_CONCURRENCY, (tile, index) => renderTile(tile, spanSize(spans[index]), metrics));
+
+    // Placeholders are grey text on black, so they count as having no colour.
+    const colorOf = ({ image, source }: { image: Buffer; source: ThumbnailSource }) =>
+        source === 'placeholder' ? Promise.resolve(null) : getDominantSwatch(image);
+    const colors = arrangement === 'hue' || arrangement === 'rainbow'
+        ? await timed(metrics, 'colors', () => mapWithConcurrency(rendered, TILE_CONCURRENCY, colorOf))
+        : [];
+    const placements = arrangeTiles({ columns, rows }, tiles.length, arrangement, colors);
+
+    const coverColor = theme.background === 'cover' || theme.background === 'gradient'
+        ? colors[0] ?? (rendered.length ? await timed(metrics, 'colors', () => colorOf(rendered[0])) : null)
+        : null;
+    const background = await renderBackground(theme, width, height, coverColor);
+
+    if (theme.cornerRadius > 0) {
+        await timed(metrics, 'resize', () => mapWithConcurrency(rendered, TILE_CONCURRENCY, async (tile, index) => {
+            tile.image = await roundCorners(tile.image, spanSize(spans[index]), theme.cornerRadius);
+        }));
+    }
+
+    const operations: OverlayOptions[] = placements.map(({ index, column, row }) => {
+        metrics.sources[rendered[index].source]++;
+        return { input: rendered[index].image, left: tileLeft(column), top: tileTop(row) };
+    });
+
+    // Characters no font could draw, so a gap in the fallback stack shows up in the logs.
+    const undrawable = new Set<string>();
+    const label = (tile: ChartTile, limit: number) => {
+        const text = truncate(tileLabel(tile), limit);
+        missingGlyphs(text, theme.font).forEach(char => undrawable.add(char));
+        return text;
+    };
+
+    await timed(metrics, 'labels', async () => {
+        for (const { index, column, row, span } of placements) {
+            const input = renderTileOverlay(tiles[index], overlays, spanSize(span));
+            if (input) {
+                operations.push({ input, left: tileLeft(column), top: tileTop(row) });
+            }
+        }
+
+        if (labels === 'under') {
+            const textTop = Math.round((underTextHeight - fontSize) / 2);
+            for (const { index, column, row, span } of placements) {
+                const labelWidth = spanSize(span);
+                const input = renderTextLines([label(tiles[index], charLimit * span)], labelWidth, underTextHeight, 'center', fontSize, lineHeight, textTop, textStyle);
+                operations.push({ input, left: tileLeft(column), top: tileTop(row) + labelWidth });
+            }
+        }
+
+        if (labels === 'topster') {
+            const textLeft = tileLeft(columns);
+            // The default background keeps the black panel behind the names it's always had;
+            // a themed background runs underneath them.
+            if (theme.background === DEFAULT_CHART_THEME.background) {
+                const panel = await sharp({ create: { width: topsterTextWidth, height, channels: 3, background: 'black' } }).png().toBuffer();
+                operations.push({ input: panel, left: textLeft, top: 0 });
+            }
+
+            for (let row = 0; row < rows; row++) {
+                const rowLabels = placements
+                    .filter(placement => placement.row === row)
+                    .sort((a, b) => a.column - b.column)
+                    .map(({ index }) => label(tiles[index], charLimit));
+                const input = renderTextLines(rowLabels, topsterTextWidth, tileSize, 'start', fontSize, lineHeight, undefined, textStyle);
+                operations.push({ input, left: textLeft, top: tileTop(row) });
+            }
+        }
+    });
+
+    const png = await timed(metrics, 'composite', () => sharp(background).composite(operations).png().toBuffer());
+
+    const { image, format } = await timed(metrics, 'encode', () => fitToUploadLimit(png, maxBytes));
+
+    metrics.totalMs = performance.now() - started;
+    console.log(JSON.stringify({
+        event: 'chart_rendered',
+        grid: `${columns}x${rows}`,
+        labels,
+        arrangement,
+        theme,
+        tileSize,
+        format,
+        bytes: image.length,
+        tiles: metrics.tiles,
+        sources: metrics.sources,
+        ...(undrawable.size ? { missingGlyphs: [...undrawable].join('') } : {}),
+        stageMs: Object.fromEntries(Object.entries(metrics.stageMs).map(([stage, ms]) => [stage, Math.round(ms)])),
+        totalMs: Math.round(metrics.totalMs),
+    }));
+
+    return { image, format, metrics };
+}
@@ -0,0 +1,66 @@
+// utils/chart-image/layout.ts
+import { ChartLayout } from './types';
+
+/** Pixel sizes for one render, worked out from the grid and label style. */
+export type ChartGeometry = {
+    tileSize: number;
+    fontSize: number;
+    lineHeight: number;
+    /** How many characters of a label fit before it's cut short. */
+    charLimit: number;
+    underTextHeight: number;
+    topsterTextWidth: number;
+    /** Pixels between tiles and around the edge of the grid. */
+    gap: number;
+    width: number;
+    height: number;
+};
+
+// Tiles shrink so the longer side of the grid stays within this many pixels,
+// which keeps a PNG of most grids under the upload limit.
+const MAX_GRID_PIXELS = 2400;
+const MAX_TILE_SIZE = 300;
+const MIN_TILE_SIZE = 48;
+
+const TOPSTER_TEXT_WIDTH = 450;
+const TOPSTER_PADDING = 15;
+
+// Courier New is monospaced, with glyphs about 0.6em wide.
+const CHAR_WIDTH = 0.6;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Picks the tile size, text size and label length for a grid. A 3x3 to 8x8 grid
+ * gets 300px tiles and 14px text; bigger grids get proportionally less of both.
+ * On big grids, gaps from the theme come out of the tiles rather than adding to the width.
+ */
+export function planChartGeometry({ columns, rows, labels, theme }: ChartLayout): ChartGeometry {
+    const gap = theme?.gap ?? 0;
+    const side = Math.max(columns, rows);
+    const tileSize = clamp(Math.floor((MAX_GRID_PIXELS - gap * (side + 1)) / side), MIN_TILE_SIZE, MAX_TILE_SIZE);
+    let fontSize = clamp(Math.round(6 + tileSize / 37.5), 8, 14);
+    let lineHeight = Math.round(fontSize * 1.6);
+
+    // Topster labels list a whole row beside it, so every line has to fit in one tile's height.
+    if (labels === 'topster') {
+        lineHeight = Math.min(lineHeight, Math.floor((tileSize - TOPSTER_PADDING) / columns));
+        fontSize = clamp(lineHeight - 2, 6, fontSize);
+    }
+
+    const underTextHeight = labels === 'under' ? Math.round(fontSize * 2.85) : 0;
+    const topsterTextWidth = labels === 'topster' ? TOPSTER_TEXT_WIDTH : 0;
+    const labelWidth = labels === 'topster' ? topsterTextWidth - 20 : tileSize - 8;
+
+    return {
+        tileSize,
+        fontSize,
+        lineHeight,
+        charLimit: Math.floor(labelWidth / (fontSize * CHAR_WIDTH)),
+        underTextHeight,
+        topsterTextWidth,
+        gap,
+        width: tileSize * columns + gap * (columns + 1) + topsterTextWidth,
+        height: (tileSize + underTextHeight) * rows + gap * (rows + 1),
+    };
+}
@@ -0,0 +1,23 @@
+// utils/chart-image/metrics.ts
+import { ChartMetrics, ChartStage } from './types';
+
+export function createMetrics(tiles: number): ChartMetrics {
+    return {
+        tiles,
+        sources: { disk: 0, kv: 0, network: 0, placeholder: 0 },
+        stageMs: { resolve: 0, cache: 0, download: 0, resize: 0, colors: 0, labels: 0, composite: 0, encode: 0 },
+        totalMs: 0,
+    };
+}
+
+/**
+ * Runs `work`, adding the time it took to `stage`, whether or not it succeeds.
+ */
+export async function timed<T>(metrics: ChartMetrics, stage: ChartStage, work: () => Promise<T>): Promise<T> {
+    const started = performance.now();
+    try {
+        return await work();
+    } finally {
+        metrics.stageMs[stage] += performance.now() - started;
+    }
+}
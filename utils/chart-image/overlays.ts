@@ -0,0 +1,78 @@
+// utils/chart-image/overlays.ts
+import { createCanvas, CanvasRenderingContext2D } from 'canvas';
+import { fontStack } from './text';
+import { ChartOverlays, ChartTile } from './types';
+
+const BOX_COLOR = 'rgba(0, 0, 0, 0.72)';
+
+const movementColors = {
+    up: 'rgb(74, 222, 128)',
+    down: 'rgb(248, 113, 113)',
+    same: 'rgb(190, 190, 190)',
+    new: 'rgb(250, 204, 21)',
+};
+
+/**
+ * How a tile's movement reads: `▲3`, `▼2`, `=` or `NEW`. Null when there's no
+ * previous chart to compare with.
+ */
+export function describeMovement(tile: Pick<ChartTile, 'rank' | 'previousRank'>): { text: string; color: string } | null {
+    if (tile.rank === undefined || tile.previousRank === undefined) return null;
+    if (tile.previousRank === null) return { text: 'NEW', color: movementColors.new };
+
+    const change = tile.previousRank - tile.rank;
+    if (change > 0) return { text: `▲${change}`, color: movementColors.up };
+    if (change < 0) return { text: `▼${-change}`, color: movementColors.down };
+    return { text: '=', color: movementColors.same };
+}
+
+/**
+ * Draws `text` in a dark box with its top-left (or top-right, for `end`) corner
+ * at `x`, `y`. Returns the box's width.
+ */
+function drawBadge(ctx: CanvasRenderingContext2D, text: string, x: number, y: number, fontSize: number, color: string, align: 'start' | 'end' = 'start'): number {
+    const padding = Math.round(fontSize * 0.35);
+    ctx.font = fontStack(fontSize);
+    const width = Math.ceil(ctx.measureText(text).width) + padding * 2;
+    const left = align === 'start' ? x : x - width;
+
+    ctx.fillStyle = BOX_COLOR;
+    ctx.fillRect(left, y, width, fontSize + padding * 2);
+    ctx.fillStyle = color;
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'top';
+    ctx.fillText(text, left + padding, y + padding);
+    return width;
+}
+
+/**
+ * A transparent tile-sized PNG with the rank and movement in the top-left corner
+ * and the play count in the bottom-right, or null if there's nothing to draw.
+ */
+export function renderTileOverlay(tile: ChartTile, overlays: ChartOverlays, size: number): Buffer | null {
+    const rank = overlays.rank && tile.rank !== undefined ? `#${tile.rank}` : null;
+    const movement = overlays.movement ? describeMovement(tile) : null;
+    const playcount = overlays.playcount && tile.playcount !== undefined ? tile.playcount : null;
+    if (!rank && !movement && playcount === null) return null;
+
+    const canvas = createCanvas(size, size);
+    const ctx = canvas.getContext('2d');
+    const fontSize = Math.max(9, Math.round(size / 14));
+    const margin = Math.max(2, Math.round(size / 50));
+
+    let x = margin;
+    if (rank) {
+        x += drawBadge(ctx, rank, x, margin, fontSize, 'white');
+    }
+    if (movement) {
+        drawBadge(ctx, movement.text, x, margin, fontSize, movement.color);
+    }
+    if (playcount !== null) {
+        // Small tiles only have room for the number.
+        const text = size >= 150 ? `${playcount} ${playcount === 1 ? 'play' : 'plays'}` : String(playcount);
+        const boxHeight = fontSize + Math.round(fontSize * 0.35) * 2;
+        drawBadge(ctx, text, size - margin, size - margin - boxHeight, fontSize, 'white', 'end');
+    }
+
+    return canvas.toBuffer('image/png');
+}
@@ -0,0 +1,140 @@
+// utils/chart-image/text.ts
+import { createCanvas, CanvasRenderingContext2D, registerFont } from 'canvas';
+import { getFonts, usableFonts } from './fonts';
+import { ChartFont, ChartTile } from './types';
+
+let fontsRegistered = false;
+
+/**
+ * The CSS font for drawing labels: the label font at `size` pixels, then every
+ * fallback that loaded. The fonts are registered with canvas the first time.
+ */
+export function fontStack(size: number, font: ChartFont = 'courier'): string {
+    if (!fontsRegistered) {
+        const { labels, fallbacks } = getFonts();
+        for (const face of [...Object.values(labels), ...fallbacks].filter(face => face.covers)) {
+            registerFont(face.path, { family: face.family });
+        }
+        fontsRegistered = true;
+    }
+    return `bold ${size}px ${usableFonts(font).map(face => `"${face.family}"`).join(', ')}`;
+}
+
+/** How a tile is named in the labelled layouts. */
+export function tileLabel(tile: ChartTile): string {
+    return tile.subtitle ? `${tile.subtitle} - ${tile.title}` : tile.title;
+}
+
+export function truncate(text: string, limit: number): string {
+    return text.length > limit ? text.substring(0, limit - 3) + '...' : text;
+}
+
+/** The colour and font labels are drawn in. */
+export type TextStyle = { color: string; font: ChartFont };
+
+/**
+ * Draws lines of text onto a transparent PNG, one per entry in `texts`,
+ * starting `top` pixels down. White Courier New unless `style` says otherwise.
+ */
+export function renderTextLines(
+    texts: string[],
+    width: number,
+    height: number,
+    anchor: 'start' | 'center',
+    fontSize: number,
+    lineHeight: number,
+    top = 15,
+    style: TextStyle = { color: 'white', font: 'courier' },
+): Buffer {
+    const canvas = createCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+
+    ctx.font = fontStack(fontSize, style.font);
+    ctx.fillStyle = style.color;
+    ctx.textAlign = anchor;
+    ctx.textBaseline = 'top';
+
+    const x = anchor === 'center' ? width / 2 : 10;
+    texts.forEach((text, index) => ctx.fillText(text, x, top + index * lineHeight));
+
+    return canvas.toBuffer('image/png');
+}
+
+/**
+ * Breaks `text` into lines no wider than `maxWidth`, cutting the last one short
+ * with an ellipsis if it takes more than `maxLines`.
+ */
+function wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number, maxLines: number): string[] {
+    const fits = (line: string) => ctx.measureText(line).width <= maxWidth;
+    const lines: string[] = [];
+    let line = '';
+
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (fits(candidate) || !line) {
+            line = candidate;
+        } else {
+            lines.push(line);
+            line = word;
+        }
+    }
+    if (line) lines.push(line);
+
+    if (lines.length > maxLines) {
+        lines.length = maxLines;
+        lines[maxLines - 1] += '…';
+    }
+    // A single word can still be too wide; shorten it until it fits.
+    return lines.map(current => {
+        let shortened = current;
+        while (!fits(shortened) && shortened.length > 1) {
+            shortened = shortened.slice(0, -2) + '…';
+        }
+        return shortened;
+    });
+}
+
+/**
+ * A tile for something without artwork: its name, and who it's by, on a plain square.
+ */
+export function renderPlaceholder(tile: Pick<ChartTile, 'title' | 'subtitle'>, size: number): Buffer {
+    const canvas = createCanvas(size, size);
+    const ctx = canvas.getContext('2d');
+
+    ctx.fillStyle = 'rgb(40, 40, 40)';
+    ctx.fillRect(0, 0, size, size);
+
+    const padding = Math.round(size / 12);
+    const titleSize = Math.round(size / 12);
+    const subtitleSize = Math.round(size / 16);
+
+    ctx.font = fontStack(titleSize);
+    const titleLines = wrapText(ctx, tile.title, size - padding * 2, 3);
+    ctx.font = fontStack(subtitleSize);
+    const subtitleLines = tile.subtitle ? wrapText(ctx, tile.subtitle, size - padding * 2, 2) : [];
+
+    const titleHeight = titleLines.length * titleSize * 1.25;
+    const subtitleHeight = subtitleLines.length * subtitleSize * 1.25;
+    const gap = subtitleLines.length ? subtitleSize : 0;
+    let y = (size - titleHeight - gap - subtitleHeight) / 2;
+
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'top';
+
+    ctx.font = fontStack(titleSize);
+    ctx.fillStyle = 'white';
+    for (const line of titleLines) {
+        ctx.fillText(line, size / 2, y);
+        y += titleSize * 1.25;
+    }
+
+    y += gap;
+    ctx.font = fontStack(subtitleSize);
+    ctx.fillStyle = 'rgb(170, 170, 170)';
+    for (const line of subtitleLines) {
+        ctx.fillText(line, size / 2, y);
+        y += subtitleSize * 1.25;
+    }
+
+    return canvas.toBuffer('image/png');
+}
@@ -0,0 +1,127 @@
+// utils/chart-image/theme.ts
+import sharp from 'sharp';
+import { DominantColor } from '@/utils/colors';
+import { getGuildSettings, getUserChartTheme } from '@/utils/storage';
+import { labelFonts } from './fonts';
+import { ChartTheme } from './types';
+
+/**
+ * Thrown for theme settings that can't be used. The message is shown to the user as is.
+ */
+export class ChartThemeError extends Error {
+    name = 'ChartThemeError';
+}
+
+/** How charts looked before themes: dark grey, white Courier New, tiles edge to edge. */
+export const DEFAULT_CHART_THEME: ChartTheme = {
+    background: '#141414',
+    textColor: '#ffffff',
+    font: 'courier',
+    gap: 0,
+    cornerRadius: 0,
+};
+
+export const MAX_TILE_GAP = 20;
+export const MAX_CORNER_RADIUS = 50;
+
+// The cover colour is darkened to at most this lightness, so light text stays readable on it.
+const MAX_COVER_LIGHTNESS = 0.3;
+
+/**
+ * Reads a `#rgb` or `#rrggbb` colour (the `#` is optional) as lowercase `#rrggbb`.
+ */
+export function parseHexColor(value: string, name: string): string {
+    const match = value.trim().match(/^#?([0-9a-f]{3}|[0-9a-f]{6})$/i);
+    if (!match) {
+        throw new ChartThemeError(`\`${name}\` should be a colour like \`#1e1e2e\`, not \`${value}\`.`);
+    }
+    const digits = match[1].length === 3 ? [...match[1]].map(digit => digit + digit).join('') : match[1];
+    return `#${digits.toLowerCase()}`;
+}
+
+/**
+ * Reads the `background` option: a colour, or `cover`/`gradient` to take it from the top tile.
+ */
+export function parseBackground(value: string): string {
+    const keyword = value.trim().toLowerCase();
+    if (keyword === 'cover' || keyword === 'gradient') return keyword;
+    return parseHexColor(value, 'background');
+}
+
+/**
+ * Fills in a theme from the defaults, then each layer in turn, so later layers
+ * (a user's own theme over their server's) win.
+ */
+export function resolveChartTheme(...layers: (Partial<ChartTheme> | null | undefined)[]): ChartTheme {
+    return Object.assign({ ...DEFAULT_CHART_THEME }, ...layers.filter(Boolean));
+}
+
+/**
+ * The theme a chart is drawn in: the user's own settings over their server's, over
+ * the defaults. Leave out `discordId` for a server's own charts.
+ */
+export async function getChartTheme(discordId?: string, guildId?: string): Promise<ChartTheme> {
+    const [settings, own] = await Promise.all([
+        guildId ? getGuildSettings(guildId) : null,
+        discordId ? getUserChartTheme(discordId) : null,
+    ]);
+    return resolveChartTheme(settings?.chartTheme, own);
+}
+
+/** One line per setting, for showing a theme back to the user. */
+export function describeChartTheme(theme: ChartTheme): string {
+    const background = theme.background === 'cover'
+        ? 'the top cover\'s colour'
+        : theme.background === 'gradient' ? 'a gradient from the top cover\'s colour' : `\`${theme.background}\``;
+    return [
+        `Background: ${background}`,
+        `Text: \`${theme.textColor}\` in ${labelFonts[theme.font].family}`,
+        `Gap between tiles: ${theme.gap}px`,
+        `Rounded corners: ${theme.cornerRadius}%`,
+    ].join('\n');
+}
+
+const toHex = (rgb: number[]) => `#${rgb.map(value => Math.round(value).toString(16).padStart(2, '0')).join('')}`;
+
+function hslToRgb([hue, saturation, lightness]: [number, number, number]): number[] {
+    const chroma = (1 - Math.abs(2 * lightness - 1)) * saturation;
+    const channel = (n: number) => {
+        const k = (n + hue * 12) % 12;
+        return (lightness - chroma / 2 * Math.max(-1, Math.min(k - 3, 9 - k, 1))) * 255;
+    };
+    return [channel(0), channel(8), channel(4)];
+}
+
+/**
+ * The chart's background as an image: a flat colour, or for `cover` and
+ * `gradient`, the top tile's colour (falling back to the default grey).
+ */
+export async function renderBackground(theme: ChartTheme, width: number, height: number, cover: DominantColor | null): Promise<Buffer> {
+    if (theme.background !== 'cover' && theme.background !== 'gradient') {
+        return sharp({ create: { width, height, channels: 4, background: theme.background } }).png().toBuffer();
+    }
+
+    const [hue, saturation, lightness] = cover?.hsl ?? [0, 0, 0.08];
+    const color = toHex(hslToRgb([hue, saturation, Math.min(lightness, MAX_COVER_LIGHTNESS)]));
+    if (theme.background === 'cover') {
+        return sharp({ create: { width, height, channels: 4, background: color } }).png().toBuffer();
+    }
+
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+        <defs><linearGradient id="fade" x1="0" y1="0" x2="0.4" y2="1">
+            <stop offset="0" stop-color="${color}"/><stop offset="1" stop-color="#0a0a0a"/>
+        </linearGradient></defs>
+        <rect width="100%" height="100%" fill="url(#fade)"/>
+    </svg>`;
+    return sharp(Buffer.from(svg)).png().toBuffer();
+}
+
+/**
+ * Cuts the corners of a square tile to `radius` percent of its size. The result
+ * is a PNG, since the corners are transparent.
+ */
+export async function roundCorners(image: Buffer, size: number, radius: number): Promise<Buffer> {
+    const r = Math.round(size * radius / 100);
+    const mask = Buffer.from(`<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}"><rect width="${size}" height="${size}" rx="${r}" ry="${r}"/></svg>`);
+    return sharp(image).resize(size, size).ensureAlpha().composite([{ input: mask, blend: 'dest-in' }]).png().toBuffer();
+}
@@ -0,0 +1,83 @@
+// utils/chart-image/thumbnails.ts
+import { createHash } from 'crypto';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import { readCache, writeCache } from '@/utils/storage';
+import { timed } from './metrics';
+import { ChartMetrics, ThumbnailSource } from './types';
+
+// Resized tiles are cached twice: on local disk, which is free but only lasts as
+// long as the instance, and in KV, which every instance shares. Image URLs point
+// at fixed files, so a week in KV is safe.
+const KV_TTL = 7 * 86400;
+
+// A slow image host shouldn't hold up the whole grid; the tile falls back to a placeholder.
+const DOWNLOAD_TIMEOUT_MS = 8000;
+
+function cacheDirectory(): string {
+    return process.env.THUMBNAIL_CACHE_DIR || path.join(os.tmpdir(), 'zorpheus-thumbnails');
+}
+
+/** Identifies one image at one size. URLs can be long, so they're hashed. */
+export function thumbnailKey(url: string, size: number): string {
+    return `${size}:${createHash('sha1').update(url).digest('hex')}`;
+}
+
+async function readDisk(key: string): Promise<Buffer | null> {
+    try {
+        return await readFile(path.join(cacheDirectory(), key.replace(':', '-')));
+    } catch {
+        return null;
+    }
+}
+
+async function writeDisk(key: string, image: Buffer) {
+    try {
+        await mkdir(cacheDirectory(), { recursive: true });
+        // Tiles that share a cover read and write the same file at once, so it's
+        // written beside the real name and renamed into place, never seen half-written.
+        const file = path.join(cacheDirectory(), key.replace(':', '-'));
+        const partial = `${file}.${process.pid}-${Math.random().toString(36).slice(2)}.tmp`;
+        await writeFile(partial, image);
+        await rename(partial, file);
+    } catch (error) {
+        console.error(`Could not write thumbnail ${key} to disk:`, error);
+    }
+}
+
+async function download(url: string): Promise<Buffer> {
+    const response = await fetch(url, { signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS) });
+    if (!response.ok) {
+        throw new Error(`Failed to fetch image: ${response.statusText} for URL: ${url}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+}
+
+/**
+ * The image at `url` as a `size`x`size` JPEG, from the disk cache, KV, or
+ * downloaded and resized. Throws if the image can't be downloaded or read.
+ */
+export async function getThumbnail(url: string, size: number, metrics: ChartMetrics): Promise<{ image: Buffer; source: ThumbnailSource }> {
+    const key = thumbnailKey(url, size);
+
+    const onDisk = await timed(metrics, 'cache', () => readDisk(key));
+    if (onDisk) return { image: onDisk, source: 'disk' };
+
+    const encoded = await timed(metrics, 'cache', () => readCache<string>('thumbnail', key));
+    if (encoded) {
+        const image = Buffer.from(encoded, 'base64');
+        await writeDisk(key, image);
+        return { image, source: 'kv' };
+    }
+
+    const original = await timed(metrics, 'download', () => download(url));
+    const image = await timed(metrics, 'resize', () => sharp(original).resize(size, size).jpeg({ quality: 90 }).toBuffer());
+
+    await timed(metrics, 'cache', () => Promise.all([
+        writeDisk(key, image),
+        writeCache('thumbnail', key, image.toString('base64'), KV_TTL),
+    ]));
+    return { image, source: 'network' };
+}
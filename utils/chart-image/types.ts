@@ -0,0 +1,81 @@
+// utils/chart-image/types.ts
+
+/** One square of the grid. */
+export type ChartTile = {
+    /** The album, artist or track name. */
+    title: string;
+    /** Who it's by, for albums and tracks. */
+    subtitle?: string;
+    /** How many times it was played, for the text list and the play count overlay. */
+    playcount?: number;
+    /** Its place in the whole chart, 1 for the top. */
+    rank?: number;
+    /**
+     * Its place in the previous equivalent period, for the movement overlay: null
+     * if it wasn't in that chart, undefined if there's nothing to compare with.
+     */
+    previousRank?: number | null;
+    /** Where the tile's image is, or null if there isn't one and a placeholder should be drawn. */
+    getImageUrl: () => Promise<string | null>;
+};
+
+/** Where names go: nowhere, in a column beside each row, or under each tile. */
+export type LabelStyle = 'no_names' | 'topster' | 'under';
+
+/** What's drawn on top of each tile, in a dark box so it reads over any cover. */
+export type ChartOverlays = {
+    rank?: boolean;
+    playcount?: boolean;
+    /** An arrow for how far the tile moved since the previous period (see `previousRank`). */
+    movement?: boolean;
+};
+
+/**
+ * How tiles are placed: in chart order, sorted by colour (`hue` row by row,
+ * `rainbow` along the diagonals), or with the top tile `featured` at 2x2.
+ */
+export type ChartArrangement = 'grid' | 'hue' | 'rainbow' | 'featured';
+
+/** The bundled label fonts, from public/fonts. */
+export type ChartFont = 'courier' | 'manti';
+
+/** How a chart looks, as chosen with /charttheme. */
+export type ChartTheme = {
+    /** A `#rrggbb` colour, or `cover` for the top tile's colour, or `gradient` to fade it to black. */
+    background: string;
+    /** A `#rrggbb` colour for the names. */
+    textColor: string;
+    font: ChartFont;
+    /** Pixels between tiles and around the edge. */
+    gap: number;
+    /** How round tile corners are, as a percentage of the tile's size; 50 makes circles. */
+    cornerRadius: number;
+};
+
+export type ChartLayout = {
+    columns: number;
+    rows: number;
+    labels: LabelStyle;
+    overlays?: ChartOverlays;
+    arrangement?: ChartArrangement;
+    /** Defaults to DEFAULT_CHART_THEME. */
+    theme?: ChartTheme;
+    /** The biggest the finished file may be, in bytes. Defaults to Discord's upload limit. */
+    maxBytes?: number;
+};
+
+/** Where a tile's image ended up coming from. */
+export type ThumbnailSource = 'disk' | 'kv' | 'network' | 'placeholder';
+
+export type ChartStage = 'resolve' | 'cache' | 'download' | 'resize' | 'colors' | 'labels' | 'composite' | 'encode';
+
+/**
+ * How a render went. Stage times are summed over every tile, and tiles are
+ * worked on a few at a time, so they can add up to more than `totalMs`.
+ */
+export type ChartMetrics = {
+    tiles: number;
+    sources: Record<ThumbnailSource, number>;
+    stageMs: Record<ChartStage, number>;
+    totalMs: number;
+};
@@ -0,0 +1,102 @@
+// utils/chart-movement.ts
+import { ChartTile } from '@/utils/chart-image';
+import { DateRangeInput, previousDateRange } from '@/utils/date-ranges';
+import { LastFmPeriod } from '@/utils/lastfm';
+import { getRangeChart, RangeChartType } from '@/utils/range-charts';
+import { ChartSnapshot, getChartSnapshot, recordChartSnapshot } from '@/utils/storage';
+
+// Movement compares a chart with the same chart one period earlier. Date ranges
+// can simply be charted again for the range before. Last.fm's periods roll with
+// the clock and it can't say what they looked like in the past, so instead every
+// chart drawn for a period saves its positions: one snapshot per period-long
+// window, compared against the snapshot of the window before.
+
+const DAY_SECONDS = 86400;
+
+// `overall` has no previous period, so it's compared week by week.
+const windowDays: Record<LastFmPeriod, number> = {
+    '7day': 7,
+    '1month': 30,
+    '3month': 90,
+    '6month': 180,
+    '12month': 365,
+    overall: 7,
+};
+
+// How many entries of the previous range to rank, enough to place most tiles.
+const RANGE_BASELINE_DEPTH = 200;
+
+/** Identifies an entry across charts, ignoring case. */
+export function chartEntryKey(tile: Pick<ChartTile, 'title' | 'subtitle'>): string {
+    return `${tile.subtitle ?? ''} - ${tile.title}`.toLowerCase();
+}
+
+function snapshotId(subject: string, period: LastFmPeriod, window: number): string {
+    return `${subject}:${period}:${window}`;
+}
+
+function currentWindow(period: LastFmPeriod, now: number): number {
+    return Math.floor(now / 1000 / (windowDays[period] * DAY_SECONDS));
+}
+
+/**
+ * Saves the ranked tiles' positions in this window's snapshot. `subject` says
+ * whose chart it is and of what, e.g. `user:alice:albums`. Failures are logged,
+ * since movement is never worth failing a chart over.
+ */
+export async function recordPeriodPositions(subject: string, period: LastFmPeriod, tiles: ChartTile[], now = Date.now()) {
+    const positions: ChartSnapshot = {};
+    for (const tile of tiles) {
+        if (tile.rank !== undefined) positions[chartEntryKey(tile)] = tile.rank;
+    }
+    try {
+        // Kept long enough to be the previous window for the whole of the next one.
+        await recordChartSnapshot(snapshotId(subject, period, currentWindow(period, now)), positions, windowDays[period] * DAY_SECONDS * 2 + DAY_SECONDS);
+    } catch (error) {
+        console.error(`Could not save chart positions for ${subject}:`, error);
+    }
+}
+
+/**
+ * The positions saved during the previous window, or null if no chart was drawn then.
+ */
+export async function getPeriodBaseline(subject: string, period: LastFmPeriod, now = Date.now()): Promise<ChartSnapshot | null> {
+    try {
+        return await getChartSnapshot(snapshotId(subject, period, currentWindow(period, now) - 1));
+    } catch (error) {
+        console.error(`Could not read chart positions for ${subject}:`, error);
+        return null;
+    }
+}
+
+/**
+ * A user's positions in the range before the one `dates` describes, or null if
+ * there's no such range or it couldn't be charted.
+ */
+export async function getRangeBaseline(user: string, type: RangeChartType, dates: DateRangeInput): Promise<ChartSnapshot | null> {
+    const previous = previousDateRange(dates);
+    if (!previous) return null;
+
+    try {
+        const { entries } = await getRangeChart(user, type, previous, RANGE_BASELINE_DEPTH);
+        const positions: ChartSnapshot = {};
+        entries.forEach((entry, index) => {
+            positions[chartEntryKey({ title: entry.name, subtitle: type === 'artists' ? undefined : entry.artist })] = index + 1;
+        });
+        return positions;
+    } catch (error) {
+        console.error(`Could not chart the previous range for ${user}:`, error);
+        return null;
+    }
+}
+
+/**
+ * Sets each tile's `previousRank` from the baseline. Without one, tiles are left
+ * alone and no movement is drawn.
+ */
+export function applyMovement(tiles: ChartTile[], baseline: ChartSnapshot | null) {
+    if (!baseline) return;
+    for (const tile of tiles) {
+        tile.previousRank = baseline[chartEntryKey(tile)] ?? null;
+    }
+}
@@ -0,0 +1,36 @@
+// utils/colors.ts
+import { Vibrant } from 'node-vibrant/node';
+
+/** The colour that stands out most in an image. `hsl` values are all 0 to 1. */
+export type DominantColor = {
+    hex: string;
+    rgb: [number, number, number];
+    hsl: [number, number, number];
+};
+
+/**
+ * Picks an image's dominant colour from its palette, preferring the "Vibrant"
+ * swatch over the muted ones. Resolves to null if the image can't be read.
+ */
+export async function getDominantSwatch(image: string | Buffer): Promise<DominantColor | null> {
+    try {
+        const palette = await Vibrant.from(image).getPalette();
+        const swatch = palette.Vibrant || palette.Muted || palette.LightVibrant;
+        if (swatch?.hex) {
+            return { hex: swatch.hex, rgb: swatch.rgb, hsl: swatch.hsl };
+        }
+    } catch (error) {
+        console.error("Error getting dominant color:", error);
+    }
+    return null;
+}
+
+/**
+ * The dominant colour of the image at `imageUrl` as an embed colour, or null so
+ * the caller can fall back to its own.
+ */
+export async function getDominantColor(imageUrl: string): Promise<number | null> {
+    const swatch = await getDominantSwatch(imageUrl);
+    // Discord wants the colour as an integer, not a "#RRGGBB" string.
+    return swatch ? parseInt(swatch.hex.substring(1), 16) : null;
+}
@@ -0,0 +1,118 @@
+// utils/commands.ts
+import { NextResponse } from 'next/server';
+import {
+    APIApplicationCommandInteractionDataOption,
+    APIApplicationCommandAutocompleteInteraction,
+    APIApplicationCommandOption,
+    APIChatInputApplicationCommandInteraction,
+    ApplicationCommandOptionType,
+    RESTPostAPIChatInputApplicationCommandsJSONBody,
+} from 'discord-api-types/v10';
+import { ComponentRoute } from '@/utils/components';
+
+/**
+ * Where a command gets registered. Global commands are available in every server
+ * the bot is in; guild commands are only registered to `DISCORD_GUILD_ID`.
+ */
+export type CommandScope = 'global' | 'guild';
+
+export type CommandHandler = (interaction: APIChatInputApplicationCommandInteraction) => Promise<NextResponse> | NextResponse;
+
+/**
+ * Answers an autocomplete request for one of the command's options. Discord drops
+ * the request if there's no answer within 3 seconds, so these have to be quick.
+ */
+export type AutocompleteHandler = (interaction: APIApplicationCommandAutocompleteInteraction) => Promise<NextResponse> | NextResponse;
+
+/**
+ * A single slash command: the schema Discord sees and the handler the router calls.
+ * Every command file under `app/commands/` exports one of these.
+ */
+export interface CommandDefinition {
+    data: RESTPostAPIChatInputApplicationCommandsJSONBody;
+    scope: CommandScope;
+    execute: CommandHandler;
+    autocomplete?: AutocompleteHandler;
+    /** Handlers for the buttons, menus and modals the command sends. */
+    components?: ComponentRoute[];
+}
+
+/**
+ * Small helper so command files get type checking on their schema without
+ * having to spell out every field of CommandDefinition.
+ */
+export function defineCommand(definition: {
+    name: string;
+    description: string;
+    options?: APIApplicationCommandOption[];
+    scope?: CommandScope;
+    execute: CommandHandler;
+    autocomplete?: AutocompleteHandler;
+    components?: ComponentRoute[];
+}): CommandDefinition {
+    const { name, description, options, scope = 'global', execute, autocomplete, components } = definition;
+    return {
+        data: { name, description, ...(options ? { options } : {}) },
+        scope,
+        execute,
+        ...(autocomplete ? { autocomplete } : {}),
+        ...(components ? { components } : {}),
+    };
+}
+
+// --- Option helpers ---
+
+type InteractionOptions = APIApplicationCommandInteractionDataOption[] | undefined;
+
+function findOption(options: InteractionOptions, name: string, type: ApplicationCommandOptionType) {
+    return options?.find(opt => opt.name === name && opt.type === type);
+}
+
+export function getStringOption(options: InteractionOptions, name: string): string | undefined {
+    const option = findOption(options, name, ApplicationCommandOptionType.String);
+    return option && 'value' in option ? option.value as string : undefined;
+}
+
+export function getBooleanOption(options: InteractionOptions, name: string): boolean | undefined {
+    const option = findOption(options, name, ApplicationCommandOptionType.Boolean);
+    return option && 'value' in option ? option.value as boolean : undefined;
+}
+
+export function getIntegerOption(options: InteractionOptions, name: string): number | undefined {
+    const option = findOption(options, name, ApplicationCommandOptionType.Integer);
+    return option && 'value' in option ? option.value as number : undefined;
+}
+
+export function getAttachmentOption(options: InteractionOptions, name: string): string | undefined {
+    const option = findOption(options, name, ApplicationCommandOptionType.Attachment);
+    return option && 'value' in option ? option.value as string : undefined;
+}
+
+/**
+ * Returns the invoked subcommand (descending into a subcommand group if there is one)
+ * together with the options that were passed to it.
+ */
+export function getSubcommand(options: InteractionOptions): { group?: string; name: string; options: InteractionOptions } | null {
+    const first = options?.[0];
+    if (!first) return null;
+
+    if (first.type === ApplicationCommandOptionType.SubcommandGroup) {
+        const sub = first.options[0];
+        return sub ? { group: first.name, name: sub.name, options: sub.options } : null;
+    }
+    if (first.type === ApplicationCommandOptionType.Subcommand) {
+        return { name: first.name, options: first.options };
+    }
+    return null;
+}
+
+/**
+ * In an autocomplete request, the option the user is currently typing in, along with
+ * its siblings (the other options of the same subcommand) for context.
+ */
+export function getFocusedOption(options: InteractionOptions): { name: string; value: string; options: InteractionOptions } | null {
+    const scope = getSubcommand(options)?.options ?? options;
+    const focused = scope?.find(opt => 'focused' in opt && opt.focused);
+    if (!focused || !('value' in focused)) return null;
+    return { name: focused.name, value: String(focused.value), options: scope };
+}
@@ -0,0 +1,162 @@
+// utils/components.ts
+import { NextResponse } from 'next/server';
+import {
+    APIMessageComponentButtonInteraction,
+    APIMessageComponentInteraction,
+    APIMessageComponentSelectMenuInteraction,
+    APIModalSubmitInteraction,
+    ComponentType,
+    InteractionResponseType,
+    InteractionType,
+} from 'discord-api-types/v10';
+
+// --- Custom IDs ---
+// A custom_id is `prefix:arg:arg...`, optionally followed by a `~owner~expiry`
+// segment. The prefix names the handler (e.g. `chart:page`), the args carry
+// whatever state it needs, and the last segment restricts who can use the
+// component and until when. Discord caps custom IDs at 100 characters.
+
+const MAX_CUSTOM_ID_LENGTH = 100;
+const META_MARKER = '~';
+
+function encodeArg(arg: string | number): string {
+    // `~` survives encodeURIComponent, but it marks the metadata segment.
+    return encodeURIComponent(String(arg)).replace(/~/g, '%7E');
+}
+
+/**
+ * Builds a custom_id for a component routed to the handler registered under `prefix`.
+ * `ownerId` limits the component to one user; `expiresIn` (seconds) makes it stop
+ * working after a while, for components whose state lives somewhere that expires.
+ */
+export function createCustomId(prefix: string, args: (string | number)[] = [], options: { ownerId?: string; expiresIn?: number } = {}): string {
+    const parts = [prefix, ...args.map(encodeArg)];
+
+    if (options.ownerId || options.expiresIn) {
+        const expiresAt = options.expiresIn ? Math.floor(Date.now() / 1000) + options.expiresIn : undefined;
+        parts.push(`${META_MARKER}${options.ownerId ?? ''}${META_MARKER}${expiresAt?.toString(36) ?? ''}`);
+    }
+
+    const customId = parts.join(':');
+    if (customId.length > MAX_CUSTOM_ID_LENGTH) {
+        throw new Error(`custom_id "${customId}" is longer than ${MAX_CUSTOM_ID_LENGTH} characters`);
+    }
+    return customId;
+}
+
+type ParsedCustomId = {
+    segments: string[];
+    ownerId?: string;
+    /** Unix timestamp in seconds. */
+    expiresAt?: number;
+};
+
+function parseCustomId(customId: string): ParsedCustomId {
+    const segments = customId.split(':');
+    const last = segments[segments.length - 1];
+
+    if (!last?.startsWith(META_MARKER)) {
+        return { segments };
+    }
+
+    const [ownerId, expiry] = last.slice(1).split(META_MARKER);
+    return {
+        segments: segments.slice(0, -1),
+        ownerId: ownerId || undefined,
+        expiresAt: expiry ? parseInt(expiry, 36) : undefined,
+    };
+}
+
+// --- Routes ---
+
+type ComponentInteractions = {
+    button: APIMessageComponentButtonInteraction;
+    select: APIMessageComponentSelectMenuInteraction;
+    modal: APIModalSubmitInteraction;
+};
+
+export type ComponentKind = keyof ComponentInteractions;
+
+export type ComponentContext = {
+    /** The decoded args that followed the prefix in the custom_id. */
+    args: string[];
+    /** The user the component is restricted to, if any. */
+    ownerId?: string;
+};
+
+export type ComponentHandler<K extends ComponentKind> = (interaction: ComponentInteractions[K], context: ComponentContext) => Promise<NextResponse> | NextResponse;
+
+/**
+ * A handler for every component whose custom_id starts with `prefix`.
+ * Commands list theirs under `components` in their definition.
+ */
+export interface ComponentRoute<K extends ComponentKind = ComponentKind> {
+    prefix: string;
+    kind: K;
+    handle: ComponentHandler<K>;
+    /** Shown when the component is used after it expired. */
+    expiredMessage?: string;
+}
+
+/**
+ * Same idea as defineCommand: type checks the handler against the kind of component.
+ */
+export function defineComponent<K extends ComponentKind>(route: ComponentRoute<K>): ComponentRoute {
+    return route as unknown as ComponentRoute;
+}
+
+export type ComponentRouteInteraction = APIMessageComponentInteraction | APIModalSubmitInteraction;
+
+function kindOf(interaction: ComponentRouteInteraction): ComponentKind {
+    if (interaction.type === InteractionType.ModalSubmit) return 'modal';
+    return interaction.data.component_type === ComponentType.Button ? 'button' : 'select';
+}
+
+function ephemeral(content: string) {
+    return NextResponse.json({
+        type: InteractionResponseType.ChannelMessageWithSource,
+        data: { content, flags: 1 << 6 },
+    });
+}
+
+/**
+ * Picks the route with the longest prefix matching the custom_id, enforces its
+ * owner and expiry restrictions, and hands the interaction to it.
+ */
+export async function dispatchComponent(interaction: ComponentRouteInteraction, routes: ComponentRoute[]): Promise<NextResponse> {
+    const { segments, ownerId, expiresAt } = parseCustomId(interaction.data.custom_id);
+    const kind = kindOf(interaction);
+
+    let match: { route: ComponentRoute; args: string[] } | null = null;
+    for (const route of routes) {
+        const length = route.prefix.split(':').length;
+        if (route.kind !== kind || segments.slice(0, length).join(':') !== route.prefix) continue;
+        if (!match || route.prefix.length > match.route.prefix.length) {
+            match = { route, args: segments.slice(length) };
+        }
+    }
+
+    if (!match) {
+        console.warn(`No ${kind} handler for custom_id "${interaction.data.custom_id}"`);
+        return new NextResponse('Unknown component interaction', { status: 400 });
+    }
+
+    if (expiresAt && Date.now() / 1000 > expiresAt) {
+        return ephemeral(match.route.expiredMessage ?? 'This has expired. Please run the command again.');
+    }
+
+    const userId = interaction.member?.user.id ?? interaction.user?.id;
+    if (ownerId && userId !== ownerId) {
+        return ephemeral('Only the person who ran the command can use this.');
+    }
+
+    let args: string[];
+    try {
+        args = match.args.map(decodeURIComponent);
+    } catch {
+        // Ours are always encoded, so this custom_id was mangled or made up.
+        console.warn(`Malformed args in custom_id "${interaction.data.custom_id}"`);
+        return new NextResponse('Unknown component interaction', { status: 400 });
+    }
+    return match.route.handle(interaction as ComponentInteractions[ComponentKind], { args, ownerId });
+}
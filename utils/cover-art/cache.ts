@@ -0,0 +1,48 @@
+// utils/cover-art/cache.ts
+import { deleteCache, keys, readCache, writeCache } from '@/utils/storage';
+import { normalizeString } from '@/utils/strings';
+import { CoverArtStrategy, ResolvedCoverArt } from './types';
+
+// Resolved covers rarely change, so they're kept for a month.
+const CACHE_TTL = 60 * 60 * 24 * 30;
+
+type CachedCoverArt = ResolvedCoverArt & { strategy: CoverArtStrategy };
+
+function cacheKeyPart(value: string) {
+    return normalizeString(value).toLowerCase().trim();
+}
+
+/**
+ * Identifies an album across services, ignoring case and accents.
+ */
+export function albumKey(artist: string, album: string): string {
+    return `${cacheKeyPart(artist)}:${cacheKeyPart(album)}`;
+}
+
+export function coverArtCacheKey(artist: string, album: string): string {
+    return keys.cache('cover', albumKey(artist, album));
+}
+
+export async function readCachedCoverArt(artist: string, album: string, strategy: CoverArtStrategy): Promise<ResolvedCoverArt | null> {
+    if (!artist || !album) return null;
+
+    const cached = await readCache<CachedCoverArt>('cover', albumKey(artist, album));
+    // An `hq` lookup only accepts results that were themselves ranked across
+    // every provider; a `sequential` lookup is happy with anything.
+    if (!cached || (strategy === 'hq' && cached.strategy !== 'hq')) {
+        return null;
+    }
+    const { url, source, width, height } = cached;
+    return { url, source, width, height };
+}
+
+export async function writeCachedCoverArt(artist: string, album: string, result: ResolvedCoverArt, strategy: CoverArtStrategy) {
+    if (!artist || !album) return;
+
+    const value: CachedCoverArt = { ...result, strategy };
+    await writeCache('cover', albumKey(artist, album), value, CACHE_TTL);
+}
+
+export async function clearCachedCoverArt(artist: string, album: string) {
+    await deleteCache('cover', albumKey(artist, album));
+}
@@ -0,0 +1,157 @@
+// utils/cover-art/index.ts
+import { probeImage } from './probe';
+import { readCachedCoverArt, writeCachedCoverArt } from './cache';
+import { getApprovedOverride } from './overrides';
+import { lastFmProvider } from './providers/lastfm';
+import { itunesProvider } from './providers/itunes';
+import { musicBrainzProvider } from './providers/musicbrainz';
+import { deezerProvider } from './providers/deezer';
+import { discogsProvider } from './providers/discogs';
+import {
+    CoverArtCandidate,
+    CoverArtProvider,
+    CoverArtQuery,
+    CoverArtStrategy,
+    ResolvedCoverArt,
+} from './types';
+
+export * from './types';
+export { probeImage, isLastFmPlaceholder } from './probe';
+export { upgradeLastFmUrl } from './providers/lastfm';
+export { albumKey, coverArtCacheKey } from './cache';
+export * from './overrides';
+
+/**
+ * The providers every command uses unless told otherwise, in the order the
+ * sequential strategy tries them.
+ */
+export const defaultProviders: CoverArtProvider[] = [
+    lastFmProvider,
+    itunesProvider,
+    deezerProvider,
+    musicBrainzProvider,
+    discogsProvider,
+];
+
+export type ResolveCoverArtOptions = {
+    strategy?: CoverArtStrategy;
+    providers?: CoverArtProvider[];
+    /** Ignore any cached result and look the cover up again. */
+    skipCache?: boolean;
+    /** How long to wait on each image before giving up on it, in milliseconds. */
+    probeTimeout?: number;
+};
+
+// --- Shared cache ---
+
+/**
+ * Returns the cover another command already resolved for this album, if any.
+ * An approved override always takes precedence over cached lookups.
+ */
+export async function getCachedCoverArt(artist: string, album: string, strategy: CoverArtStrategy = 'sequential'): Promise<ResolvedCoverArt | null> {
+    const override = await getApprovedOverride(artist, album);
+    if (override) return override;
+
+    return readCachedCoverArt(artist, album, strategy);
+}
+
+// --- Strategies ---
+
+async function validateCandidate(candidate: CoverArtCandidate, timeout: number): Promise<ResolvedCoverArt | null> {
+    const dimensions = await probeImage(candidate.url, timeout);
+    if (!dimensions) return null;
+
+    return {
+        url: candidate.url,
+        source: candidate.source,
+        // Fall back on what the provider told us when the header couldn't be read.
+        width: dimensions.width || candidate.width || 0,
+        height: dimensions.height || candidate.height || 0,
+    };
+}
+
+async function findCandidates(provider: CoverArtProvider, query: CoverArtQuery): Promise<CoverArtCandidate[]> {
+    try {
+        return await provider.find(query);
+    } catch (error) {
+        console.error(`Cover art provider "${provider.name}" failed:`, error);
+        return [];
+    }
+}
+
+/**
+ * Tries providers one-by-one and returns the first valid image.
+ */
+async function resolveSequentially(query: CoverArtQuery, providers: CoverArtProvider[], timeout: number): Promise<ResolvedCoverArt | null> {
+    console.log(`Searching cover sources sequentially for "${query.album}" by "${query.artist}"`);
+
+    for (const provider of providers) {
+        const candidates = await findCandidates(provider, query);
+        for (const candidate of candidates) {
+            const result = await validateCandidate(candidate, timeout);
+            if (result) {
+                console.log(`Successfully got valid album art from ${provider.name}.`);
+                return result;
+            }
+        }
+        console.log(`${provider.name} found nothing usable, trying the next source...`);
+    }
+
+    console.log(`All cover sources failed for "${query.album}" by "${query.artist}".`);
+    return null;
+}
+
+/**
+ * [HQ Only] Asks every provider in parallel, probes every candidate, and returns
+ * the one with the most pixels. Ties go to the provider listed first.
+ */
+async function resolveBest(query: CoverArtQuery, providers: CoverArtProvider[], timeout: number): Promise<ResolvedCoverArt | null> {
+    console.log(`[HQ] Searching all sources for "${query.album}" by "${query.artist}"`);
+
+    const candidateLists = await Promise.all(providers.map(provider => findCandidates(provider, query)));
+    const validated = await Promise.all(candidateLists.flat().map(candidate => validateCandidate(candidate, timeout)));
+    const ranked = validated
+        .filter((result): result is ResolvedCoverArt => result !== null)
+        .sort((a, b) => b.width * b.height - a.width * a.height);
+
+    console.log("Ranked image URLs by quality:", ranked.map(r => ({ url: r.url, source: r.source, size: `${r.width}x${r.height}` })));
+
+    return ranked[0] ?? null;
+}
+
+/**
+ * Finds the cover art for an album. Approved overrides come first, then the shared
+ * cache, so that `/fm`, `/cover`, `/rc` and `/chart` all reuse each other's lookups.
+ */
+export async function resolveCoverArt(query: CoverArtQuery, options: ResolveCoverArtOptions = {}): Promise<ResolvedCoverArt | null> {
+    const {
+        strategy = 'sequential',
+        providers = defaultProviders,
+        skipCache = false,
+        probeTimeout = 2500,
+    } = options;
+
+    // A cover submitted by a user and approved by a moderator beats any lookup.
+    const override = await getApprovedOverride(query.artist, query.album);
+    if (override) {
+        console.log(`Using cover override for "${query.album}" by "${query.artist}".`);
+        return override;
+    }
+
+    if (!skipCache) {
+        const cached = await readCachedCoverArt(query.artist, query.album, strategy);
+        if (cached) {
+            console.log(`Cover art cache hit for "${query.album}" by "${query.artist}" (${cached.source}).`);
+            return cached;
+        }
+    }
+
+    const result = strategy === 'hq'
+        ? await resolveBest(query, providers, probeTimeout)
+        : await resolveSequentially(query, providers, probeTimeout);
+
+    if (result) {
+        await writeCachedCoverArt(query.artist, query.album, result, strategy);
+    }
+    return result;
+}
@@ -0,0 +1,373 @@
+// utils/cover-art/overrides.ts
+import { createHmac, timingSafeEqual } from 'crypto';
+import dns from 'dns';
+import { BlockList, isIP } from 'net';
+import sharp from 'sharp';
+import { getBaseUrl } from '@/utils/base-url';
+import { keys, kv } from '@/utils/storage';
+import { albumKey, clearCachedCoverArt } from './cache';
+import { ResolvedCoverArt } from './types';
+
+export type CoverOverrideStatus = 'pending' | 'approved' | 'rejected' | 'revoked';
+
+/**
+ * A cover submitted by a user through `/cover fix`. It only takes effect once a
+ * moderator approves it, after which every command uses it for that album.
+ */
+export type CoverOverride = {
+    id: string;
+    artist: string;
+    album: string;
+    status: CoverOverrideStatus;
+    width: number;
+    height: number;
+    /** The attachment or link the image was originally submitted from. */
+    sourceUrl: string;
+    submittedBy: string;
+    submittedAt: number;
+    reviewedBy?: string;
+    reviewedAt?: number;
+};
+
+/**
+ * Thrown for anything the submitter or reviewer did wrong. The message is safe to show.
+ */
+export class CoverOverrideError extends Error {
+    name = 'CoverOverrideError';
+}
+
+// Where these live is described in `utils/storage/keys.ts`.
+const activeOverrideKey = (artist: string, album: string) => keys.activeOverride(albumKey(artist, album));
+
+type ActiveOverride = { id: string; width: number; height: number };
+
+// Discord attachment links expire after a day, so images are copied into KV.
+// They're capped in size to fit comfortably in a single value.
+const MAX_IMAGE_SIZE = 1200;
+const MAX_DOWNLOAD_BYTES = 10 * 1024 * 1024;
+const MAX_REDIRECTS = 3;
+
+// Pending submissions hold a full image each, so a user can only have a few
+// waiting at once and any nobody gets round to reviewing eventually expire.
+const MAX_PENDING_PER_USER = 3;
+const PENDING_TTL = 14 * 86400;
+
+export function getOverrideImageUrl(id: string): string {
+    return `${getBaseUrl()}/api/cover-override/${id}`;
+}
+
+// Only approved images are public. Pending ones are served to whoever holds a link
+// signed with COVER_REVIEW_SECRET, which is only handed to reviewers.
+function reviewToken(id: string): string | null {
+    const secret = process.env.COVER_REVIEW_SECRET;
+    return secret ? createHmac('sha256', secret).update(id).digest('base64url') : null;
+}
+
+/**
+ * A link to a pending override's image for reviewers, or null when
+ * COVER_REVIEW_SECRET isn't set.
+ */
+export function getReviewImageUrl(id: string): string | null {
+    const token = reviewToken(id);
+    return token ? `${getOverrideImageUrl(id)}?token=${token}` : null;
+}
+
+/**
+ * Whether `token` came from `getReviewImageUrl` for this override.
+ */
+export function isReviewToken(id: string, token: string | null): boolean {
+    const expected = reviewToken(id);
+    if (!expected || !token || token.length !== expected.length) return false;
+    return timingSafeEqual(Buffer.from(token), Buffer.from(expected));
+}
+
+// --- Downloads ---
+// The links come from users, so the server mustn't be talked into fetching from
+// its own network: loopback, private ranges, link-local (where cloud metadata
+// lives) and anything else that isn't the public internet. IPv4-mapped IPv6
+// addresses are checked against the IPv4 ranges by BlockList itself.
+
+const privateAddresses = new BlockList();
+for (const [network, prefix] of [
+    ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8],
+    ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.168.0.0', 16], ['224.0.0.0', 3],
+] as const) {
+    privateAddresses.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+    privateAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+async function isPublicHost(hostname: string): Promise<boolean> {
+    const host = hostname.replace(/^\[|\]$/g, '');
+    const addresses = isIP(host)
+        ? [{ address: host, family: isIP(host) }]
+        : await dns.promises.lookup(host, { all: true, verbatim: true });
+    return addresses.length > 0
+        && addresses.every(({ address, family }) => !privateAddresses.check(address, family === 6 ? 'ipv6' : 'ipv4'));
+}
+
+/** Fetches `url`, following redirects only to other public hosts. */
+async function fetchPublic(url: string): Promise<Response> {
+    let current = new URL(url);
+    for (let redirects = 0; ; redirects++) {
+        if (!/^https?:$/.test(current.protocol) || !(await isPublicHost(current.hostname))) {
+            throw new Error(`${current.host} is not a public host`);
+        }
+        const response = await fetch(current, { redirect: 'manual' });
+        const location = response.headers.get('location');
+        if (response.status < 300 || response.status >= 400 || !location) return response;
+        if (redirects === MAX_REDIRECTS) throw new Error(`more than ${MAX_REDIRECTS} redirects`);
+        current = new URL(location, current);
+    }
+}
+
+/** The body, or null once it passes `limit` bytes, without reading any further. */
+async function readBody(response: Response, limit: number): Promise<Buffer | null> {
+    if (!response.body) return Buffer.alloc(0);
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) return Buffer.concat(chunks);
+        size += value.byteLength;
+        if (size > limit) {
+            await reader.cancel();
+            return null;
+        }
+        chunks.push(value);
+    }
+}
+
+// Why a download failed stays in the logs; the user only learns that it did.
+const DOWNLOAD_FAILED = "Couldn't download that image. Check the link and try again.";
+const TOO_LARGE = 'That image is too large. The limit is 10 MB.';
+
+async function downloadImage(url: string): Promise<{ buffer: Buffer; width: number; height: number }> {
+    let response: Response;
+    try {
+        response = await fetchPublic(url);
+    } catch (error) {
+        console.error(`Failed to download override image ${url}:`, error);
+        throw new CoverOverrideError(DOWNLOAD_FAILED);
+    }
+
+    if (!response.ok) {
+        console.error(`Override image ${url} returned HTTP ${response.status}`);
+        throw new CoverOverrideError(DOWNLOAD_FAILED);
+    }
+    if (Number(response.headers.get('content-length') || 0) > MAX_DOWNLOAD_BYTES) {
+        throw new CoverOverrideError(TOO_LARGE);
+    }
+
+    let input: Buffer | null;
+    try {
+        input = await readBody(response, MAX_DOWNLOAD_BYTES);
+    } catch (error) {
+        console.error(`Failed to read override image ${url}:`, error);
+        throw new CoverOverrideError(DOWNLOAD_FAILED);
+    }
+    if (!input) {
+        throw new CoverOverrideError(TOO_LARGE);
+    }
+
+    try {
+        const { data, info } = await sharp(input)
+            .rotate() // respect EXIF orientation from phone photos
+            .resize(MAX_IMAGE_SIZE, MAX_IMAGE_SIZE, { fit: 'inside', withoutEnlargement: true })
+            .jpeg({ quality: 90 })
+            .toBuffer({ resolveWithObject: true });
+        return { buffer: data, width: info.width, height: info.height };
+    } catch (error) {
+        console.error(`Override image ${url} could not be decoded:`, error);
+        throw new CoverOverrideError("That file doesn't look like an image.");
+    }
+}
+
+// The index's members come back JSON-parsed by the KV client, so an ID like
+// `01234567` or `1e234567` would turn into a number. Starting with a letter keeps
+// every ID a string.
+function newOverrideId(): string {
+    let id: string;
+    do {
+        id = crypto.randomUUID().slice(0, 8);
+    } while (!/^[a-f]/.test(id));
+    return id;
+}
+
+// --- Queries ---
+
+export async function getOverride(id: string): Promise<CoverOverride | null> {
+    return kv.get<CoverOverride>(keys.override(id));
+}
+
+export async function getOverrideImage(id: string): Promise<Buffer | null> {
+    const encoded = await kv.get<string>(keys.overrideImage(id));
+    return encoded ? Buffer.from(encoded, 'base64') : null;
+}
+
+/**
+ * The most recently submitted overrides with the given status.
+ */
+export async function listOverrides(status: CoverOverrideStatus, limit = 10): Promise<CoverOverride[]> {
+    // Overrides submitted before `newOverrideId` may have all-digit IDs, which the
+    // KV client hands back as numbers.
+    const ids = (await kv.zrange<(string | number)[]>(keys.overrideIndex(status), 0, limit - 1, { rev: true })).map(String);
+    if (ids.length === 0) return [];
+
+    const overrides = await kv.mget<(CoverOverride | null)[]>(...ids.map(keys.override));
+    // Pending overrides expire, leaving their IDs behind in the index.
+    const expired = ids.filter((_, i) => overrides[i] === null);
+    if (expired.length > 0) await kv.zrem(keys.overrideIndex(status), ...expired);
+
+    return overrides.filter((override): override is CoverOverride => override !== null);
+}
+
+/**
+ * The approved cover for an album, in the same shape the resolver returns.
+ * Never throws, since it sits in front of every cover lookup.
+ */
+export async function getApprovedOverride(artist: string, album: string): Promise<ResolvedCoverArt | null> {
+    if (!artist || !album) return null;
+
+    try {
+        const active = await kv.get<ActiveOverride>(activeOverrideKey(artist, album));
+        if (!active) return null;
+        return { url: getOverrideImageUrl(active.id), source: 'override', width: active.width, height: active.height };
+    } catch (error) {
+        console.error("Cover override lookup failed:", error);
+        return null;
+    }
+}
+
+// --- Mutations ---
+
+/**
+ * How many of the user's submissions are still waiting for review.
+ */
+async function countPending(userId: string): Promise<number> {
+    const ids = (await kv.zrange<(string | number)[]>(keys.userPendingOverrides(userId), 0, -1)).map(String);
+    if (ids.length === 0) return 0;
+
+    const overrides = await kv.mget<(CoverOverride | null)[]>(...ids.map(keys.override));
+    const expired = ids.filter((_, i) => overrides[i] === null);
+    if (expired.length > 0) await kv.zrem(keys.userPendingOverrides(userId), ...expired);
+    return ids.length - expired.length;
+}
+
+async function activate(override: CoverOverride) {
+    const active: ActiveOverride = { id: override.id, width: override.width, height: override.height };
+    await kv.set(activeOverrideKey(override.artist, override.album), active);
+    // Drop whatever the resolver cached so nobody keeps seeing the old cover.
+    await clearCachedCoverArt(override.artist, override.album);
+}
+
+/**
+ * Stores a new override. Submissions from moderators skip the review queue.
+ */
+export async function submitOverride(submission: {
+    artist: string;
+    album: string;
+    imageUrl: string;
+    submittedBy: string;
+    approve: boolean;
+}): Promise<CoverOverride> {
+    const { artist, album, imageUrl, submittedBy, approve } = submission;
+    if (!approve && await countPending(submittedBy) >= MAX_PENDING_PER_USER) {
+        throw new CoverOverrideError(`You already have ${MAX_PENDING_PER_USER} covers waiting for review. Try again once a moderator has looked at them.`);
+    }
+    const { buffer, width, height } = await downloadImage(imageUrl);
+
+    const now = Date.now();
+    const override: CoverOverride = {
+        id: newOverrideId(),
+        artist,
+        album,
+        status: 'pending',
+        width,
+        height,
+        sourceUrl: imageUrl,
+        submittedBy,
+        submittedAt: now,
+    };
+
+    await kv.set(keys.overrideImage(override.id), buffer.toString('base64'), { ex: PENDING_TTL });
+    await kv.set(keys.override(override.id), override, { ex: PENDING_TTL });
+    await kv.zadd(keys.overrideIndex('pending'), { score: now, member: override.id });
+    await kv.zadd(keys.userPendingOverrides(submittedBy), { score: now, member: override.id });
+
+    return approve ? approveOverride(override.id, submittedBy) : override;
+}
+
+async function requireOverride(id: string): Promise<CoverOverride> {
+    const override = await getOverride(id);
+    if (!override) {
+        throw new CoverOverrideError(`There is no cover override with ID \`${id}\`.`);
+    }
+    return override;
+}
+
+async function review(override: CoverOverride, status: CoverOverrideStatus, reviewer: string): Promise<CoverOverride> {
+    const updated: CoverOverride = { ...override, status, reviewedBy: reviewer, reviewedAt: Date.now() };
+    // Set without a TTL, so a reviewed override no longer expires like a pending one.
+    await kv.set(keys.override(override.id), updated);
+    // Moved to the index of its new status, keeping its place in submission order.
+    await kv.zrem(keys.overrideIndex(override.status), override.id);
+    await kv.zadd(keys.overrideIndex(status), { score: override.submittedAt, member: override.id });
+    await kv.zrem(keys.userPendingOverrides(override.submittedBy), override.id);
+    return updated;
+}
+
+export async function approveOverride(id: string, reviewer: string): Promise<CoverOverride> {
+    const override = await requireOverride(id);
+    if (override.status !== 'pending') {
+        throw new CoverOverrideError(`Override \`${id}\` is ${override.status}, only pending overrides can be approved.`);
+    }
+
+    // Stored again without the TTL it was submitted with.
+    const image = await kv.get<string>(keys.overrideImage(id));
+    if (!image) {
+        throw new CoverOverrideError(`The image for override \`${id}\` has expired.`);
+    }
+    await kv.set(keys.overrideImage(id), image);
+
+    // Only one override can be active per album; an older one is retired.
+    const previous = await kv.get<ActiveOverride>(activeOverrideKey(override.artist, override.album));
+    if (previous && previous.id !== id) {
+        const previousOverride = await getOverride(previous.id);
+        if (previousOverride) {
+            await review(previousOverride, 'revoked', reviewer);
+            await kv.del(keys.overrideImage(previous.id));
+        }
+    }
+
+    const approved = await review(override, 'approved', reviewer);
+    await activate(approved);
+    return approved;
+}
+
+export async function rejectOverride(id: string, reviewer: string): Promise<CoverOverride> {
+    const override = await requireOverride(id);
+    if (override.status !== 'pending') {
+        throw new CoverOverrideError(`Override \`${id}\` is ${override.status}, only pending overrides can be rejected.`);
+    }
+
+    await kv.del(keys.overrideImage(id));
+    return review(override, 'rejected', reviewer);
+}
+
+export async function revokeOverride(id: string, reviewer: string): Promise<CoverOverride> {
+    const override = await requireOverride(id);
+    if (override.status !== 'approved') {
+        throw new CoverOverrideError(`Override \`${id}\` is ${override.status}, only approved overrides can be revoked.`);
+    }
+
+    const active = await kv.get<ActiveOverride>(activeOverrideKey(override.artist, override.album));
+    if (active?.id === id) {
+        await kv.del(activeOverrideKey(override.artist, override.album));
+        await clearCachedCoverArt(override.artist, override.album);
+    }
+    await kv.del(keys.overrideImage(id));
+    return review(override, 'revoked', reviewer);
+}
@@ -0,0 +1,164 @@
+// utils/cover-art/probe.ts
+import { LASTFM_PLACEHOLDER_IMAGE_ID } from '@/utils/lastfm';
+
+export type ImageDimensions = {
+    width: number;
+    height: number;
+    format: 'png' | 'jpeg' | 'gif' | 'webp' | 'unknown';
+};
+
+// Every format we care about declares its size well within the first few KB,
+// but progressive JPEGs with large EXIF blocks can push the SOF marker further out.
+const MAX_PROBE_BYTES = 256 * 1024;
+
+function readUInt16BE(buf: Uint8Array, offset: number) {
+    return (buf[offset] << 8) | buf[offset + 1];
+}
+
+function readUInt16LE(buf: Uint8Array, offset: number) {
+    return buf[offset] | (buf[offset + 1] << 8);
+}
+
+function readUInt24LE(buf: Uint8Array, offset: number) {
+    return buf[offset] | (buf[offset + 1] << 8) | (buf[offset + 2] << 16);
+}
+
+function readUInt32BE(buf: Uint8Array, offset: number) {
+    return ((buf[offset] << 24) >>> 0) + ((buf[offset + 1] << 16) | (buf[offset + 2] << 8) | buf[offset + 3]);
+}
+
+function ascii(buf: Uint8Array, offset: number, length: number) {
+    return String.fromCharCode(...buf.subarray(offset, offset + length));
+}
+
+function parseJpeg(buf: Uint8Array): ImageDimensions | null {
+    let i = 2;
+    while (i + 9 < buf.length) {
+        if (buf[i] !== 0xff) return null;
+        const marker = buf[i + 1];
+
+        // Padding bytes and markers without a length field.
+        if (marker === 0xff) { i++; continue; }
+        if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd9)) { i += 2; continue; }
+
+        // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC), carry the frame size.
+        if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+            return { height: readUInt16BE(buf, i + 5), width: readUInt16BE(buf, i + 7), format: 'jpeg' };
+        }
+        i += 2 + readUInt16BE(buf, i + 2);
+    }
+    return null;
+}
+
+function parseWebp(buf: Uint8Array): ImageDimensions | null {
+    if (buf.length < 30) return null;
+    const chunk = ascii(buf, 12, 4);
+
+    if (chunk === 'VP8 ') {
+        return { width: readUInt16LE(buf, 26) & 0x3fff, height: readUInt16LE(buf, 28) & 0x3fff, format: 'webp' };
+    }
+    if (chunk === 'VP8L') {
+        const [b0, b1, b2, b3] = [buf[21], buf[22], buf[23], buf[24]];
+        return {
+            width: 1 + (((b1 & 0x3f) << 8) | b0),
+            height: 1 + (((b3 & 0xf) << 10) | (b2 << 2) | ((b1 & 0xc0) >> 6)),
+            format: 'webp',
+        };
+    }
+    if (chunk === 'VP8X') {
+        return { width: 1 + readUInt24LE(buf, 24), height: 1 + readUInt24LE(buf, 27), format: 'webp' };
+    }
+    return null;
+}
+
+/**
+ * Reads the pixel dimensions out of the first bytes of a PNG, JPEG, GIF or WebP file.
+ * Returns null if the format isn't recognised or not enough bytes were given.
+ */
+export function parseImageDimensions(buf: Uint8Array): ImageDimensions | null {
+    if (buf.length >= 24 && buf[0] === 0x89 && ascii(buf, 1, 3) === 'PNG') {
+        return { width: readUInt32BE(buf, 16), height: readUInt32BE(buf, 20), format: 'png' };
+    }
+    if (buf.length >= 10 && ascii(buf, 0, 3) === 'GIF') {
+        return { width: readUInt16LE(buf, 6), height: readUInt16LE(buf, 8), format: 'gif' };
+    }
+    if (buf.length >= 4 && buf[0] === 0xff && buf[1] === 0xd8) {
+        return parseJpeg(buf);
+    }
+    if (buf.length >= 12 && ascii(buf, 0, 4) === 'RIFF' && ascii(buf, 8, 4) === 'WEBP') {
+        return parseWebp(buf);
+    }
+    return null;
+}
+
+export function isLastFmPlaceholder(url: string): boolean {
+    return url.includes(LASTFM_PLACEHOLDER_IMAGE_ID);
+}
+
+/**
+ * Checks that an image URL actually serves an image within the timeout, and reads
+ * its real dimensions by streaming just the header bytes.
+ * Returns null for dead links, non-images, timeouts and the Last.fm placeholder.
+ */
+export async function probeImage(url: string | null | undefined, timeout = 2500): Promise<ImageDimensions | null> {
+    if (!url) {
+        return null;
+    }
+
+    if (isLastFmPlaceholder(url)) {
+        console.log('LastFM returned a placeholder image.');
+        return null;
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+    try {
+        // Servers that honour Range only send the start of the file; the rest
+        // of them we cut off ourselves once the header has been read.
+        const response = await fetch(url, {
+            headers: { Range: `bytes=0-${MAX_PROBE_BYTES - 1}` },
+            signal: controller.signal,
+        });
+
+        if (!response.ok || !response.body) {
+            return null;
+        }
+
+        const contentType = response.headers.get('content-type');
+        if (contentType && !contentType.startsWith('image/') && !contentType.startsWith('application/octet-stream')) {
+            return null;
+        }
+
+        const reader = response.body.getReader();
+        let received = new Uint8Array(0);
+        let dimensions: ImageDimensions | null = null;
+
+        while (received.length < MAX_PROBE_BYTES) {
+            const { done, value } = await reader.read();
+            if (done || !value) break;
+
+            const merged = new Uint8Array(received.length + value.length);
+            merged.set(received);
+            merged.set(value, received.length);
+            received = merged;
+
+            dimensions = parseImageDimensions(received);
+            if (dimensions) break;
+        }
+
+        await reader.cancel().catch(() => undefined);
+
+        // A valid response we couldn't measure still counts as a usable image.
+        return dimensions ?? { width: 0, height: 0, format: 'unknown' };
+    } catch (error) {
+        if (error instanceof Error && error.name === 'AbortError') {
+            console.log(`Image URL timed out: ${url}`);
+        } else {
+            console.error(`Error probing image URL: ${url}`, error);
+        }
+        return null;
+    } finally {
+        clearTimeout(timeoutId);
+    }
+}
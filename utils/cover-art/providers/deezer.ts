@@ -0,0 +1,64 @@
+// utils/cover-art/providers/deezer.ts
+import { looselyEquals } from '@/utils/strings';
+import { CoverArtProvider } from '../types';
+
+type DeezerAlbum = {
+    id: number;
+    title: string;
+    artist: { name: string };
+    cover_big: string | null;
+    cover_xl: string | null;
+};
+
+// Deezer's cover_xl and cover_big images are always served at these sizes.
+const COVER_XL_SIZE = 1000;
+const COVER_BIG_SIZE = 500;
+
+async function searchDeezer(query: string): Promise<DeezerAlbum[]> {
+    const response = await fetch(`https://api.deezer.com/search/album?q=${encodeURIComponent(query)}&limit=10`);
+    if (!response.ok) {
+        console.error(`Deezer API returned status: ${response.status}`);
+        return [];
+    }
+
+    // Deezer reports quota and query errors with a 200 and an `error` object.
+    const data: { data?: DeezerAlbum[]; error?: { message: string } } = await response.json();
+    if (data.error) {
+        console.error(`Deezer API error: ${data.error.message}`);
+        return [];
+    }
+    return data.data ?? [];
+}
+
+export const deezerProvider: CoverArtProvider = {
+    name: 'deezer',
+
+    async find({ artist, album }) {
+        try {
+            // The advanced syntax is precise but misses on slightly different
+            // spellings, so a plain keyword search is the fallback.
+            let results = await searchDeezer(`artist:"${artist}" album:"${album}"`);
+            if (results.length === 0) {
+                results = await searchDeezer(`${artist} ${album}`);
+            }
+            if (results.length === 0) return [];
+
+            // The keyword search returns whatever is closest, so an album whose title
+            // doesn't match is a different album, not a cover worth showing.
+            const bestMatch = results.find(r => looselyEquals(r.title, album) && looselyEquals(r.artist.name, artist))
+                || results.find(r => looselyEquals(r.title, album));
+            if (!bestMatch) return [];
+
+            if (bestMatch.cover_xl) {
+                console.log(`Found potential cover on Deezer: ${bestMatch.cover_xl}`);
+                return [{ url: bestMatch.cover_xl, source: 'deezer', width: COVER_XL_SIZE, height: COVER_XL_SIZE }];
+            }
+            if (bestMatch.cover_big) {
+                return [{ url: bestMatch.cover_big, source: 'deezer', width: COVER_BIG_SIZE, height: COVER_BIG_SIZE }];
+            }
+        } catch (error) {
+            console.error("Error fetching from Deezer:", error);
+        }
+        return [];
+    },
+};
@@ -0,0 +1,93 @@
+// utils/cover-art/providers/discogs.ts
+import { looselyEquals } from '@/utils/strings';
+import { CoverArtCandidate, CoverArtProvider } from '../types';
+
+type DiscogsSearchResult = {
+    id: number;
+    type: 'release' | 'master';
+    title: string; // "Artist - Album"
+    resource_url: string;
+};
+
+type DiscogsImage = {
+    type: 'primary' | 'secondary';
+    uri: string;
+    width: number;
+    height: number;
+};
+
+// Discogs rejects requests without a User-Agent.
+const USER_AGENT = 'zorpheus/0.1 +https://github.com/yassir56069/zorpheus';
+
+/**
+ * Discogs only allows database searches for authenticated apps. Either a personal
+ * access token or a consumer key/secret pair works; without one the provider is skipped.
+ */
+function getAuthHeader(): string | null {
+    if (process.env.DISCOGS_TOKEN) {
+        return `Discogs token=${process.env.DISCOGS_TOKEN}`;
+    }
+    if (process.env.DISCOGS_CONSUMER_KEY && process.env.DISCOGS_CONSUMER_SECRET) {
+        return `Discogs key=${process.env.DISCOGS_CONSUMER_KEY}, secret=${process.env.DISCOGS_CONSUMER_SECRET}`;
+    }
+    return null;
+}
+
+async function discogsFetch<T>(url: string, auth: string): Promise<T | null> {
+    const response = await fetch(url, {
+        headers: { 'User-Agent': USER_AGENT, 'Authorization': auth },
+    });
+    if (!response.ok) {
+        console.error(`Discogs API returned status: ${response.status} for ${url}`);
+        return null;
+    }
+    return response.json();
+}
+
+export const discogsProvider: CoverArtProvider = {
+    name: 'discogs',
+
+    async find({ artist, album }) {
+        const auth = getAuthHeader();
+        if (!auth) {
+            console.log("Discogs credentials not set, skipping this fallback.");
+            return [];
+        }
+
+        try {
+            // Masters group every pressing of an album, so they're searched first.
+            const params = new URLSearchParams({ artist, release_title: album, per_page: '5' });
+            const search = await discogsFetch<{ results: DiscogsSearchResult[] }>(
+                `https://api.discogs.com/database/search?${params.toString()}&type=master`, auth,
+            );
+            let results = search?.results ?? [];
+            if (results.length === 0) {
+                const releaseSearch = await discogsFetch<{ results: DiscogsSearchResult[] }>(
+                    `https://api.discogs.com/database/search?${params.toString()}&type=release`, auth,
+                );
+                results = releaseSearch?.results ?? [];
+            }
+            if (results.length === 0) return [];
+
+            // Searches still return the artist's other albums when the one asked for is
+            // missing, so only an exact title is trusted.
+            const bestMatch = results.find(r => looselyEquals(r.title, `${artist} - ${album}`));
+            if (!bestMatch) return [];
+
+            // The search results only carry a cropped thumbnail; the release itself
+            // lists every image along with its real dimensions.
+            const details = await discogsFetch<{ images?: DiscogsImage[] }>(bestMatch.resource_url, auth);
+            const images = details?.images ?? [];
+            const primary = images.find(img => img.type === 'primary') || images[0];
+
+            if (primary?.uri) {
+                console.log(`Found potential cover on Discogs: ${primary.uri}`);
+                const candidate: CoverArtCandidate = { url: primary.uri, source: 'discogs', width: primary.width, height: primary.height };
+                return [candidate];
+            }
+        } catch (error) {
+            console.error("Error fetching from Discogs:", error);
+        }
+        return [];
+    },
+};
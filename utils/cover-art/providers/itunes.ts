@@ -0,0 +1,37 @@
+// utils/cover-art/providers/itunes.ts
+import { looselyEquals } from '@/utils/strings';
+import { CoverArtProvider } from '../types';
+
+type ItunesAlbum = {
+    collectionName: string;
+    artistName: string;
+    artworkUrl100: string;
+};
+
+export const itunesProvider: CoverArtProvider = {
+    name: 'itunes',
+
+    async find({ artist, album }) {
+        try {
+            const searchTerm = `${artist} ${album}`;
+            const itunesUrl = `https://itunes.apple.com/search?term=${encodeURIComponent(searchTerm)}&entity=album&limit=5`;
+            const response = await fetch(itunesUrl);
+            if (!response.ok) {
+                console.error(`iTunes API returned status: ${response.status}`);
+                return [];
+            }
+
+            const data: { resultCount: number; results: ItunesAlbum[] } = await response.json();
+            if (data.resultCount === 0) return [];
+
+            const bestMatch = data.results.find(r => looselyEquals(r.collectionName, album)) || data.results[0];
+            // The artwork URL embeds its size; iTunes will serve any size up to the original.
+            const highResUrl = bestMatch.artworkUrl100.replace('100x100', '1000x1000');
+            console.log(`Found potential cover on iTunes: ${highResUrl}`);
+            return [{ url: highResUrl, source: 'itunes' }];
+        } catch (error) {
+            console.error("Error fetching from iTunes:", error);
+            return [];
+        }
+    },
+};
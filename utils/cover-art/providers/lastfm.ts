@@ -0,0 +1,39 @@
+// utils/cover-art/providers/lastfm.ts
+import { getAlbumInfo, getLastFmImageUrl } from '@/utils/lastfm';
+import { CoverArtCandidate, CoverArtProvider } from '../types';
+
+/**
+ * Last.fm's CDN resizes on the fly, so the size segment of the URL can be
+ * bumped to ask for a bigger version of the same image.
+ */
+export function upgradeLastFmUrl(url: string): string {
+    return url.replace(/\/\d+x\d+\//, '/1000x1000/');
+}
+
+export const lastFmProvider: CoverArtProvider = {
+    name: 'lastfm',
+
+    async find({ artist, album, lastfmUrl }) {
+        let url = lastfmUrl;
+
+        if (!url) {
+            try {
+                const info = await getAlbumInfo(artist, album);
+                url = getLastFmImageUrl(info?.image);
+            } catch (error) {
+                console.error("Error fetching album info from Last.fm:", error);
+                return [];
+            }
+        }
+
+        if (!url) return [];
+
+        const candidates: CoverArtCandidate[] = [];
+        const upgraded = upgradeLastFmUrl(url);
+        if (upgraded !== url) {
+            candidates.push({ url: upgraded, source: 'lastfm' });
+        }
+        candidates.push({ url, source: 'lastfm' });
+        return candidates;
+    },
+};
@@ -0,0 +1,62 @@
+// utils/cover-art/providers/musicbrainz.ts
+import { CoverArtProvider } from '../types';
+
+type CoverArtArchiveImage = {
+    image: string;
+    front: boolean;
+};
+
+export const musicBrainzProvider: CoverArtProvider = {
+    name: 'musicbrainz',
+
+    async find({ artist, album }) {
+        const userAgent = process.env.MUSICBRAINZ_USER_AGENT;
+        if (!userAgent) {
+            console.log("MusicBrainz User-Agent not set, skipping this fallback.");
+            return [];
+        }
+
+        try {
+            // Step A: Search MusicBrainz for the release to get its ID (MBID)
+            const musicBrainzUrl = `https://musicbrainz.org/ws/2/release/?query=release:${encodeURIComponent(album)}%20AND%20artist:${encodeURIComponent(artist)}&fmt=json`;
+            const mbResponse = await fetch(musicBrainzUrl, {
+                headers: { 'User-Agent': userAgent }
+            });
+
+            if (!mbResponse.ok) {
+                console.error(`MusicBrainz API returned status: ${mbResponse.status}`);
+                return [];
+            }
+
+            const mbData = await mbResponse.json();
+            const releaseId = mbData.releases?.[0]?.id;
+
+            if (!releaseId) {
+                console.log(`No release ID found on MusicBrainz for ${artist} - ${album}`);
+                return [];
+            }
+
+            // Step B: Use the release ID to get the cover art from the Cover Art Archive.
+            // A 404 here just means nobody has uploaded art for this release.
+            const caResponse = await fetch(`https://coverartarchive.org/release/${releaseId}`, {
+                headers: { 'Accept': 'application/json' }
+            });
+            if (!caResponse.ok) {
+                return [];
+            }
+
+            const caData: { images?: CoverArtArchiveImage[] } = await caResponse.json();
+            const frontImage = caData.images?.find(img => img.front);
+
+            if (frontImage?.image) {
+                console.log("Found potential cover on Cover Art Archive.");
+                // This URL points directly to the highest-resolution image they have.
+                return [{ url: frontImage.image, source: 'musicbrainz' }];
+            }
+        } catch (error) {
+            console.error("Error fetching from MusicBrainz/Cover Art Archive:", error);
+        }
+
+        return [];
+    },
+};
@@ -0,0 +1,39 @@
+// utils/cover-art/types.ts
+
+export type CoverArtQuery = {
+    artist: string;
+    album: string;
+    /** The image Last.fm already handed us (from a scrobble or search), if any. */
+    lastfmUrl?: string | null;
+};
+
+/**
+ * A possible cover for an album. Providers fill in the dimensions when the
+ * service reports them; otherwise they're filled in by probing the image.
+ */
+export type CoverArtCandidate = {
+    url: string;
+    source: string;
+    width?: number;
+    height?: number;
+};
+
+export type ResolvedCoverArt = {
+    url: string;
+    source: string;
+    width: number;
+    height: number;
+};
+
+export interface CoverArtProvider {
+    /** Short identifier used in logs and stored alongside cached results. */
+    name: string;
+    /** Returns candidate covers for an album, best guess first. Should never throw. */
+    find(query: CoverArtQuery): Promise<CoverArtCandidate[]>;
+}
+
+/**
+ * `sequential` walks the providers in order and stops at the first valid image.
+ * `hq` asks every provider at once and picks the largest valid image.
+ */
+export type CoverArtStrategy = 'sequential' | 'hq';
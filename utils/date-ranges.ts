@@ -0,0 +1,137 @@
+// utils/date-ranges.ts
+
+/**
+ * A span of listening history, as Unix timestamps in seconds. `to` is exclusive.
+ * Dates are read as UTC, like Last.fm's own charts.
+ */
+export type DateRange = {
+    from: number;
+    to: number;
+    /** How the range reads in a chart title, e.g. `2025` or `March 2026`. */
+    label: string;
+};
+
+/** The date options a command was given. Any of them may be missing. */
+export type DateRangeInput = {
+    from?: string;
+    to?: string;
+    year?: number;
+    month?: string;
+};
+
+/**
+ * Thrown for dates that can't be read or don't make a sensible range.
+ * The message is shown to the user as is.
+ */
+export class DateRangeError extends Error {
+    name = 'DateRangeError';
+}
+
+// Last.fm (as Audioscrobbler) started recording scrobbles in 2002.
+const EARLIEST_YEAR = 2002;
+
+const DAY_SECONDS = 86400;
+
+const monthFormat = new Intl.DateTimeFormat('en-GB', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+const dayFormat = new Intl.DateTimeFormat('en-GB', { day: 'numeric', month: 'short', year: 'numeric', timeZone: 'UTC' });
+
+const toSeconds = (ms: number) => Math.floor(ms / 1000);
+
+function parseDay(value: string, name: string): number {
+    const match = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    const ms = match ? Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : NaN;
+    // Date.UTC rolls 2025-02-30 over into March, so check it round-trips.
+    if (!match || new Date(ms).toISOString().slice(0, 10) !== value.trim()) {
+        throw new DateRangeError(`\`${name}\` should be a date like \`2025-03-14\`, not \`${value}\`.`);
+    }
+    return toSeconds(ms);
+}
+
+function checkYear(year: number, now: Date) {
+    if (!Number.isInteger(year) || year < EARLIEST_YEAR || year > now.getUTCFullYear()) {
+        throw new DateRangeError(`Pick a year between ${EARLIEST_YEAR} and ${now.getUTCFullYear()}.`);
+    }
+}
+
+/**
+ * Works out the range a command asked for, or null if it didn't give any dates.
+ * Use one of `year`, `month` (`YYYY-MM`) or `from`/`to` (`YYYY-MM-DD`, both
+ * inclusive); `to` defaults to today. Ranges running into the future stop at `now`.
+ */
+export function parseDateRange(input: DateRangeInput, now = new Date()): DateRange | null {
+    const { from, to, year, month } = input;
+    const given = [year !== undefined, month !== undefined, from !== undefined || to !== undefined].filter(Boolean).length;
+    if (given === 0) return null;
+    if (given > 1) {
+        throw new DateRangeError('Use only one of `year`, `month` or `from`/`to`.');
+    }
+
+    let range: DateRange;
+    if (year !== undefined) {
+        checkYear(year, now);
+        range = { from: toSeconds(Date.UTC(year, 0, 1)), to: toSeconds(Date.UTC(year + 1, 0, 1)), label: String(year) };
+    } else if (month !== undefined) {
+        const match = month.trim().match(/^(\d{4})-(\d{2})$/);
+        const monthIndex = match ? Number(match[2]) - 1 : -1;
+        if (!match || monthIndex < 0 || monthIndex > 11) {
+            throw new DateRangeError(`\`month\` should look like \`2026-03\`, not \`${month}\`.`);
+        }
+        const monthYear = Number(match[1]);
+        checkYear(monthYear, now);
+        const start = Date.UTC(monthYear, monthIndex, 1);
+        range = { from: toSeconds(start), to: toSeconds(Date.UTC(monthYear, monthIndex + 1, 1)), label: monthFormat.format(start) };
+    } else {
+        if (from === undefined) {
+            throw new DateRangeError('Add a `from` date to go with `to`.');
+        }
+        const start = parseDay(from, 'from');
+        const end = to === undefined ? toSeconds(now.getTime()) : parseDay(to, 'to') + DAY_SECONDS;
+        if (end <= start) {
+            throw new DateRangeError('`from` has to be before `to`.');
+        }
+        const lastDay = new Date((end - 1) * 1000);
+        range = { from: start, to: end, label: `${dayFormat.format(start * 1000)} – ${dayFormat.format(lastDay)}` };
+    }
+
+    const nowSeconds = toSeconds(now.getTime());
+    if (range.from >= nowSeconds) {
+        throw new DateRangeError("That range hasn't started yet.");
+    }
+    return { ...range, to: Math.min(range.to, nowSeconds) };
+}
+
+/**
+ * Whether the range is over, and its scrobbles can no longer change. Scrobbles
+ * can be submitted a while after the fact, so a day of slack is allowed.
+ */
+export function isSettled(range: DateRange, now = Date.now()): boolean {
+    return range.to <= toSeconds(now) - DAY_SECONDS;
+}
+
+const toDay = (seconds: number) => new Date(seconds * 1000).toISOString().slice(0, 10);
+
+/**
+ * The range before the one `input` describes, for comparing against: the year or
+ * month before, or for `from`/`to`, the same number of days just before `from`.
+ * Null when that would start before Last.fm does.
+ */
+export function previousDateRange(input: DateRangeInput, now = new Date()): DateRange | null {
+    const { from, to, year, month } = input;
+    try {
+        if (year !== undefined) {
+            return parseDateRange({ year: year - 1 }, now);
+        }
+        if (month !== undefined) {
+            const [monthYear, monthNumber] = month.trim().split('-').map(Number);
+            const start = new Date(Date.UTC(monthYear, monthNumber - 2, 1));
+            return parseDateRange({ month: start.toISOString().slice(0, 7) }, now);
+        }
+        const range = parseDateRange({ from, to }, now);
+        if (!range) return null;
+        const days = Math.ceil((range.to - range.from) / DAY_SECONDS);
+        return parseDateRange({ from: toDay(range.from - days * DAY_SECONDS), to: toDay(range.from - DAY_SECONDS) }, now);
+    } catch (error) {
+        if (error instanceof DateRangeError) return null;
+        throw error;
+    }
+}
@@ -0,0 +1,356 @@
+// utils/discord.ts
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { after, NextResponse } from 'next/server';
+import {
+    APIInteraction,
+    InteractionResponseType,
+    MessageFlags,
+    RESTPatchAPIWebhookWithTokenMessageJSONBody,
+    RESTPostAPIWebhookWithTokenJSONBody,
+} from 'discord-api-types/v10';
+
+const API_ROOT = 'https://discord.com/api/v10';
+
+/** The parts of an interaction needed to respond to it after the initial request. */
+export type InteractionRef = Pick<APIInteraction, 'id' | 'token' | 'application_id'>;
+
+/**
+ * The largest file a bot can upload to a server without boosts, in bytes.
+ * Anything bigger is rejected with a 413.
+ */
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+/** A file to upload with a message, e.g. a rendered chart. */
+export type DiscordFile = {
+    name: string;
+    data: Buffer | Blob;
+};
+
+export type MessageEdit = RESTPatchAPIWebhookWithTokenMessageJSONBody & {
+    files?: DiscordFile[];
+};
+
+export type FollowUpMessage = RESTPostAPIWebhookWithTokenJSONBody & {
+    files?: DiscordFile[];
+    ephemeral?: boolean;
+};
+
+// --- Errors ---
+
+/**
+ * Thrown when Discord rejects a request, after rate limits and server errors have
+ * been retried. `code` is Discord's JSON error code when the body had one.
+ */
+export class DiscordApiError extends Error {
+    name = 'DiscordApiError';
+
+    constructor(
+        readonly status: number,
+        readonly route: string,
+        message: string,
+        readonly code?: number,
+    ) {
+        super(`Discord ${route} failed with HTTP ${status}: ${message}`);
+    }
+}
+
+// --- Rate limits ---
+// Discord groups routes into buckets and tells us which bucket a route is in, how
+// many requests are left in it and when it resets. We remember that per route so
+// a burst of edits (e.g. a countdown) waits instead of hitting a 429.
+
+type Bucket = { remaining: number; resetAt: number };
+
+const bucketsByRoute = new Map<string, string>();
+const buckets = new Map<string, Bucket>();
+
+const MAX_ATTEMPTS = 3;
+const BASE_BACKOFF_MS = 500;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function redactToken(path: string): string {
+    return path.replace(/\/(interactions|webhooks)\/(\d+)\/[^/]+/, '/$1/$2/:token');
+}
+
+// Interaction tokens are part of the path but share a bucket, so they're collapsed.
+function routeKey(method: string, path: string): string {
+    return `${method} ${redactToken(path)}`;
+}
+
+async function waitForBucket(route: string) {
+    const bucketId = bucketsByRoute.get(route);
+    const bucket = bucketId ? buckets.get(bucketId) : undefined;
+    if (bucket && bucket.remaining <= 0) {
+        const delay = bucket.resetAt - Date.now();
+        if (delay > 0) {
+            console.log(`Waiting ${delay}ms for Discord rate limit bucket on ${route}`);
+            await wait(delay);
+        }
+    }
+}
+
+function updateBucket(route: string, headers: Headers) {
+    const bucketId = headers.get('x-ratelimit-bucket');
+    const remaining = headers.get('x-ratelimit-remaining');
+    const resetAfter = headers.get('x-ratelimit-reset-after');
+    if (!bucketId || remaining === null || resetAfter === null) return;
+
+    bucketsByRoute.set(route, bucketId);
+    buckets.set(bucketId, {
+        remaining: Number(remaining),
+        resetAt: Date.now() + Number(resetAfter) * 1000,
+    });
+}
+
+// --- Dry runs ---
+// `/dev` can run a command without it reaching Discord: requests are recorded instead
+// of sent, and deferred work runs straight away so it can be waited for.
+
+/** A request a command would have sent to Discord, with the token left out. */
+export type CapturedRequest = {
+    method: string;
+    path: string;
+    payload?: unknown;
+    files?: { name: string; size: number }[];
+};
+
+type Capture = { requests: CapturedRequest[]; jobs: Promise<void>[] };
+
+const captures = new AsyncLocalStorage<Capture>();
+
+/**
+ * Runs `run` with every Discord request it makes (including from deferred work)
+ * recorded rather than sent, and waits for its deferred work to finish.
+ */
+export async function captureDiscordRequests<T>(run: () => Promise<T>): Promise<{ result: T; requests: CapturedRequest[] }> {
+    const capture: Capture = { requests: [], jobs: [] };
+    const result = await captures.run(capture, run);
+    // Deferred work can defer more work of its own.
+    while (capture.jobs.length > 0) {
+        await Promise.all(capture.jobs.splice(0));
+    }
+    return { result, requests: capture.requests };
+}
+
+// --- Requests ---
+
+function buildBody(payload: unknown, files: DiscordFile[] | undefined): { body: BodyInit; headers: HeadersInit } {
+    if (!files?.length) {
+        return { body: JSON.stringify(payload), headers: { 'Content-Type': 'application/json' } };
+    }
+
+    // Multipart uploads carry the JSON part as `payload_json`.
+    const formData = new FormData();
+    formData.append('payload_json', JSON.stringify(payload));
+    files.forEach((file, index) => {
+        const blob = file.data instanceof Blob ? file.data : new Blob([file.data]);
+        formData.append(`files[${index}]`, blob, file.name);
+    });
+    return { body: formData, headers: {} };
+}
+
+/**
+ * Sends a request to the Discord API, waiting out rate limits and retrying server
+ * errors. Interaction endpoints authenticate with the token in the path, so no bot
+ * token is needed here. Failures are logged and thrown as DiscordApiError.
+ */
+export async function discordRequest<T = unknown>(method: string, path: string, payload?: unknown, files?: DiscordFile[]): Promise<T | null> {
+    // Deferred work that ran out of time has already had its reply replaced with the
+    // timeout message, which anything it sends now would overwrite.
+    if (jobSignals.getStore()?.aborted) {
+        console.warn(`Dropped ${routeKey(method, path)} from deferred work that ran past its budget`);
+        return null;
+    }
+
+    const capture = captures.getStore();
+    if (capture) {
+        capture.requests.push({
+            method,
+            path: redactToken(path),
+            ...(payload === undefined ? {} : { payload }),
+            ...(files?.length ? { files: files.map(file => ({ name: file.name, size: file.data instanceof Blob ? file.data.size : file.data.length })) } : {}),
+        });
+        return null;
+    }
+
+    const route = routeKey(method, path);
+    const init = payload === undefined ? { headers: {} } : buildBody(payload, files);
+    let lastError: unknown;
+    let retryDelay = 0;
+
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+        if (retryDelay > 0) {
+            await wait(retryDelay);
+        }
+        await waitForBucket(route);
+
+        let response: Response;
+        try {
+            response = await fetch(`${API_ROOT}${path}`, { method, ...init });
+        } catch (error) {
+            // Network level failures (DNS, reset connections) are worth another try.
+            lastError = error;
+            retryDelay = BASE_BACKOFF_MS * 2 ** attempt;
+            continue;
+        }
+
+        updateBucket(route, response.headers);
+
+        if (response.status === 429) {
+            const data = await response.json().catch(() => null);
+            const retryAfter = Number(data?.retry_after ?? response.headers.get('retry-after') ?? 1);
+            console.warn(`Discord rate limited ${route}${data?.global ? ' (global)' : ''}, retrying in ${retryAfter}s`);
+            lastError = new DiscordApiError(429, route, data?.message ?? 'Rate limited');
+            retryDelay = retryAfter * 1000;
+            continue;
+        }
+
+        if (response.status >= 500) {
+            lastError = new DiscordApiError(response.status, route, response.statusText);
+            retryDelay = BASE_BACKOFF_MS * 2 ** attempt;
+            continue;
+        }
+
+        if (!response.ok) {
+            const data = await response.json().catch(() => null);
+            const error = new DiscordApiError(response.status, route, data?.message ?? response.statusText, data?.code);
+            console.error(error.message, data?.errors ? JSON.stringify(data.errors) : '');
+            throw error;
+        }
+
+        if (response.status === 204) return null;
+        return await response.json().catch(() => null) as T | null;
+    }
+
+    console.error(`Discord ${route} failed after ${MAX_ATTEMPTS} attempts:`, lastError);
+    throw lastError;
+}
+
+// --- Interaction responses ---
+
+function withFlags<T extends { flags?: number }>(message: T, ephemeral?: boolean): T {
+    return ephemeral ? { ...message, flags: (message.flags ?? 0) | MessageFlags.Ephemeral } : message;
+}
+
+/**
+ * Acknowledges a command with "Bot is thinking...", buying 15 minutes to edit in the reply.
+ */
+export async function deferReply(interaction: InteractionRef, options: { ephemeral?: boolean } = {}) {
+    await discordRequest('POST', `/interactions/${interaction.id}/${interaction.token}/callback`, {
+        type: InteractionResponseType.DeferredChannelMessageWithSource,
+        ...(options.ephemeral ? { data: { flags: MessageFlags.Ephemeral } } : {}),
+    });
+}
+
+/**
+ * Acknowledges a component interaction without changing its message yet.
+ */
+export async function deferUpdate(interaction: InteractionRef) {
+    await discordRequest('POST', `/interactions/${interaction.id}/${interaction.token}/callback`, {
+        type: InteractionResponseType.DeferredMessageUpdate,
+    });
+}
+
+/**
+ * Edits the original response, which is the deferred reply or the message a component
+ * is on. New files replace the message's existing ones, unless `attachments` says
+ * which to keep.
+ */
+export async function editReply(interaction: InteractionRef, message: MessageEdit) {
+    const { files, ...payload } = message;
+    if (files?.length && !payload.attachments) {
+        payload.attachments = files.map((file, index) => ({ id: index, filename: file.name }));
+    }
+    await discordRequest('PATCH', `/webhooks/${interaction.application_id}/${interaction.token}/messages/@original`, payload, files);
+}
+
+export async function deleteReply(interaction: InteractionRef) {
+    await discordRequest('DELETE', `/webhooks/${interaction.application_id}/${interaction.token}/messages/@original`);
+}
+
+/**
+ * Sends an extra message after the original response.
+ */
+export async function followUp(interaction: InteractionRef, message: FollowUpMessage) {
+    const { files, ephemeral, ...payload } = message;
+    await discordRequest('POST', `/webhooks/${interaction.application_id}/${interaction.token}`, withFlags(payload, ephemeral), files);
+}
+
+// --- Background work ---
+
+// Vercel stops the function at the route's maxDuration (60s), so jobs get a little
+// less than that to leave time for reporting the failure.
+const DEFAULT_JOB_BUDGET_MS = 50_000;
+
+class JobTimeoutError extends Error {
+    name = 'JobTimeoutError';
+}
+
+// The signal of the deferred job a request is made from, if any.
+const jobSignals = new AsyncLocalStorage<AbortSignal>();
+
+/**
+ * Answers the interaction with a deferred response right away and runs `work` after
+ * the response has been sent, using Next's `after()`. If the work throws or takes
+ * longer than `budgetMs`, the original message is edited to say so, so the user is
+ * never left looking at "Bot is thinking..." forever.
+ *
+ * Once the budget runs out, `work` is sent an abort through its signal, and any
+ * Discord requests it still makes are dropped.
+ *
+ * Use `update` for component interactions, where the message the component is on
+ * gets edited instead of a new reply being posted.
+ *
+ * During a dry run (see captureDiscordRequests) the work starts immediately instead.
+ */
+export function deferWork(
+    interaction: InteractionRef,
+    work: (signal: AbortSignal) => Promise<unknown>,
+    options: { ephemeral?: boolean; update?: boolean; budgetMs?: number; errorMessage?: string } = {},
+): NextResponse {
+    const { ephemeral, update, budgetMs = DEFAULT_JOB_BUDGET_MS, errorMessage = 'Something went wrong while handling this command.' } = options;
+
+    const job = async () => {
+        const controller = new AbortController();
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const deadline = new Promise<never>((_, reject) => {
+            timer = setTimeout(() => {
+                const error = new JobTimeoutError(`Job exceeded its ${budgetMs}ms budget`);
+                controller.abort(error);
+                reject(error);
+            }, budgetMs);
+        });
+
+        try {
+            await Promise.race([jobSignals.run(controller.signal, () => work(controller.signal)), deadline]);
+        } catch (error) {
+            console.error('Deferred interaction work failed:', error);
+            const content = error instanceof JobTimeoutError
+                ? 'This is taking longer than expected, so it was stopped. Please try again in a bit.'
+                : errorMessage;
+            try {
+                await editReply(interaction, { content, embeds: [], components: [] });
+            } catch {
+                // Already logged by discordRequest; there's nothing left to tell the user with.
+            }
+        } finally {
+            clearTimeout(timer);
+        }
+    };
+
+    const capture = captures.getStore();
+    if (capture) {
+        capture.jobs.push(job());
+    } else {
+        after(job);
+    }
+
+    if (update) {
+        return NextResponse.json({ type: InteractionResponseType.DeferredMessageUpdate });
+    }
+    return NextResponse.json({
+        type: InteractionResponseType.DeferredChannelMessageWithSource,
+        ...(ephemeral ? { data: { flags: MessageFlags.Ephemeral } } : {}),
+    });
+}
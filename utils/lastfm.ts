@@ -0,0 +1,498 @@
+// utils/lastfm.ts
+import { readCache, writeCache } from '@/utils/storage';
+
+const API_ROOT = 'https://ws.audioscrobbler.com/2.0/';
+
+// Last.fm serves this image whenever it has no artwork for an album or track.
+export const LASTFM_PLACEHOLDER_IMAGE_ID = '2a96cbd8b46e442fc41c2b86b821562f';
+
+// --- Response types ---
+
+export type LastFmPeriod = '7day' | '1month' | '3month' | '6month' | '12month' | 'overall';
+
+export type LastFmImage = {
+    '#text': string;
+    size: 'small' | 'medium' | 'large' | 'extralarge' | 'mega' | '';
+};
+
+export type LastFmRecentTrack = {
+    name: string;
+    mbid: string;
+    url: string;
+    artist: { '#text': string; mbid: string };
+    album: { '#text': string; mbid: string };
+    image: LastFmImage[];
+    date?: { uts: string; '#text': string };
+    '@attr'?: { nowplaying: 'true' };
+};
+
+export type LastFmTopAlbum = {
+    name: string;
+    mbid: string;
+    url: string;
+    playcount: string;
+    artist: { name: string; mbid: string; url: string };
+    image: LastFmImage[];
+    '@attr': { rank: string };
+};
+
+export type LastFmTopArtist = {
+    name: string;
+    mbid: string;
+    url: string;
+    playcount: string;
+    image: LastFmImage[];
+    '@attr': { rank: string };
+};
+
+export type LastFmTopTrack = {
+    name: string;
+    mbid: string;
+    url: string;
+    playcount: string;
+    duration: string;
+    artist: { name: string; mbid: string; url: string };
+    image: LastFmImage[];
+    '@attr': { rank: string };
+};
+
+// The weekly charts cover any from/to range, but only carry names and play counts.
+
+export type LastFmWeeklyAlbum = {
+    name: string;
+    mbid: string;
+    url: string;
+    playcount: string;
+    artist: { '#text': string; mbid: string };
+    '@attr': { rank: string };
+};
+
+export type LastFmWeeklyArtist = {
+    name: string;
+    mbid: string;
+    url: string;
+    playcount: string;
+    '@attr': { rank: string };
+};
+
+export type LastFmWeeklyTrack = {
+    name: string;
+    mbid: string;
+    url: string;
+    playcount: string;
+    artist: { '#text': string; mbid: string };
+    '@attr': { rank: string };
+};
+
+export type LastFmTrackInfo = {
+    name: string;
+    mbid?: string;
+    url: string;
+    duration: string;
+    listeners: string;
+    playcount: string;
+    userplaycount?: string;
+    artist: { name: string; mbid?: string; url: string };
+    album?: { artist: string; title: string; mbid?: string; url: string; image: LastFmImage[] };
+};
+
+export type LastFmAlbumInfo = {
+    name: string;
+    artist: string;
+    mbid?: string;
+    url: string;
+    image: LastFmImage[];
+    listeners: string;
+    playcount: string;
+    userplaycount?: string;
+};
+
+export type LastFmArtistInfo = {
+    name: string;
+    mbid?: string;
+    url: string;
+    image: LastFmImage[];
+    stats: { listeners: string; playcount: string; userplaycount?: string };
+    bio?: { summary: string; content: string };
+};
+
+export type LastFmAlbumMatch = {
+    name: string;
+    artist: string;
+    mbid: string;
+    url: string;
+    image: LastFmImage[];
+};
+
+export type LastFmArtistMatch = {
+    name: string;
+    listeners: string;
+    mbid: string;
+    url: string;
+    image: LastFmImage[];
+};
+
+export type LastFmTrackMatch = {
+    name: string;
+    artist: string;
+    listeners: string;
+    mbid: string;
+    url: string;
+    image: LastFmImage[];
+};
+
+/**
+ * A single page of a list endpoint. Last.fm reports paging numbers as strings;
+ * they're converted here so callers don't have to.
+ */
+export type LastFmPage<T> = {
+    items: T[];
+    page: number;
+    totalPages: number;
+    total: number;
+};
+
+// --- Errors ---
+
+/**
+ * Base class for everything the Last.fm API can reject a call with.
+ * `userMessage` is safe to show in a Discord reply.
+ */
+export class LastFmError extends Error {
+    constructor(public readonly code: number, message: string, public readonly method: string) {
+        super(message);
+        this.name = 'LastFmError';
+    }
+
+    get userMessage(): string {
+        return `Last.fm returned an error: ${this.message}`;
+    }
+}
+
+/** Codes 6 and 7: the user, album, artist or track doesn't exist. */
+export class LastFmNotFoundError extends LastFmError {
+    name = 'LastFmNotFoundError';
+
+    get userMessage(): string {
+        return `Last.fm couldn't find what you asked for (${this.message}).`;
+    }
+}
+
+/** Code 29, or an HTTP 429. */
+export class LastFmRateLimitError extends LastFmError {
+    name = 'LastFmRateLimitError';
+
+    get userMessage(): string {
+        return 'Last.fm is rate limiting the bot right now. Please try again in a minute.';
+    }
+}
+
+/** Codes 8, 11 and 16, an HTTP 5xx, or a reply that isn't JSON: something is wrong on Last.fm's side. */
+export class LastFmUnavailableError extends LastFmError {
+    name = 'LastFmUnavailableError';
+
+    get userMessage(): string {
+        return 'Last.fm is having trouble right now. Please try again later.';
+    }
+}
+
+/** Codes 4, 10 and 26: our API key is missing, wrong or suspended. */
+export class LastFmAuthError extends LastFmError {
+    name = 'LastFmAuthError';
+
+    get userMessage(): string {
+        return "The bot's Last.fm API key was rejected. Please let a developer know.";
+    }
+}
+
+const RETRYABLE_CODES = new Set([8, 11, 16, 29]);
+
+function createError(code: number, message: string, method: string): LastFmError {
+    switch (code) {
+        case 6:
+        case 7:
+            return new LastFmNotFoundError(code, message, method);
+        case 29:
+            return new LastFmRateLimitError(code, message, method);
+        case 8:
+        case 11:
+        case 16:
+            return new LastFmUnavailableError(code, message, method);
+        case 4:
+        case 10:
+        case 26:
+            return new LastFmAuthError(code, message, method);
+        default:
+            return new LastFmError(code, message, method);
+    }
+}
+
+/**
+ * Turns any error thrown while talking to Last.fm into something we can show the user.
+ * Anything that isn't a LastFmError gets the fallback message.
+ */
+export function describeLastFmError(error: unknown, fallback: string): string {
+    return error instanceof LastFmError ? error.userMessage : fallback;
+}
+
+// --- Core request logic ---
+
+type Params = Record<string, string | number | undefined>;
+
+type CallOptions = {
+    /** Seconds to cache the response in KV. 0 disables caching. */
+    cacheTtl?: number;
+};
+
+// How long each method's responses are cached by default, in seconds.
+// Recent tracks are never cached since "now playing" has to be live.
+const DEFAULT_CACHE_TTL: Record<string, number> = {
+    'user.getrecenttracks': 0,
+    'user.gettopalbums': 600,
+    'user.gettopartists': 600,
+    'user.gettoptracks': 600,
+    'user.getweeklyalbumchart': 600,
+    'user.getweeklyartistchart': 600,
+    'user.getweeklytrackchart': 600,
+    'track.getInfo': 86400,
+    'album.getInfo': 86400,
+    'artist.getInfo': 86400,
+    'album.search': 3600,
+    'artist.search': 3600,
+    'track.search': 3600,
+};
+
+const MAX_ATTEMPTS = 3;
+const BASE_BACKOFF_MS = 500;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function buildQuery(method: string, params: Params): URLSearchParams {
+    const query = new URLSearchParams({ method, format: 'json' });
+    // Sorted so equivalent calls share a cache key regardless of argument order.
+    for (const key of Object.keys(params).sort()) {
+        const value = params[key];
+        if (value !== undefined && value !== '') {
+            query.set(key, String(value));
+        }
+    }
+    return query;
+}
+
+async function request<T>(method: string, query: URLSearchParams): Promise<T> {
+    const apiKey = process.env.LASTFM_API_KEY;
+    if (!apiKey) {
+        throw new LastFmAuthError(10, 'LASTFM_API_KEY is not set', method);
+    }
+
+    const url = `${API_ROOT}?${query.toString()}&api_key=${apiKey}`;
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+        if (attempt > 0) {
+            const delay = BASE_BACKOFF_MS * 2 ** (attempt - 1);
+            console.log(`Retrying Last.fm ${method} in ${delay}ms (attempt ${attempt + 1}/${MAX_ATTEMPTS})`);
+            await wait(delay);
+        }
+
+        let response: Response;
+        try {
+            response = await fetch(url);
+        } catch (error) {
+            // Network level failures (DNS, reset connections) are worth another try.
+            lastError = error;
+            continue;
+        }
+
+        if (response.status >= 500 || response.status === 429) {
+            lastError = response.status === 429
+                ? new LastFmRateLimitError(29, 'Rate limit exceeded', method)
+                : new LastFmUnavailableError(response.status, `HTTP ${response.status}`, method);
+            continue;
+        }
+
+        // Last.fm reports most errors in the body, usually alongside a 4xx status. When
+        // it's struggling, the body can be an HTML error page instead.
+        let data;
+        try {
+            data = await response.json();
+        } catch {
+            lastError = new LastFmUnavailableError(response.status, `HTTP ${response.status} with a body that isn't JSON`, method);
+            continue;
+        }
+        if (data?.error) {
+            const error = createError(Number(data.error), data.message ?? 'Unknown error', method);
+            if (RETRYABLE_CODES.has(error.code)) {
+                lastError = error;
+                continue;
+            }
+            throw error;
+        }
+
+        return data as T;
+    }
+
+    throw lastError;
+}
+
+/**
+ * Calls any Last.fm API method, going through the KV cache first.
+ * Prefer the typed wrappers below; this is exported for the odd method they don't cover.
+ */
+export async function callLastFm<T>(method: string, params: Params = {}, options: CallOptions = {}): Promise<T> {
+    const query = buildQuery(method, params);
+    const ttl = options.cacheTtl ?? DEFAULT_CACHE_TTL[method] ?? 0;
+    const cacheKey = query.toString();
+
+    if (ttl > 0) {
+        const cached = await readCache<T>('lastfm', cacheKey);
+        if (cached) {
+            return cached;
+        }
+    }
+
+    const data = await request<T>(method, query);
+
+    if (ttl > 0) {
+        await writeCache('lastfm', cacheKey, data, ttl);
+    }
+    return data;
+}
+
+// Last.fm collapses single-item lists into a bare object.
+function toArray<T>(value: T | T[] | undefined): T[] {
+    if (!value) return [];
+    return Array.isArray(value) ? value : [value];
+}
+
+type RawPageAttr = { page?: string; totalPages?: string; total?: string };
+
+function toPage<T>(items: T | T[] | undefined, attr: RawPageAttr | undefined): LastFmPage<T> {
+    return {
+        items: toArray(items),
+        page: Number(attr?.page ?? 1),
+        totalPages: Number(attr?.totalPages ?? 1),
+        total: Number(attr?.total ?? 0),
+    };
+}
+
+// --- Typed methods ---
+
+type PageOptions = { limit?: number; page?: number } & CallOptions;
+
+export async function getRecentTracks(user: string, options: PageOptions & { from?: number; to?: number } = {}): Promise<LastFmPage<LastFmRecentTrack>> {
+    const { limit, page, from, to, ...callOptions } = options;
+    const data = await callLastFm<{ recenttracks: { track: LastFmRecentTrack | LastFmRecentTrack[]; '@attr': RawPageAttr } }>(
+        'user.getrecenttracks', { user, limit, page, from, to }, callOptions,
+    );
+    return toPage(data.recenttracks?.track, data.recenttracks?.['@attr']);
+}
+
+export async function getTopAlbums(user: string, options: PageOptions & { period?: LastFmPeriod } = {}): Promise<LastFmPage<LastFmTopAlbum>> {
+    const { limit, page, period, ...callOptions } = options;
+    const data = await callLastFm<{ topalbums: { album: LastFmTopAlbum | LastFmTopAlbum[]; '@attr': RawPageAttr } }>(
+        'user.gettopalbums', { user, limit, page, period }, callOptions,
+    );
+    return toPage(data.topalbums?.album, data.topalbums?.['@attr']);
+}
+
+export async function getTopArtists(user: string, options: PageOptions & { period?: LastFmPeriod } = {}): Promise<LastFmPage<LastFmTopArtist>> {
+    const { limit, page, period, ...callOptions } = options;
+    const data = await callLastFm<{ topartists: { artist: LastFmTopArtist | LastFmTopArtist[]; '@attr': RawPageAttr } }>(
+        'user.gettopartists', { user, limit, page, period }, callOptions,
+    );
+    return toPage(data.topartists?.artist, data.topartists?.['@attr']);
+}
+
+export async function getTopTracks(user: string, options: PageOptions & { period?: LastFmPeriod } = {}): Promise<LastFmPage<LastFmTopTrack>> {
+    const { limit, page, period, ...callOptions } = options;
+    const data = await callLastFm<{ toptracks: { track: LastFmTopTrack | LastFmTopTrack[]; '@attr': RawPageAttr } }>(
+        'user.gettoptracks', { user, limit, page, period }, callOptions,
+    );
+    return toPage(data.toptracks?.track, data.toptracks?.['@attr']);
+}
+
+type RangeOptions = { from: number; to: number } & CallOptions;
+
+export async function getWeeklyAlbumChart(user: string, options: RangeOptions): Promise<LastFmWeeklyAlbum[]> {
+    const { from, to, ...callOptions } = options;
+    const data = await callLastFm<{ weeklyalbumchart: { album: LastFmWeeklyAlbum | LastFmWeeklyAlbum[] } }>(
+        'user.getweeklyalbumchart', { user, from, to }, callOptions,
+    );
+    return toArray(data.weeklyalbumchart?.album);
+}
+
+export async function getWeeklyArtistChart(user: string, options: RangeOptions): Promise<LastFmWeeklyArtist[]> {
+    const { from, to, ...callOptions } = options;
+    const data = await callLastFm<{ weeklyartistchart: { artist: LastFmWeeklyArtist | LastFmWeeklyArtist[] } }>(
+        'user.getweeklyartistchart', { user, from, to }, callOptions,
+    );
+    return toArray(data.weeklyartistchart?.artist);
+}
+
+export async function getWeeklyTrackChart(user: string, options: RangeOptions): Promise<LastFmWeeklyTrack[]> {
+    const { from, to, ...callOptions } = options;
+    const data = await callLastFm<{ weeklytrackchart: { track: LastFmWeeklyTrack | LastFmWeeklyTrack[] } }>(
+        'user.getweeklytrackchart', { user, from, to }, callOptions,
+    );
+    return toArray(data.weeklytrackchart?.track);
+}
+
+export async function getTrackInfo(artist: string, track: string, options: CallOptions & { username?: string } = {}): Promise<LastFmTrackInfo> {
+    const { username, ...callOptions } = options;
+    const data = await callLastFm<{ track: LastFmTrackInfo }>('track.getInfo', { artist, track, username }, callOptions);
+    return data.track;
+}
+
+export async function getAlbumInfo(artist: string, album: string, options: CallOptions & { username?: string } = {}): Promise<LastFmAlbumInfo> {
+    const { username, ...callOptions } = options;
+    const data = await callLastFm<{ album: LastFmAlbumInfo }>('album.getInfo', { artist, album, username }, callOptions);
+    return data.album;
+}
+
+export async function getArtistInfo(artist: string, options: CallOptions & { username?: string } = {}): Promise<LastFmArtistInfo> {
+    const { username, ...callOptions } = options;
+    const data = await callLastFm<{ artist: LastFmArtistInfo }>('artist.getInfo', { artist, username }, callOptions);
+    return data.artist;
+}
+
+export async function searchAlbums(album: string, options: PageOptions = {}): Promise<LastFmPage<LastFmAlbumMatch>> {
+    const { limit, page, ...callOptions } = options;
+    const data = await callLastFm<{ results: { albummatches: { album: LastFmAlbumMatch | LastFmAlbumMatch[] }; 'opensearch:totalResults': string } }>(
+        'album.search', { album, limit, page }, callOptions,
+    );
+    const items = toArray(data.results?.albummatches?.album);
+    return { items, page: page ?? 1, totalPages: 1, total: Number(data.results?.['opensearch:totalResults'] ?? items.length) };
+}
+
+export async function searchArtists(artist: string, options: PageOptions = {}): Promise<LastFmPage<LastFmArtistMatch>> {
+    const { limit, page, ...callOptions } = options;
+    const data = await callLastFm<{ results: { artistmatches: { artist: LastFmArtistMatch | LastFmArtistMatch[] }; 'opensearch:totalResults': string } }>(
+        'artist.search', { artist, limit, page }, callOptions,
+    );
+    const items = toArray(data.results?.artistmatches?.artist);
+    return { items, page: page ?? 1, totalPages: 1, total: Number(data.results?.['opensearch:totalResults'] ?? items.length) };
+}
+
+export async function searchTracks(track: string, options: PageOptions & { artist?: string } = {}): Promise<LastFmPage<LastFmTrackMatch>> {
+    const { limit, page, artist, ...callOptions } = options;
+    const data = await callLastFm<{ results: { trackmatches: { track: LastFmTrackMatch | LastFmTrackMatch[] }; 'opensearch:totalResults': string } }>(
+        'track.search', { track, artist, limit, page }, callOptions,
+    );
+    const items = toArray(data.results?.trackmatches?.track);
+    return { items, page: page ?? 1, totalPages: 1, total: Number(data.results?.['opensearch:totalResults'] ?? items.length) };
+}
+
+// --- Helpers ---
+
+/**
+ * Picks the largest useful image from a Last.fm image list, preferring extralarge.
+ * Note this can still be the placeholder image; see LASTFM_PLACEHOLDER_IMAGE_ID.
+ */
+export function getLastFmImageUrl(images: LastFmImage[] | undefined): string | undefined {
+    if (!images || images.length === 0) return undefined;
+    const url = images.find(img => img.size === 'extralarge')?.['#text']
+        || images.find(img => img.size === 'large')?.['#text']
+        || images[images.length - 1]?.['#text'];
+    return url || undefined;
+}
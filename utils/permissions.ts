@@ -0,0 +1,36 @@
+// utils/permissions.ts
+import { APIInteraction, PermissionFlagsBits } from 'discord-api-types/v10';
+
+/**
+ * Users listed in DEVELOPER_IDS, who can run /dev and act as moderators anywhere.
+ */
+export function isDeveloper(userId: string | undefined): boolean {
+    if (!userId) return false;
+    const developerIds = (process.env.DEVELOPER_IDS || '').split(',');
+    return developerIds.includes(userId);
+}
+
+/**
+ * Whether the member who triggered the interaction can moderate bot content in this
+ * server: anyone with Manage Messages or Manage Server, plus the developers.
+ */
+export function isModerator(interaction: APIInteraction): boolean {
+    const member = interaction.member;
+    if (isDeveloper(member?.user.id ?? interaction.user?.id)) return true;
+    if (!member?.permissions) return false;
+
+    const permissions = BigInt(member.permissions);
+    const required = PermissionFlagsBits.ManageMessages | PermissionFlagsBits.ManageGuild | PermissionFlagsBits.Administrator;
+    return (permissions & required) !== BigInt(0);
+}
+
+/**
+ * Whether the user can approve, reject and revoke cover overrides. Overrides apply
+ * in every server, so server moderators only count inside the server named by
+ * COVER_MODERATOR_GUILD_ID; elsewhere it's just the developers.
+ */
+export function isCoverReviewer(interaction: APIInteraction): boolean {
+    if (isDeveloper(interaction.member?.user.id ?? interaction.user?.id)) return true;
+    const reviewGuildId = process.env.COVER_MODERATOR_GUILD_ID;
+    return !!reviewGuildId && interaction.guild_id === reviewGuildId && isModerator(interaction);
+}
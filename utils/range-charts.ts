@@ -0,0 +1,132 @@
+// utils/range-charts.ts
+import { DateRange, isSettled } from '@/utils/date-ranges';
+import {
+    getRecentTracks,
+    getWeeklyAlbumChart,
+    getWeeklyArtistChart,
+    getWeeklyTrackChart,
+    LastFmError,
+    LastFmImage,
+    LastFmNotFoundError,
+    LastFmRecentTrack,
+} from '@/utils/lastfm';
+
+// Last.fm's top lists only know its fixed periods. For any other range a user's
+// chart comes from the weekly chart endpoints, which take arbitrary from/to
+// timestamps, or failing those, from adding up their scrobble history.
+
+export type RangeChartType = 'albums' | 'artists' | 'tracks';
+
+/** One ranked entry. For artists, `name` and `artist` are the same. */
+export type RangeChartEntry = {
+    name: string;
+    artist: string;
+    playcount: number;
+    /** Only filled in when the entry came from scrobble history. */
+    image: LastFmImage[];
+};
+
+export type RangeChart = {
+    entries: RangeChartEntry[];
+    /** True when the history was too long to read in full; only the latest part was counted. */
+    partial: boolean;
+};
+
+// A range that's over can't change any more, so its chart is kept for a week. One
+// that's still going ends now, which is rounded down to a step as long as its
+// cache lasts, so paging through a chart reuses the requests instead of re-reading
+// the history each time.
+const SETTLED_CACHE_TTL = 7 * 86400;
+const OPEN_CACHE_TTL = 600;
+
+// Scrobble history is read 200 at a time, a few pages at once. 50 pages is
+// 10,000 scrobbles, about as much as fits in a command's time budget.
+const HISTORY_PAGE_SIZE = 200;
+const MAX_HISTORY_PAGES = 50;
+const HISTORY_CONCURRENCY = 5;
+
+function rank(entries: RangeChartEntry[], limit: number): RangeChartEntry[] {
+    return [...entries].sort((a, b) => b.playcount - a.playcount).slice(0, limit);
+}
+
+async function fromWeeklyChart(user: string, type: RangeChartType, range: DateRange, cacheTtl: number): Promise<RangeChartEntry[]> {
+    const options = { from: range.from, to: range.to, cacheTtl };
+    switch (type) {
+        case 'albums':
+            return (await getWeeklyAlbumChart(user, options)).map(album => ({
+                name: album.name, artist: album.artist['#text'], playcount: Number(album.playcount), image: [],
+            }));
+        case 'artists':
+            return (await getWeeklyArtistChart(user, options)).map(artist => ({
+                name: artist.name, artist: artist.name, playcount: Number(artist.playcount), image: [],
+            }));
+        case 'tracks':
+            return (await getWeeklyTrackChart(user, options)).map(track => ({
+                name: track.name, artist: track.artist['#text'], playcount: Number(track.playcount), image: [],
+            }));
+    }
+}
+
+function entryFor(type: RangeChartType, scrobble: LastFmRecentTrack): { key: string; entry: RangeChartEntry } | null {
+    const artist = scrobble.artist['#text'];
+    const name = type === 'albums' ? scrobble.album['#text'] : type === 'artists' ? artist : scrobble.name;
+    // Singles scrobbled without an album can't go on an album chart.
+    if (!artist || !name) return null;
+    return {
+        key: `${artist.toLowerCase()} - ${name.toLowerCase()}`,
+        entry: { name, artist, playcount: 0, image: type === 'artists' ? [] : scrobble.image },
+    };
+}
+
+async function fromHistory(user: string, type: RangeChartType, range: DateRange, cacheTtl: number): Promise<RangeChart> {
+    const readPage = (page: number) => getRecentTracks(user, { from: range.from, to: range.to - 1, limit: HISTORY_PAGE_SIZE, page, cacheTtl });
+
+    const first = await readPage(1);
+    const pageCount = Math.min(first.totalPages, MAX_HISTORY_PAGES);
+    const scrobbles = [...first.items];
+
+    for (let page = 2; page <= pageCount; page += HISTORY_CONCURRENCY) {
+        const batch = Array.from({ length: Math.min(HISTORY_CONCURRENCY, pageCount - page + 1) }, (_, i) => readPage(page + i));
+        for (const result of await Promise.all(batch)) {
+            scrobbles.push(...result.items);
+        }
+    }
+
+    const counts = new Map<string, RangeChartEntry>();
+    for (const scrobble of scrobbles) {
+        // The track playing right now shows up on every page, without a date.
+        if (scrobble['@attr']?.nowplaying) continue;
+        const found = entryFor(type, scrobble);
+        if (!found) continue;
+        const entry = counts.get(found.key) ?? found.entry;
+        entry.playcount++;
+        counts.set(found.key, entry);
+    }
+
+    return { entries: [...counts.values()], partial: first.totalPages > MAX_HISTORY_PAGES };
+}
+
+/**
+ * A user's top albums, artists or tracks for a date range, most played first.
+ */
+export async function getRangeChart(user: string, type: RangeChartType, requested: DateRange, limit: number): Promise<RangeChart> {
+    const settled = isSettled(requested);
+    const cacheTtl = settled ? SETTLED_CACHE_TTL : OPEN_CACHE_TTL;
+    const range = settled
+        ? requested
+        : { ...requested, to: Math.max(requested.from, Math.floor(requested.to / OPEN_CACHE_TTL) * OPEN_CACHE_TTL) };
+
+    try {
+        const entries = await fromWeeklyChart(user, type, range, cacheTtl);
+        if (entries.length > 0) {
+            return { entries: rank(entries, limit), partial: false };
+        }
+    } catch (error) {
+        // A missing user is missing from the history too.
+        if (!(error instanceof LastFmError) || error instanceof LastFmNotFoundError) throw error;
+        console.error(`Weekly ${type} chart for ${user} failed, adding up their history instead:`, error);
+    }
+
+    const chart = await fromHistory(user, type, range, cacheTtl);
+    return { ...chart, entries: rank(chart.entries, limit) };
+}
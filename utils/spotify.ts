@@ -0,0 +1,76 @@
+// utils/spotify.ts
+
+export type SpotifyImage = {
+    url: string;
+    width: number | null;
+    height: number | null;
+};
+
+export type SpotifyArtist = {
+    id: string;
+    name: string;
+    images: SpotifyImage[];
+};
+
+// Tokens last an hour; a minute of margin keeps a request from starting with one
+// that expires before it lands.
+const TOKEN_EXPIRY_MARGIN_MS = 60_000;
+
+let cachedToken: { value: string; expiresAt: number } | null = null;
+
+/**
+ * Fetches an access token from the Spotify API using the Client Credentials Flow.
+ * Tokens are reused until shortly before they expire.
+ */
+export async function getSpotifyToken(): Promise<string> {
+    if (cachedToken && cachedToken.expiresAt > Date.now()) {
+        return cachedToken.value;
+    }
+
+    const clientId = process.env.SPOTIFY_CLIENT_ID;
+    const clientSecret = process.env.SPOTIFY_CLIENT_SECRET;
+
+    if (!clientId || !clientSecret) {
+        throw new Error('Spotify API credentials are not configured in environment variables.');
+    }
+
+    const response = await fetch('https://accounts.spotify.com/api/token', {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/x-www-form-urlencoded',
+            'Authorization': 'Basic ' + Buffer.from(clientId + ':' + clientSecret).toString('base64')
+        },
+        body: 'grant_type=client_credentials'
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+        throw new Error(`Spotify token fetch failed: ${data.error_description}`);
+    }
+
+    cachedToken = {
+        value: data.access_token,
+        expiresAt: Date.now() + Number(data.expires_in ?? 3600) * 1000 - TOKEN_EXPIRY_MARGIN_MS,
+    };
+    return cachedToken.value;
+}
+
+export function hasSpotifyCredentials(): boolean {
+    return !!process.env.SPOTIFY_CLIENT_ID && !!process.env.SPOTIFY_CLIENT_SECRET;
+}
+
+/**
+ * Searches Spotify's artists by name, best match first.
+ */
+export async function searchSpotifyArtists(artist: string, limit = 5): Promise<SpotifyArtist[]> {
+    const token = await getSpotifyToken();
+    const response = await fetch(`https://api.spotify.com/v1/search?type=artist&limit=${limit}&q=${encodeURIComponent(artist)}`, {
+        headers: { 'Authorization': `Bearer ${token}` },
+    });
+    if (!response.ok) {
+        throw new Error(`Spotify artist search failed: ${response.statusText}`);
+    }
+
+    const data: { artists?: { items: SpotifyArtist[] } } = await response.json();
+    return data.artists?.items ?? [];
+}
@@ -0,0 +1,35 @@
+// utils/storage/cache.ts
+import { kv } from './client';
+import { CacheNamespace, keys } from './keys';
+
+// A cache miss is never worth failing a command over, so errors are logged and
+// treated as a miss (or a skipped write) rather than thrown.
+
+export async function readCache<T>(namespace: CacheNamespace, key: string): Promise<T | null> {
+    try {
+        return await kv.get<T>(keys.cache(namespace, key));
+    } catch (error) {
+        console.error(`Cache read failed for ${namespace}:${key}:`, error);
+        return null;
+    }
+}
+
+/**
+ * Stores a value for `ttl` seconds. Cached values always expire, which is what
+ * makes everything under `cache:` safe to delete at any time.
+ */
+export async function writeCache(namespace: CacheNamespace, key: string, value: unknown, ttl: number) {
+    try {
+        await kv.set(keys.cache(namespace, key), value, { ex: ttl });
+    } catch (error) {
+        console.error(`Cache write failed for ${namespace}:${key}:`, error);
+    }
+}
+
+export async function deleteCache(namespace: CacheNamespace, key: string) {
+    try {
+        await kv.del(keys.cache(namespace, key));
+    } catch (error) {
+        console.error(`Cache delete failed for ${namespace}:${key}:`, error);
+    }
+}
@@ -0,0 +1,19 @@
+// utils/storage/chart-snapshots.ts
+import { kv } from './client';
+import { keys } from './keys';
+
+/** Chart positions by entry (see chartEntryKey in chart-movement.ts), 1 for the top. */
+export type ChartSnapshot = Record<string, number>;
+
+export async function getChartSnapshot(id: string): Promise<ChartSnapshot | null> {
+    return kv.get<ChartSnapshot>(keys.chartSnapshot(id));
+}
+
+/**
+ * Adds positions to a snapshot. Entries already in it and not in `positions`
+ * are kept, so paging through a chart fills in one snapshot.
+ */
+export async function recordChartSnapshot(id: string, positions: ChartSnapshot, ttlSeconds: number) {
+    const existing = await getChartSnapshot(id);
+    await kv.set(keys.chartSnapshot(id), { ...existing, ...positions }, { ex: ttlSeconds });
+}
@@ -0,0 +1,25 @@
+// utils/storage/chart-themes.ts
+import type { ChartTheme } from '@/utils/chart-image/types';
+import { kv } from './client';
+import { keys } from './keys';
+
+// A user's theme only holds what they changed, so it layers over their server's
+// (see GuildSettings.chartTheme) and the defaults. getChartTheme in
+// chart-image/theme.ts does the layering.
+
+export async function getUserChartTheme(discordId: string): Promise<Partial<ChartTheme> | null> {
+    return kv.get<Partial<ChartTheme>>(keys.userChartTheme(discordId));
+}
+
+/**
+ * Changes some of a user's theme settings, keeping the rest. Returns what's stored afterwards.
+ */
+export async function updateUserChartTheme(discordId: string, changes: Partial<ChartTheme>): Promise<Partial<ChartTheme>> {
+    const updated = { ...await getUserChartTheme(discordId), ...changes };
+    await kv.set(keys.userChartTheme(discordId), updated);
+    return updated;
+}
+
+export async function clearUserChartTheme(discordId: string) {
+    await kv.del(keys.userChartTheme(discordId));
+}
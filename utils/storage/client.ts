@@ -0,0 +1,107 @@
+// utils/storage/client.ts
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { kv as vercelKv } from '@vercel/kv';
+import { createLocalStore } from './local';
+
+/** `ex` is a TTL in seconds. With `nx` the key is only set if it doesn't exist yet, and `set` resolves to null if it did. */
+export type SetOptions = { ex?: number; nx?: boolean };
+export type SortedSetMember = { score: number; member: string };
+export type ZRangeOptions = { rev?: boolean };
+export type ScanOptions = { match?: string; count?: number };
+
+/**
+ * The part of the Vercel KV client the bot relies on. Anything that talks to
+ * storage goes through this, so it can be swapped for the local store.
+ */
+export interface KvStore {
+    get<T>(key: string): Promise<T | null>;
+    set(key: string, value: unknown, options?: SetOptions): Promise<unknown>;
+    del(...keys: string[]): Promise<number>;
+    mget<T extends unknown[]>(...keys: string[]): Promise<T>;
+
+    hset(key: string, fields: Record<string, unknown>): Promise<number>;
+    hdel(key: string, ...fields: string[]): Promise<number>;
+    hgetall<T extends Record<string, unknown>>(key: string): Promise<T | null>;
+
+    zadd(key: string, member: SortedSetMember, ...members: SortedSetMember[]): Promise<number | null>;
+    zrange<T extends unknown[]>(key: string, start: number, stop: number, options?: ZRangeOptions): Promise<T>;
+    zrem(key: string, ...members: string[]): Promise<number>;
+
+    scanIterator(options?: ScanOptions): AsyncIterable<string>;
+}
+
+/**
+ * Which store to use, from `KV_DRIVER`:
+ *   vercel (default)   Vercel KV, configured by the usual KV_REST_API_* variables
+ *   memory             the local store, emptied whenever the process restarts
+ *   file               the local store, saved to KV_FILE (default `.kv-local.json`)
+ */
+export type KvDriver = 'vercel' | 'memory' | 'file';
+
+function createStore(): KvStore {
+    const driver = (process.env.KV_DRIVER || 'vercel') as KvDriver;
+    switch (driver) {
+        case 'vercel':
+            return vercelKv;
+        case 'memory':
+            return createLocalStore();
+        case 'file':
+            return createLocalStore({ file: process.env.KV_FILE || '.kv-local.json' });
+        default:
+            throw new Error(`Unknown KV_DRIVER "${driver}". Expected vercel, memory or file.`);
+    }
+}
+
+// --- Dry runs ---
+// `/dev` dry runs mustn't change anything, so while one is in progress writes are
+// recorded instead of made. Reads still see the store as it was before the run.
+
+/** A write a command would have made, e.g. `{ command: 'set', key: 'user:1' }`. */
+export type CapturedWrite = { command: string; key: string };
+
+const captures = new AsyncLocalStorage<CapturedWrite[]>();
+
+/**
+ * Runs `run` with every KV write it makes recorded rather than made.
+ */
+export async function captureKvWrites<T>(run: () => Promise<T>): Promise<{ result: T; writes: CapturedWrite[] }> {
+    const writes: CapturedWrite[] = [];
+    const result = await captures.run(writes, run);
+    return { result, writes };
+}
+
+/**
+ * Records the write when a dry run is in progress, and otherwise makes it. What a
+ * dropped write resolves to is what the store would say if it had succeeded.
+ */
+function write<T>(command: string, key: string, skipped: T, make: () => Promise<T>): Promise<T> {
+    const writes = captures.getStore();
+    if (!writes) return make();
+    writes.push({ command, key });
+    return Promise.resolve(skipped);
+}
+
+function withDryRuns(store: KvStore): KvStore {
+    return {
+        get: key => store.get(key),
+        set: (key, value, options) => write('set', key, 'OK', () => store.set(key, value, options)),
+        del: (...keys) => write('del', keys.join(' '), keys.length, () => store.del(...keys)),
+        mget: (...keys) => store.mget(...keys),
+
+        hset: (key, fields) => write('hset', key, Object.keys(fields).length, () => store.hset(key, fields)),
+        hdel: (key, ...fields) => write('hdel', key, fields.length, () => store.hdel(key, ...fields)),
+        hgetall: key => store.hgetall(key),
+
+        zadd: (key, member, ...members) => write('zadd', key, members.length + 1, () => store.zadd(key, member, ...members)),
+        zrange: (key, start, stop, options) => store.zrange(key, start, stop, options),
+        zrem: (key, ...members) => write('zrem', key, members.length, () => store.zrem(key, ...members)),
+
+        scanIterator: options => store.scanIterator(options),
+    };
+}
+
+// Next.js can load this module more than once in dev (once per route bundle, and
+// again after a hot reload), which would give each copy its own memory store.
+const globalStore = globalThis as typeof globalThis & { __zorpheusKv?: KvStore };
+
+export const kv: KvStore = globalStore.__zorpheusKv ??= withDryRuns(createStore());
@@ -0,0 +1,74 @@
+// utils/storage/guilds.ts
+import { kv } from './client';
+import type { ChartTheme } from '@/utils/chart-image/types';
+import { LastFmPeriod } from '@/utils/lastfm';
+import { keys } from './keys';
+
+// The member indexes are hashes rather than sets because the KV client JSON-parses
+// set members, which turns 18-digit Discord IDs into rounded numbers. Hash field
+// names come back untouched.
+
+export type GuildMember = {
+    discordId: string;
+    lastfmUsername: string;
+};
+
+/**
+ * Per-guild preferences. Every field is optional; `getGuildSettings` fills in defaults.
+ */
+export type GuildSettings = {
+    /** The period `/serverchart` uses when none is given. */
+    serverChartPeriod: LastFmPeriod;
+    /** The theme settings a moderator changed, for server charts and members without their own. */
+    chartTheme: Partial<ChartTheme>;
+};
+
+const DEFAULT_GUILD_SETTINGS: GuildSettings = {
+    serverChartPeriod: '7day',
+    chartTheme: {},
+};
+
+// --- Members ---
+
+/**
+ * Opts a registered user into a guild's server-wide stats (`/serverchart`, `/league`).
+ */
+export async function joinGuild(discordId: string, guildId: string) {
+    const now = Date.now();
+    await kv.hset(keys.guildMembers(guildId), { [discordId]: now });
+    await kv.hset(keys.userGuilds(discordId), { [guildId]: now });
+}
+
+export async function leaveGuild(discordId: string, guildId: string) {
+    await kv.hdel(keys.guildMembers(guildId), discordId);
+    await kv.hdel(keys.userGuilds(discordId), guildId);
+}
+
+/**
+ * Everyone in a guild's member index who still has a Last.fm username registered.
+ */
+export async function getGuildMembers(guildId: string): Promise<GuildMember[]> {
+    const index = await kv.hgetall<Record<string, number>>(keys.guildMembers(guildId));
+    const discordIds = Object.keys(index ?? {});
+    if (discordIds.length === 0) return [];
+
+    const usernames = await kv.mget<(string | null)[]>(...discordIds.map(keys.user));
+    return discordIds
+        .map((discordId, i) => ({ discordId, lastfmUsername: usernames[i] }))
+        .filter((member): member is GuildMember => !!member.lastfmUsername)
+        .map(member => ({ ...member, lastfmUsername: String(member.lastfmUsername) }));
+}
+
+// --- Settings ---
+
+export async function getGuildSettings(guildId: string): Promise<GuildSettings> {
+    const stored = await kv.get<Partial<GuildSettings>>(keys.guildSettings(guildId));
+    return { ...DEFAULT_GUILD_SETTINGS, ...stored };
+}
+
+export async function updateGuildSettings(guildId: string, changes: Partial<GuildSettings>): Promise<GuildSettings> {
+    const stored = await kv.get<Partial<GuildSettings>>(keys.guildSettings(guildId));
+    const updated = { ...stored, ...changes };
+    await kv.set(keys.guildSettings(guildId), updated);
+    return { ...DEFAULT_GUILD_SETTINGS, ...updated };
+}
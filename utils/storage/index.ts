@@ -0,0 +1,17 @@
+// utils/storage/index.ts
+// Everything the bot keeps in KV goes through these modules, so the key layout
+// in `keys.ts` stays the single description of what's stored where.
+export { captureKvWrites, kv } from './client';
+export type { CapturedWrite, KvDriver, KvStore } from './client';
+export { keys, LEGACY_OVERRIDE_INDEX, LEGACY_USER_KEY, SCHEMA_VERSION } from './keys';
+export type { CacheNamespace } from './keys';
+export { getLastFmUsername, getUserGuilds, registerUser } from './users';
+export { getGuildMembers, getGuildSettings, joinGuild, leaveGuild, updateGuildSettings } from './guilds';
+export type { GuildMember, GuildSettings } from './guilds';
+export { markInteractionSeen } from './interactions';
+export { getReplay, listReplays, saveReplay } from './replays';
+export type { SavedInteraction } from './replays';
+export { getChartSnapshot, recordChartSnapshot } from './chart-snapshots';
+export type { ChartSnapshot } from './chart-snapshots';
+export { clearUserChartTheme, getUserChartTheme, updateUserChartTheme } from './chart-themes';
+export { deleteCache, readCache, writeCache } from './cache';
@@ -0,0 +1,12 @@
+// utils/storage/interactions.ts
+import { kv } from './client';
+import { keys } from './keys';
+
+/**
+ * Records that an interaction has been received. Resolves to false if it had
+ * already been seen within `ttlSeconds`, i.e. the request is a replay or a retry.
+ */
+export async function markInteractionSeen(interactionId: string, ttlSeconds: number): Promise<boolean> {
+    const result = await kv.set(keys.seenInteraction(interactionId), Date.now(), { ex: ttlSeconds, nx: true });
+    return result !== null;
+}
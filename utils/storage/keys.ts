@@ -0,0 +1,65 @@
+// utils/storage/keys.ts
+
+/**
+ * Bumped whenever the layout below changes in a way existing data has to be moved for.
+ * `migrate-kv.ts` brings a store up to this version.
+ *
+ * 1. Registrations stored as bare `{discordId} -> username` keys, caches unprefixed.
+ * 2. Every cover override in one `cover-overrides` index.
+ * 3. The layout below.
+ */
+export const SCHEMA_VERSION = 3;
+
+// --- Layout ---
+// meta:schema-version               the SCHEMA_VERSION the data was last migrated to
+//
+// user:{discordId}                  the user's Last.fm username
+// user:{discordId}:guilds           hash of guild id -> when the user joined that guild's stats
+// user:{discordId}:chart-theme      the parts of ChartTheme the user changed with /charttheme
+// user:{discordId}:pending-overrides  sorted set of the user's cover overrides awaiting review, by submission time
+// guild:{guildId}:members           hash of discord id -> when they joined, the guild's member index
+// guild:{guildId}:settings          GuildSettings
+//
+// cover-overrides:{status}          sorted set of the ids of cover overrides with that status, by submission time
+// cover-override:{id}               a CoverOverride record
+// cover-override:image:{id}         the re-hosted override image, base64 encoded JPEG
+// cover-override:album:{album}      the approved override for an album
+//
+// album-picker:{id}                 the state behind an album select menu
+// interaction:{id}:seen             set when an interaction is first received, to drop replays
+// dev:replays                       hash of name -> SavedInteraction, `/dev` invocations to replay
+// chart-snapshot:{id}               ChartSnapshot, a chart's positions during one period-long window
+// cache:{namespace}:{key}           anything that can be thrown away, always with a TTL
+
+export const keys = {
+    schemaVersion: () => 'meta:schema-version',
+
+    user: (discordId: string) => `user:${discordId}`,
+    userGuilds: (discordId: string) => `user:${discordId}:guilds`,
+    userChartTheme: (discordId: string) => `user:${discordId}:chart-theme`,
+    userPendingOverrides: (discordId: string) => `user:${discordId}:pending-overrides`,
+    guildMembers: (guildId: string) => `guild:${guildId}:members`,
+    guildSettings: (guildId: string) => `guild:${guildId}:settings`,
+
+    overrideIndex: (status: string) => `cover-overrides:${status}`,
+    override: (id: string) => `cover-override:${id}`,
+    overrideImage: (id: string) => `cover-override:image:${id}`,
+    activeOverride: (albumKey: string) => `cover-override:album:${albumKey}`,
+
+    albumPicker: (id: string) => `album-picker:${id}`,
+    seenInteraction: (id: string) => `interaction:${id}:seen`,
+    replays: () => 'dev:replays',
+    chartSnapshot: (id: string) => `chart-snapshot:${id}`,
+    cache: (namespace: CacheNamespace, key: string) => `cache:${namespace}:${key}`,
+};
+
+/** What each cache holds, so two features can't accidentally share keys. */
+export type CacheNamespace = 'lastfm' | 'cover' | 'artist-image' | 'league' | 'thumbnail';
+
+/**
+ * Discord snowflakes, which is what a registration key looked like in schema version 1.
+ */
+export const LEGACY_USER_KEY = /^\d{17,20}$/;
+
+/** The single index of every cover override in schema version 2. */
+export const LEGACY_OVERRIDE_INDEX = 'cover-overrides';
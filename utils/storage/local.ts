@@ -0,0 +1,189 @@
+// utils/storage/local.ts
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import type { KvStore, ScanOptions, SetOptions, SortedSetMember, ZRangeOptions } from './client';
+
+// A stand-in for Vercel KV that keeps everything in memory, optionally mirrored to
+// a JSON file so data survives a restart of `next dev`. It only implements the
+// commands the bot uses, and it's meant for one process: there's no locking.
+
+type Entry =
+    | { type: 'string'; value: string; expiresAt?: number }
+    | { type: 'hash'; fields: Record<string, string> }
+    | { type: 'zset'; members: Record<string, number> };
+
+// Values are stored the way the Upstash client sends them (strings as-is, anything
+// else as JSON) and parsed back the same way it does. That includes its habit of
+// turning numeric strings like Discord IDs into numbers, so code that works
+// locally also works against the real thing.
+function serialize(value: unknown): string {
+    return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function deserialize<T>(raw: string): T {
+    try {
+        return JSON.parse(raw) as T;
+    } catch {
+        return raw as T;
+    }
+}
+
+function globToRegExp(pattern: string) {
+    const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`^${escaped.replace(/\*/g, '.*').replace(/\?/g, '.')}$`);
+}
+
+/** Redis-style inclusive range, where negative indexes count from the end. */
+function sliceRange<T>(items: T[], start: number, stop: number) {
+    const from = start < 0 ? Math.max(items.length + start, 0) : start;
+    const to = stop < 0 ? items.length + stop : Math.min(stop, items.length - 1);
+    return from > to ? [] : items.slice(from, to + 1);
+}
+
+export type LocalStoreOptions = {
+    /** Persist to this JSON file. Without it, data lives only as long as the process. */
+    file?: string;
+};
+
+export function createLocalStore({ file }: LocalStoreOptions = {}): KvStore {
+    const data = new Map<string, Entry>(
+        file && existsSync(file) ? Object.entries(JSON.parse(readFileSync(file, 'utf8'))) : [],
+    );
+
+    function save() {
+        if (file) {
+            writeFileSync(file, JSON.stringify(Object.fromEntries(data), null, 2));
+        }
+    }
+
+    /** The live entry at `key`, dropping it first if it has expired. */
+    function lookup(key: string): Entry | undefined {
+        const entry = data.get(key);
+        if (entry?.type === 'string' && entry.expiresAt && entry.expiresAt <= Date.now()) {
+            data.delete(key);
+            return undefined;
+        }
+        return entry;
+    }
+
+    function lookupAs<K extends Entry['type']>(key: string, type: K): Extract<Entry, { type: K }> | undefined {
+        const entry = lookup(key);
+        if (entry && entry.type !== type) {
+            throw new Error(`WRONGTYPE Operation against a key holding the wrong kind of value: ${key}`);
+        }
+        return entry as Extract<Entry, { type: K }> | undefined;
+    }
+
+    function getValue<T>(key: string): T | null {
+        const entry = lookupAs(key, 'string');
+        return entry ? deserialize<T>(entry.value) : null;
+    }
+
+    return {
+        async get<T>(key: string) {
+            return getValue<T>(key);
+        },
+
+        async set(key: string, value: unknown, options?: SetOptions) {
+            if (options?.nx && lookup(key)) {
+                return null;
+            }
+            data.set(key, {
+                type: 'string',
+                value: serialize(value),
+                expiresAt: options?.ex ? Date.now() + options.ex * 1000 : undefined,
+            });
+            save();
+            return 'OK';
+        },
+
+        async del(...keys: string[]) {
+            const removed = keys.filter(key => lookup(key) && data.delete(key)).length;
+            save();
+            return removed;
+        },
+
+        async mget<T extends unknown[]>(...keys: string[]) {
+            return keys.map(key => getValue(key)) as T;
+        },
+
+        // --- Hashes ---
+
+        async hset(key: string, fields: Record<string, unknown>) {
+            const entry = lookupAs(key, 'hash') ?? { type: 'hash', fields: {} };
+            const added = Object.keys(fields).filter(field => !(field in entry.fields)).length;
+            for (const [field, value] of Object.entries(fields)) {
+                entry.fields[field] = serialize(value);
+            }
+            data.set(key, entry);
+            save();
+            return added;
+        },
+
+        async hdel(key: string, ...fields: string[]) {
+            const entry = lookupAs(key, 'hash');
+            if (!entry) return 0;
+
+            const removed = fields.filter(field => field in entry.fields && delete entry.fields[field]).length;
+            if (Object.keys(entry.fields).length === 0) data.delete(key);
+            save();
+            return removed;
+        },
+
+        async hgetall<T extends Record<string, unknown>>(key: string) {
+            const entry = lookupAs(key, 'hash');
+            if (!entry) return null;
+            return Object.fromEntries(
+                Object.entries(entry.fields).map(([field, value]) => [field, deserialize(value)]),
+            ) as T;
+        },
+
+        // --- Sorted sets ---
+
+        async zadd(key: string, ...members: [SortedSetMember, ...SortedSetMember[]]) {
+            const entry = lookupAs(key, 'zset') ?? { type: 'zset', members: {} };
+            let added = 0;
+            for (const { score, member } of members) {
+                const name = serialize(member);
+                if (!(name in entry.members)) added++;
+                entry.members[name] = score;
+            }
+            data.set(key, entry);
+            save();
+            return added;
+        },
+
+        async zrange<T extends unknown[]>(key: string, start: number, stop: number, options?: ZRangeOptions) {
+            const entry = lookupAs(key, 'zset');
+            if (!entry) return [] as unknown as T;
+
+            // Redis orders ties by member name.
+            const sorted = Object.entries(entry.members)
+                .sort(([a, scoreA], [b, scoreB]) => scoreA - scoreB || a.localeCompare(b))
+                .map(([member]) => member);
+            if (options?.rev) sorted.reverse();
+            return sliceRange(sorted, start, stop).map(member => deserialize(member)) as T;
+        },
+
+        async zrem(key: string, ...members: string[]) {
+            const entry = lookupAs(key, 'zset');
+            if (!entry) return 0;
+
+            const removed = members.filter(member => member in entry.members && delete entry.members[member]).length;
+            if (Object.keys(entry.members).length === 0) data.delete(key);
+            save();
+            return removed;
+        },
+
+        // --- Keys ---
+
+        async *scanIterator(options?: ScanOptions) {
+            const pattern = options?.match ? globToRegExp(options.match) : null;
+            // Copied up front so callers can delete keys while iterating, like they can with SCAN.
+            for (const key of [...data.keys()]) {
+                if (lookup(key) && (!pattern || pattern.test(key))) {
+                    yield key;
+                }
+            }
+        },
+    };
+}
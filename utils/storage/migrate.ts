@@ -0,0 +1,116 @@
+// utils/storage/migrate.ts
+import { kv } from './client';
+import { joinGuild } from './guilds';
+import { keys, LEGACY_OVERRIDE_INDEX, LEGACY_USER_KEY, SCHEMA_VERSION } from './keys';
+
+// The steps that bring a store from one SCHEMA_VERSION to the next. `migrate-kv.ts`
+// runs them from the command line; they log what they change as they go.
+
+export type MigrationOptions = {
+    /** The guild whose server stats version 1 users are opted into. */
+    guildId?: string;
+    /** Only log what would change. */
+    dryRun?: boolean;
+};
+
+/**
+ * Thrown when the migration can't run with the options given. The message says why.
+ */
+export class MigrationError extends Error {
+    name = 'MigrationError';
+}
+
+// Version 1 caches were written without a namespace. They all carry a TTL, so
+// deleting them only costs a few cache misses.
+function isLegacyCacheKey(key: string) {
+    return key.startsWith('cover:') || key.startsWith('league:') || key.includes('method=');
+}
+
+/**
+ * Brings the store up to SCHEMA_VERSION, and returns the version it started from.
+ */
+export async function migrateKv(options: MigrationOptions = {}): Promise<number> {
+    const { guildId, dryRun = false } = options;
+
+    const version = Number(await kv.get(keys.schemaVersion()) ?? 1);
+    if (version >= SCHEMA_VERSION) {
+        console.log(`KV store is already at schema version ${version}.`);
+        return version;
+    }
+
+    // Version 1 users were counted in every guild, and once moved they'd otherwise
+    // drop out of server stats until they registered again.
+    if (version < 2 && !guildId && !dryRun) {
+        throw new MigrationError('No guild given. Pass --guild=ID or set DISCORD_GUILD_ID, so migrated users keep their place in that server\'s stats.');
+    }
+
+    const prefix = dryRun ? '[dry run] ' : '';
+    console.log(`${prefix}Migrating KV store from schema version ${version} to ${SCHEMA_VERSION}.`);
+
+    if (version < 2) await migrateUsers(guildId, dryRun);
+    if (version < 3) await migrateOverrideIndex(dryRun);
+
+    if (!dryRun) {
+        await kv.set(keys.schemaVersion(), SCHEMA_VERSION);
+    }
+    return version;
+}
+
+// --- Version 1 -> 2 ---
+
+async function migrateUsers(guildId: string | undefined, dryRun: boolean) {
+    const prefix = dryRun ? '[dry run] ' : '';
+    if (!guildId) {
+        console.warn(`${prefix}No guild given: the real run needs --guild=ID or DISCORD_GUILD_ID.`);
+    }
+
+    let users = 0;
+    let skipped = 0;
+    let caches = 0;
+
+    for await (const key of kv.scanIterator()) {
+        if (LEGACY_USER_KEY.test(key)) {
+            const username = await kv.get(key);
+            const existing = await kv.get(keys.user(key));
+
+            if (existing) {
+                // Registered again since the rename, so the new key wins.
+                skipped++;
+            } else if (username) {
+                console.log(`${prefix}  user ${key} -> ${keys.user(key)} (${username})`);
+                users++;
+            }
+            if (dryRun) continue;
+
+            if (!existing && username) {
+                await kv.set(keys.user(key), String(username));
+                await joinGuild(key, guildId!);
+            }
+            await kv.del(key);
+        } else if (isLegacyCacheKey(key)) {
+            caches++;
+            if (!dryRun) await kv.del(key);
+        }
+    }
+
+    console.log(`${prefix}Moved ${users} user(s), skipped ${skipped} already migrated, dropped ${caches} legacy cache key(s).`);
+}
+
+// --- Version 2 -> 3 ---
+
+async function migrateOverrideIndex(dryRun: boolean) {
+    const prefix = dryRun ? '[dry run] ' : '';
+    const ids = (await kv.zrange<(string | number)[]>(LEGACY_OVERRIDE_INDEX, 0, -1)).map(String);
+    let moved = 0;
+
+    for (const id of ids) {
+        const override = await kv.get<{ status: string; submittedAt: number }>(keys.override(id));
+        if (override) {
+            moved++;
+            if (!dryRun) await kv.zadd(keys.overrideIndex(override.status), { score: override.submittedAt, member: id });
+        }
+    }
+    if (!dryRun) await kv.del(LEGACY_OVERRIDE_INDEX);
+
+    console.log(`${prefix}Indexed ${moved} cover override(s) by status, dropped ${ids.length - moved} missing.`);
+}
@@ -0,0 +1,33 @@
+// utils/storage/replays.ts
+import { APIChatInputApplicationCommandInteractionData } from 'discord-api-types/v10';
+import { kv } from './client';
+import { keys } from './keys';
+
+/**
+ * A `/dev` invocation saved for replaying. Only the command data is kept; the
+ * replay borrows the id, token and invoker of the `/dev` interaction running it.
+ */
+export type SavedInteraction = {
+    data: Pick<APIChatInputApplicationCommandInteractionData, 'name' | 'options' | 'resolved'>;
+    savedBy: string;
+    savedAt: number;
+};
+
+export async function saveReplay(name: string, interaction: SavedInteraction) {
+    await kv.hset(keys.replays(), { [name]: interaction });
+}
+
+export async function getReplay(name: string): Promise<SavedInteraction | null> {
+    const replays = await kv.hgetall<Record<string, SavedInteraction>>(keys.replays());
+    return replays?.[name] ?? null;
+}
+
+/**
+ * Every saved replay, newest first.
+ */
+export async function listReplays(): Promise<(SavedInteraction & { name: string })[]> {
+    const replays = await kv.hgetall<Record<string, SavedInteraction>>(keys.replays());
+    return Object.entries(replays ?? {})
+        .map(([name, replay]) => ({ ...replay, name }))
+        .sort((a, b) => b.savedAt - a.savedAt);
+}
@@ -0,0 +1,42 @@
+// utils/storage/users.ts
+import { kv } from './client';
+import { joinGuild } from './guilds';
+import { keys } from './keys';
+
+/**
+ * The guilds whose server stats include this user.
+ */
+export async function getUserGuilds(discordId: string): Promise<string[]> {
+    const guilds = await kv.hgetall<Record<string, number>>(keys.userGuilds(discordId));
+    return Object.keys(guilds ?? {});
+}
+
+/**
+ * Saves a user's Last.fm username. Registering from inside a guild also opts the
+ * user into that guild's server stats.
+ */
+export async function registerUser(discordId: string, lastfmUsername: string, guildId?: string) {
+    await kv.set(keys.user(discordId), lastfmUsername);
+    if (guildId) {
+        await joinGuild(discordId, guildId);
+    }
+}
+
+/**
+ * The Last.fm username a Discord user registered, or null.
+ *
+ * Users still stored under schema version 1 (see `migrate-kv.ts`) are moved over the
+ * first time they're looked up. They used to be counted in every guild, so they're
+ * opted into the guild they were seen in rather than dropped from its stats.
+ */
+export async function getLastFmUsername(discordId: string, guildId?: string): Promise<string | null> {
+    const username = await kv.get<string>(keys.user(discordId));
+    if (username) return String(username);
+
+    const legacy = await kv.get<string>(discordId);
+    if (!legacy) return null;
+
+    await registerUser(discordId, String(legacy), guildId);
+    await kv.del(discordId);
+    return String(legacy);
+}
@@ -0,0 +1,18 @@
+// utils/strings.ts
+
+/**
+ * Converts a string to its base ASCII equivalent.
+ * e.g., "Déjà Vu" -> "Deja Vu"
+ * @param str The string to normalize.
+ * @returns The normalized string.
+ */
+export function normalizeString(str: string): string {
+    return str.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
+
+/**
+ * Case and accent insensitive comparison, used to match album titles across services.
+ */
+export function looselyEquals(a: string, b: string): boolean {
+    return normalizeString(a).toLowerCase().trim() === normalizeString(b).toLowerCase().trim();
+}
@@ -1,19 +1,109 @@
 // utils/verify-discord-request.ts
 import { verifyKey } from 'discord-interactions';
+import { APIInteraction } from 'discord-api-types/v10';
+import { markInteractionSeen } from '@/utils/storage';
+
+// How far `x-signature-timestamp` may be from our clock, in either direction, unless
+// DISCORD_MAX_TIMESTAMP_SKEW says otherwise. The signature covers the timestamp, so
+// a captured request can't be made to look fresh again.
+const DEFAULT_MAX_SKEW_SECONDS = 300;
+
+export type RejectionReason =
+  | 'missing-headers'
+  | 'invalid-signature'
+  | 'stale-timestamp'
+  | 'malformed-body'
+  | 'duplicate';
+
+export type VerificationResult =
+  | { isValid: true; interaction: APIInteraction }
+  | {
+    isValid: false;
+    interaction: null;
+    reason: RejectionReason;
+    /** What exactly was wrong, for the logs. Never shown to the caller. */
+    detail: string;
+    /** Only known once the signature checked out. */
+    interactionId?: string;
+  };
+
+export type VerifyOptions = {
+  maxSkewSeconds?: number;
+  /** Unix time in milliseconds to check the timestamp against. */
+  now?: number;
+};
+
+function maxSkewFromEnv(): number {
+  const configured = Number(process.env.DISCORD_MAX_TIMESTAMP_SKEW);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_MAX_SKEW_SECONDS;
+}
+
+function reject(reason: RejectionReason, detail: string, interactionId?: string): VerificationResult {
+  return { isValid: false, interaction: null, reason, detail, ...(interactionId ? { interactionId } : {}) };
+}
+
+/**
+ * Checks that a request really comes from Discord and hasn't been seen before:
+ * the Ed25519 signature, the age of the signed timestamp, and the interaction ID
+ * against the ones received recently (Discord's own retries included).
+ */
+export async function verifyDiscordRequest(req: Request, publicKey: string, options: VerifyOptions = {}): Promise<VerificationResult> {
+  const { maxSkewSeconds = maxSkewFromEnv(), now = Date.now() } = options;
 
-export async function verifyDiscordRequest(req: Request, publicKey: string) {
   const signature = req.headers.get('x-signature-ed25519');
   const timestamp = req.headers.get('x-signature-timestamp');
   const body = await req.text(); // Read body as text
 
   if (!signature || !timestamp || !body) {
-    return { isValid: false, interaction: null };
+    return reject('missing-headers', `Missing ${!signature ? 'signature' : !timestamp ? 'timestamp' : 'body'}`);
+  }
+
+  if (!await verifyKey(body, signature, timestamp, publicKey)) {
+    return reject('invalid-signature', 'Signature does not match the body and timestamp');
   }
 
-  const isValid = verifyKey(body, signature, timestamp, publicKey);
+  const skewSeconds = Math.round(now / 1000 - Number(timestamp));
+  if (!Number.isFinite(skewSeconds) || Math.abs(skewSeconds) > maxSkewSeconds) {
+    return reject('stale-timestamp', `Timestamp ${timestamp} is ${skewSeconds}s off, more than the allowed ${maxSkewSeconds}s`);
+  }
 
-  return {
-    isValid,
-    interaction: await isValid ? JSON.parse(body) : null,
-  };
-}
\ No newline at end of file
+  let interaction: APIInteraction;
+  try {
+    interaction = JSON.parse(body);
+  } catch {
+    return reject('malformed-body', 'Body is not valid JSON');
+  }
+  if (typeof interaction?.id !== 'string') {
+    return reject('malformed-body', 'Body has no interaction ID');
+  }
+
+  // Anything older than the skew window is already turned away above, so IDs only
+  // need remembering for that long (on both sides of our clock).
+  try {
+    if (!await markInteractionSeen(interaction.id, maxSkewSeconds * 2)) {
+      return reject('duplicate', 'Interaction was already received', interaction.id);
+    }
+  } catch (error) {
+    // The signature and timestamp have been checked, which is enough to go on
+    // while KV is unavailable.
+    console.error('Could not check for a replayed interaction:', error);
+  }
+
+  return { isValid: true, interaction };
+}
+
+/**
+ * Logs a rejected request as a single JSON line, so rejections can be searched
+ * and counted in the function logs.
+ */
+export function logRejectedRequest(req: Request, result: Extract<VerificationResult, { isValid: false }>) {
+  console.warn(JSON.stringify({
+    event: 'discord_request_rejected',
+    reason: result.reason,
+    detail: result.detail,
+    interactionId: result.interactionId ?? null,
+    timestamp: req.headers.get('x-signature-timestamp'),
+    ip: req.headers.get('x-forwarded-for')?.split(',')[0].trim() ?? null,
+    userAgent: req.headers.get('user-agent'),
+  }));
+}